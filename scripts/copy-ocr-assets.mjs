@@ -0,0 +1,29 @@
+// Copies the Tesseract worker, WASM core and English language data into
+// public/ocr so expiry-date OCR runs entirely from the app's own origin
+// (and from the PWA cache when offline) instead of a CDN.
+import { copyFileSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const target = join(process.cwd(), "public", "ocr");
+
+const packageDir = (name) => dirname(require.resolve(`${name}/package.json`));
+
+const files = [
+  [join(packageDir("tesseract.js"), "dist", "worker.min.js"), "worker.min.js"],
+  // OEM LSTM_ONLY uses the "-lstm" builds; the worker picks one by WASM features.
+  ...["tesseract-core-lstm", "tesseract-core-simd-lstm", "tesseract-core-relaxedsimd-lstm"].map(
+    (name) => [join(packageDir("tesseract.js-core"), `${name}.wasm.js`), `core/${name}.wasm.js`]
+  ),
+  // Integer "best" model: much smaller than the float one, same accuracy for dates.
+  [join(packageDir("@tesseract.js-data/eng"), "4.0.0_best_int", "eng.traineddata.gz"), "lang/eng.traineddata.gz"],
+];
+
+for (const [from, to] of files) {
+  const destination = join(target, to);
+  mkdirSync(dirname(destination), { recursive: true });
+  copyFileSync(from, destination);
+}
+
+console.log(`Copied ${files.length} OCR assets to public/ocr`);
@@ -9,10 +9,15 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Plus, Minus, Calendar, Save, Scan } from "lucide-react";
-import { expirationRecordsService, initializeDatabase } from "@/lib/db";
-import { validateBarcode, formatBarcodeForDisplay } from "@/lib/barcode";
-import type { ExpirationRecordForm } from "@/types";
+import LocationPicker from "@/components/LocationPicker";
+import ExpiryDateReader from "@/components/ExpiryDateReader";
+import { ArrowLeft, Plus, Minus, Calendar, Save, Scan, AlertTriangle } from "lucide-react";
+import { expirationRecordsService, initializeDatabase, settingsService } from "@/lib/db";
+import { validateBarcode, formatBarcodeForDisplay, resolveScanDestination } from "@/lib/barcode";
+import { useScannerInput } from "@/hooks/useScannerInput";
+import { parseGS1, gtinToRetailBarcode } from "@/lib/gs1";
+import { DEFAULT_STATUS_RULES, STATUS_COLORS, evaluateStatus, getRemainingDays } from "@/lib/status";
+import type { ExpirationRecordForm, StatusRules } from "@/types";
 
 function AddItemForm() {
   const router = useRouter();
@@ -24,29 +29,45 @@ function AddItemForm() {
     description: "",
     quantity: 1,
     expirationDate: "",
-    notes: ""
+    lotNumber: "",
+    notes: "",
+    locationId: "",
+    aisle: ""
   });
   
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [statusRules, setStatusRules] = useState<StatusRules>(DEFAULT_STATUS_RULES);
+
+  // Codes from a handheld (keyboard-wedge) scanner open the record or add form.
+  useScannerInput(async (code) => {
+    router.push(await resolveScanDestination(code));
+  });
 
   // Initialize form with URL parameters if coming from barcode scan
   useEffect(() => {
     const barcode = searchParams.get('barcode');
     const itemName = searchParams.get('itemName');
     const description = searchParams.get('description');
+    const expirationDate = searchParams.get('expirationDate');
+    const lotNumber = searchParams.get('lotNumber');
+    const quantity = Number(searchParams.get('quantity'));
 
     if (barcode) {
       setForm(prev => ({
         ...prev,
         barcode,
         itemName: itemName || "",
-        description: description || ""
+        description: description || "",
+        expirationDate: expirationDate || prev.expirationDate,
+        lotNumber: lotNumber || prev.lotNumber,
+        quantity: quantity > 0 ? quantity : prev.quantity
       }));
     }
 
     // Initialize database
     initializeDatabase();
+    settingsService.getStatusRules().then(setStatusRules);
   }, [searchParams]);
 
   const handleInputChange = (field: keyof ExpirationRecordForm, value: string | number) => {
@@ -58,6 +79,25 @@ function AddItemForm() {
     }
   };
 
+  // A scanned or pasted GS1 element string fills every field it carries.
+  // Only checked on paste, Enter or blur: part-way through typing, the text
+  // can already parse as a shorter element string.
+  // Returns whether the value was one.
+  const applyBarcodeGS1 = (value: string): boolean => {
+    const gs1 = parseGS1(value);
+    if (!gs1) return false;
+
+    setForm(prev => ({
+      ...prev,
+      barcode: gs1.gtin ? gtinToRetailBarcode(gs1.gtin) : prev.barcode,
+      expirationDate: gs1.expirationDate || prev.expirationDate,
+      lotNumber: gs1.lotNumber || prev.lotNumber,
+      quantity: gs1.quantity && gs1.quantity > 0 ? Math.min(9999, gs1.quantity) : prev.quantity
+    }));
+    setErrors(prev => ({ ...prev, barcode: "", expirationDate: "" }));
+    return true;
+  };
+
   const adjustQuantity = (delta: number) => {
     const newQuantity = Math.max(1, form.quantity + delta);
     handleInputChange('quantity', newQuantity);
@@ -119,11 +159,15 @@ function AddItemForm() {
     try {
       await expirationRecordsService.create({
         barcode: form.barcode.trim(),
+        barcodeFormat: "",
         itemName: form.itemName.trim(),
         description: form.description.trim(),
         quantity: form.quantity,
         expirationDate: new Date(form.expirationDate),
+        lotNumber: form.lotNumber.trim(),
         notes: form.notes.trim(),
+        locationId: form.locationId,
+        aisle: form.aisle.trim(),
         dateCreated: new Date()
       });
 
@@ -146,6 +190,9 @@ function AddItemForm() {
     return getTodayDate();
   };
 
+  // A failed check digit is a warning only: store-internal codes may not carry one.
+  const barcodeWarning = form.barcode.trim() ? validateBarcode(form.barcode).warning : undefined;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -183,6 +230,13 @@ function AddItemForm() {
                 placeholder="Enter or scan barcode"
                 value={form.barcode}
                 onChange={(e) => handleInputChange('barcode', e.target.value)}
+                onPaste={(e) => {
+                  if (applyBarcodeGS1(e.clipboardData.getData('text'))) e.preventDefault();
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && applyBarcodeGS1(form.barcode)) e.preventDefault();
+                }}
+                onBlur={() => applyBarcodeGS1(form.barcode)}
                 className={`font-mono ${errors.barcode ? 'border-red-500' : ''}`}
               />
               {form.barcode && !errors.barcode && (
@@ -193,6 +247,12 @@ function AddItemForm() {
               {errors.barcode && (
                 <p className="text-sm text-red-600 mt-1">{errors.barcode}</p>
               )}
+              {barcodeWarning && !errors.barcode && (
+                <p className="text-sm text-amber-700 mt-1 flex items-start gap-1">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>{barcodeWarning}</span>
+                </p>
+              )}
             </div>
 
             <div>
@@ -279,6 +339,9 @@ function AddItemForm() {
                 />
                 <Calendar className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
               </div>
+              <ExpiryDateReader
+                onConfirm={(date) => handleInputChange('expirationDate', date)}
+              />
               {errors.expirationDate && (
                 <p className="text-sm text-red-600 mt-1">{errors.expirationDate}</p>
               )}
@@ -286,30 +349,51 @@ function AddItemForm() {
                 <div className="mt-2">
                   {(() => {
                     const expirationDate = new Date(form.expirationDate);
-                    const today = new Date();
-                    const timeDiff = expirationDate.getTime() - today.getTime();
-                    const daysDiff = Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
-                    
-                    let badgeColor = "bg-green-100 text-green-800 border-green-200";
-                    let message = `${daysDiff} days from now`;
-                    
-                    if (daysDiff < 0) {
-                      badgeColor = "bg-red-100 text-red-800 border-red-200";
-                      message = `Expired ${Math.abs(daysDiff)} days ago`;
-                    } else if (daysDiff <= 7) {
-                      badgeColor = "bg-yellow-100 text-yellow-800 border-yellow-200";
-                      message = daysDiff === 0 ? "Expires today" : `${daysDiff} days from now`;
-                    }
+                    const daysDiff = getRemainingDays(expirationDate);
+                    const band = evaluateStatus(expirationDate, statusRules);
+
+                    const message = daysDiff < 0
+                      ? `Expired ${Math.abs(daysDiff)} days ago`
+                      : daysDiff === 0
+                      ? "Expires today"
+                      : `${daysDiff} days from now`;
                     
                     return (
-                      <Badge variant="outline" className={badgeColor}>
-                        {message}
+                      <Badge variant="outline" className={STATUS_COLORS[band.color].badge}>
+                        {band.label}: {message}
                       </Badge>
                     );
                   })()}
                 </div>
               )}
             </div>
+
+            <div>
+              <Label htmlFor="lotNumber">Lot / Batch Number</Label>
+              <Input
+                id="lotNumber"
+                type="text"
+                placeholder="e.g., L2405A"
+                value={form.lotNumber}
+                onChange={(e) => handleInputChange('lotNumber', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Storage Location */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Storage Location</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LocationPicker
+              locationId={form.locationId}
+              aisle={form.aisle}
+              onLocationChange={(value) => handleInputChange('locationId', value)}
+              onAisleChange={(value) => handleInputChange('aisle', value)}
+            />
           </CardContent>
         </Card>
 
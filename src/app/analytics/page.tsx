@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { dispositionsService, expirationRecordsService, locationsService, productDataService } from "@/lib/db";
+import {
+  FORECAST_WEEKS,
+  getExpiryForecast,
+  getRangeStart,
+  getRemovalsByReason,
+  getTopWastedProducts,
+  getWasteByCategory,
+  getWasteByLocation,
+  getWasteSeries,
+  type AnalyticsPeriod,
+  type WasteTotal,
+} from "@/lib/analytics";
+import { formatCost } from "@/lib/dispositions";
+import type { Disposition, ExpirationRecord, StorageLocation } from "@/types";
+
+const wasteConfig = {
+  discarded: { label: "Discarded", color: "var(--chart-1)" },
+  expiredOnShelf: { label: "Expired on shelf", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const valueConfig = {
+  value: { label: "Cost discarded", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const unitsConfig = {
+  units: { label: "Units", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+export default function AnalyticsPage() {
+  const [records, setRecords] = useState<ExpirationRecord[]>([]);
+  const [dispositions, setDispositions] = useState<Disposition[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [categories, setCategories] = useState<Map<string, string>>(new Map());
+  const [period, setPeriod] = useState<AnalyticsPeriod>("week");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([
+      expirationRecordsService.getAll(),
+      dispositionsService.getAll(),
+      locationsService.getAll(),
+    ])
+      .then(async ([recordList, dispositionList, locationList]) => {
+        setRecords(recordList);
+        setDispositions(dispositionList);
+        setLocations(locationList);
+        // Only the products that appear here, not the whole product database.
+        setCategories(
+          await productDataService.getCategoriesByBarcodes([
+            ...recordList.map((record) => record.barcode),
+            ...dispositionList.map((disposition) => disposition.barcode),
+          ])
+        );
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const analytics = useMemo(() => {
+    const since = getRangeStart(period);
+    const series = getWasteSeries(dispositions, records, period);
+    return {
+      series,
+      topProducts: getTopWastedProducts(dispositions, since),
+      byLocation: getWasteByLocation(dispositions, records, locations, since),
+      byCategory: getWasteByCategory(dispositions, records, categories, since),
+      byReason: getRemovalsByReason(dispositions, since),
+      forecast: getExpiryForecast(records),
+      discarded: series.reduce((sum, point) => sum + point.discarded, 0),
+      expiredOnShelf: series.reduce((sum, point) => sum + point.expiredOnShelf, 0),
+      value: series.reduce((sum, point) => sum + point.value, 0),
+    };
+  }, [dispositions, records, locations, categories, period]);
+
+  const rangeLabel = period === "week" ? "last 12 weeks" : "last 12 months";
+  const forecastUnits = analytics.forecast.reduce((sum, point) => sum + point.units, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-4 py-4">
+        <div className="flex items-center space-x-3">
+          <Link href="/settings">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">Waste Analytics</h1>
+        </div>
+      </header>
+
+      {isLoading ? (
+        <div className="p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading analytics...</p>
+        </div>
+      ) : (
+        <div className="p-4 space-y-6">
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant={period === "week" ? "default" : "outline"} onClick={() => setPeriod("week")}>
+              Weekly
+            </Button>
+            <Button variant={period === "month" ? "default" : "outline"} onClick={() => setPeriod("month")}>
+              Monthly
+            </Button>
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-3">
+            <SummaryTile label="Units discarded" value={String(analytics.discarded)} note={rangeLabel} />
+            <SummaryTile
+              label="Cost discarded"
+              value={analytics.value > 0 ? formatCost(analytics.value) : "—"}
+              note="where a cost was given"
+            />
+            <SummaryTile label="Expired on shelf" value={String(analytics.expiredOnShelf)} note="units not yet removed" />
+            <SummaryTile
+              label="Expiring soon"
+              value={String(forecastUnits)}
+              note={`units in the next ${FORECAST_WEEKS} weeks`}
+            />
+          </div>
+
+          {/* Waste Over Time */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center space-x-2">
+                <BarChart3 className="h-5 w-5" />
+                <span>Units Expired per {period === "week" ? "Week" : "Month"}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={wasteConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={analytics.series}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="discarded" stackId="waste" fill="var(--color-discarded)" />
+                  <Bar dataKey="expiredOnShelf" stackId="waste" fill="var(--color-expiredOnShelf)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Cost Discarded per {period === "week" ? "Week" : "Month"}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analytics.value > 0 ? (
+                <ChartContainer config={valueConfig} className="aspect-auto h-48 w-full">
+                  <BarChart data={analytics.series}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="value" fill="var(--color-value)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-sm text-gray-600 text-center py-6">
+                  Enter a cost per unit when discarding items to see the value lost.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Top Wasted Products */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Top Wasted Products</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TotalsList totals={analytics.topProducts} empty="Nothing discarded in this period." />
+            </CardContent>
+          </Card>
+
+          {/* Waste by Location */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Waste by Location</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TotalsList totals={analytics.byLocation} empty="No waste in this period." />
+            </CardContent>
+          </Card>
+
+          {/* Waste by Category */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Waste by Category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TotalsList totals={analytics.byCategory} empty="No waste in this period." />
+              {analytics.byCategory.some((total) => total.key === "") && (
+                <p className="text-xs text-gray-500 mt-3">
+                  Set a category on products in the product database to sort uncategorized waste.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Removals by Reason */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Removals by Reason</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TotalsList totals={analytics.byReason} empty="No items removed with a reason in this period." />
+            </CardContent>
+          </Card>
+
+          {/* Forecast */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Expiring in the Next {FORECAST_WEEKS} Weeks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={unitsConfig} className="aspect-auto h-48 w-full">
+                <BarChart data={analytics.forecast}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="units" fill="var(--color-units)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Summary Tile Component
+function SummaryTile({ label, value, note }: { label: string; value: string; note: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-sm text-gray-600">{label}</p>
+        <p className="text-2xl font-bold">{value}</p>
+        <p className="text-xs text-gray-500">{note}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Totals List Component
+function TotalsList({ totals, empty }: { totals: WasteTotal[]; empty: string }) {
+  if (totals.length === 0) {
+    return <p className="text-sm text-gray-600 text-center py-6">{empty}</p>;
+  }
+
+  const max = Math.max(...totals.map((total) => total.units), 1);
+  return (
+    <ul className="space-y-3">
+      {totals.map((total) => (
+        <li key={total.key} className="space-y-1">
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <span className="truncate font-medium">{total.name}</span>
+            <span className="shrink-0 text-gray-600">
+              {total.units} unit{total.units === 1 ? "" : "s"}
+              {total.value !== null && ` · ${formatCost(total.value)}`}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100">
+            <div
+              className="h-2 rounded-full bg-orange-500"
+              style={{ width: `${(total.units / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
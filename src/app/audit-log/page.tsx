@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, ScrollText } from "lucide-react";
+import AuditEntryList from "@/components/AuditEntryList";
+import {
+  auditLogService,
+  locationsService,
+  type AuditLogFilter,
+  type DBAuditEntry,
+} from "@/lib/db";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AUDIT_SOURCES } from "@/lib/auditLog";
+import type { AuditAction, AuditEntityType, AuditSource, StorageLocation } from "@/types";
+
+// Radix Select does not allow an empty-string item value.
+const ALL = "__all__";
+const PAGE_SIZE = 100;
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<DBAuditEntry[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [filter, setFilter] = useState<AuditLogFilter>({});
+  const [search, setSearch] = useState("");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await auditLogService.query(filter, limit));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter, limit]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    locationsService.getAll().then(setLocations);
+  }, []);
+
+  const updateFilter = (updates: Partial<AuditLogFilter>) => {
+    setFilter((prev) => ({ ...prev, ...updates }));
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-4 py-4">
+        <div className="flex items-center space-x-3">
+          <Link href="/settings">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">Change Log</h1>
+        </div>
+      </header>
+
+      <div className="p-4 space-y-6">
+        {/* Filters */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ScrollText className="h-5 w-5" />
+              <span>Filter Changes</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateFilter({ search });
+              }}
+            >
+              <div>
+                <Label htmlFor="audit-search">Item</Label>
+                <div className="flex space-x-2 mt-2">
+                  <Input
+                    id="audit-search"
+                    placeholder="Item name or barcode"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                  <Button type="submit" variant="outline">
+                    Search
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Type</Label>
+                  <Select
+                    value={filter.entityType ?? ALL}
+                    onValueChange={(value) =>
+                      updateFilter({ entityType: value === ALL ? undefined : (value as AuditEntityType) })
+                    }
+                  >
+                    <SelectTrigger className="w-full mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All</SelectItem>
+                      {AUDIT_ENTITY_TYPES.map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Action</Label>
+                  <Select
+                    value={filter.action ?? ALL}
+                    onValueChange={(value) =>
+                      updateFilter({ action: value === ALL ? undefined : (value as AuditAction) })
+                    }
+                  >
+                    <SelectTrigger className="w-full mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All</SelectItem>
+                      {AUDIT_ACTIONS.map((action) => (
+                        <SelectItem key={action.id} value={action.id}>
+                          {action.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Source</Label>
+                  <Select
+                    value={filter.source ?? ALL}
+                    onValueChange={(value) =>
+                      updateFilter({ source: value === ALL ? undefined : (value as AuditSource) })
+                    }
+                  >
+                    <SelectTrigger className="w-full mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All</SelectItem>
+                      {AUDIT_SOURCES.map((source) => (
+                        <SelectItem key={source.id} value={source.id}>
+                          {source.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {isLoading ? "Loading..." : `${entries.length}${entries.length === limit ? "+" : ""} changes`}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <AuditEntryList entries={entries} locations={locations} showItem />
+            {entries.length === limit && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setLimit((count) => count + PAGE_SIZE)}
+                disabled={isLoading}
+              >
+                Show more
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
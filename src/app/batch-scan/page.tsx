@@ -0,0 +1,358 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import LocationPicker from "@/components/LocationPicker";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Minus, Plus, Save, Trash2, X, ListChecks } from "lucide-react";
+import {
+  expirationRecordsService,
+  productDataService,
+  normalizeBarcodeForMatch,
+} from "@/lib/db";
+import { formatBarcodeForDisplay } from "@/lib/barcode";
+import { parseGS1, gtinToRetailBarcode } from "@/lib/gs1";
+import { getSymbologyLabel } from "@/lib/symbology";
+import type { BarcodeSymbology, BatchScanEntry } from "@/types";
+
+interface BatchLine {
+  key: string;
+  barcode: string;
+  barcodeFormat: BarcodeSymbology | "";
+  itemName: string;
+  description: string;
+  count: number;
+  expirationDate: string;
+  lotNumber: string;
+}
+
+export default function BatchScanPage() {
+  const [lines, setLines] = useState<BatchLine[]>([]);
+  const [lastKey, setLastKey] = useState<string | null>(null);
+  const [scannerActive, setScannerActive] = useState(false);
+  const [locationId, setLocationId] = useState("");
+  const [aisle, setAisle] = useState("");
+  const [bulkExpiry, setBulkExpiry] = useState("");
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  /* -------------------------------------------
+     Add a read to the session
+  --------------------------------------------*/
+  const handleScan = async (raw: string, format: BarcodeSymbology) => {
+    const gs1 = parseGS1(raw);
+    const barcode = gs1?.gtin ? gtinToRetailBarcode(gs1.gtin) : raw;
+    const barcodeFormat = gs1 ? "" : format;
+    const expirationDate = gs1?.expirationDate ?? "";
+    const lotNumber = gs1?.lotNumber ?? "";
+    const units = gs1?.quantity || 1;
+
+    // GS1 codes that carry an expiry or lot count as their own line.
+    const key = [
+      normalizeBarcodeForMatch(barcode, barcodeFormat) || barcode,
+      expirationDate,
+      lotNumber,
+    ].join("|");
+
+    const product = await productDataService.getByBarcode(barcode, barcodeFormat);
+
+    setLines((prev) => {
+      const existing = prev.find((line) => line.key === key);
+      if (existing) {
+        return prev.map((line) =>
+          line.key === key ? { ...line, count: line.count + units } : line
+        );
+      }
+      return [
+        {
+          key,
+          barcode,
+          barcodeFormat,
+          itemName: product?.itemName || "Scanned Item",
+          description: product?.description?.trim() || "",
+          count: units,
+          expirationDate,
+          lotNumber,
+        },
+        ...prev,
+      ];
+    });
+    setLastKey(key);
+    setMessage("");
+  };
+
+  const updateLine = (key: string, updates: Partial<BatchLine>) => {
+    setLines((prev) =>
+      prev.map((line) => (line.key === key ? { ...line, ...updates } : line))
+    );
+  };
+
+  const removeLine = (key: string) => {
+    setLines((prev) => prev.filter((line) => line.key !== key));
+  };
+
+  const applyBulkExpiry = () => {
+    if (!bulkExpiry) return;
+    setLines((prev) =>
+      prev.map((line) =>
+        line.expirationDate ? line : { ...line, expirationDate: bulkExpiry }
+      )
+    );
+  };
+
+  const handleClear = () => {
+    if (lines.length > 0 && !confirm(`Discard ${lines.length} scanned line(s)?`)) return;
+    setLines([]);
+    setLastKey(null);
+    setMessage("");
+  };
+
+  /* -------------------------------------------
+     Commit all lines in one transaction
+  --------------------------------------------*/
+  const handleCommit = async () => {
+    if (lines.length === 0) return;
+
+    const missing = lines.filter((line) => !line.expirationDate).length;
+    if (missing > 0) {
+      setMessage(`Set an expiration date for ${missing} line(s) before saving.`);
+      return;
+    }
+
+    setIsCommitting(true);
+    setMessage("");
+
+    try {
+      const entries: BatchScanEntry[] = lines.map((line) => ({
+        barcode: line.barcode,
+        barcodeFormat: line.barcodeFormat,
+        itemName: line.itemName,
+        description: line.description,
+        quantity: line.count,
+        expirationDate: new Date(line.expirationDate),
+        lotNumber: line.lotNumber,
+      }));
+
+      const result = await expirationRecordsService.commitBatch(entries, {
+        locationId,
+        aisle: aisle.trim(),
+      });
+
+      setMessage(
+        `Saved ${entries.length} line(s): ${result.created} new, ${result.merged} merged into existing records.`
+      );
+      setLines([]);
+      setLastKey(null);
+    } catch (error) {
+      console.error("Error committing batch:", error);
+      setMessage("Failed to save the batch. Nothing was written, please try again.");
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const totalUnits = lines.reduce((sum, line) => sum + line.count, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-4 py-4">
+        <div className="flex items-center space-x-3">
+          <Link href="/scan">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">Batch Scan</h1>
+        </div>
+      </header>
+
+      <div className="p-4 space-y-4">
+        <BarcodeScanner
+          continuous
+          isActive={scannerActive}
+          onToggle={() => setScannerActive((v) => !v)}
+          onScanSuccess={handleScan}
+        />
+
+        {/* Placement for the whole session */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Counting Location</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LocationPicker
+              locationId={locationId}
+              aisle={aisle}
+              onLocationChange={setLocationId}
+              onAisleChange={setAisle}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Session list */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <ListChecks className="h-5 w-5" />
+                Session
+              </CardTitle>
+              <Badge variant="outline">
+                {lines.length} lines · {totalUnits} units
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {lines.length === 0 ? (
+              <p className="text-center text-gray-600 py-4">
+                Start the camera and sweep the shelf. Each read adds one unit.
+              </p>
+            ) : (
+              <>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Label htmlFor="bulk-expiry">Expiry for lines without one</Label>
+                    <Input
+                      id="bulk-expiry"
+                      type="date"
+                      value={bulkExpiry}
+                      onChange={(e) => setBulkExpiry(e.target.value)}
+                      className="mt-1"
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={applyBulkExpiry}
+                    disabled={!bulkExpiry}
+                  >
+                    Apply
+                  </Button>
+                </div>
+
+                {lines.map((line) => (
+                  <BatchLineRow
+                    key={line.key}
+                    line={line}
+                    highlighted={line.key === lastKey}
+                    onChange={(updates) => updateLine(line.key, updates)}
+                    onRemove={() => removeLine(line.key)}
+                  />
+                ))}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {message && (
+          <p
+            className={`text-sm text-center font-medium ${
+              message.startsWith("Saved") ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            {message}
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          <Button
+            variant="outline"
+            className="h-12"
+            onClick={handleClear}
+            disabled={lines.length === 0 || isCommitting}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+          <Button
+            className="h-12 col-span-2"
+            onClick={handleCommit}
+            disabled={lines.length === 0 || isCommitting}
+          >
+            <Save className="h-5 w-5 mr-2" />
+            {isCommitting ? "Saving..." : `Commit All (${totalUnits})`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Batch Line Row Component
+function BatchLineRow({
+  line,
+  highlighted,
+  onChange,
+  onRemove,
+}: {
+  line: BatchLine;
+  highlighted: boolean;
+  onChange: (updates: Partial<BatchLine>) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div
+      className={`p-3 rounded border space-y-2 ${
+        highlighted ? "bg-green-50 border-green-300" : "bg-gray-50"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{line.itemName}</p>
+          <p className="text-xs text-gray-500 font-mono">
+            {formatBarcodeForDisplay(line.barcode)}
+            {line.barcodeFormat && ` · ${getSymbologyLabel(line.barcodeFormat)}`}
+            {line.lotNumber && ` · Lot ${line.lotNumber}`}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          aria-label="Remove line"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex items-center">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ count: Math.max(1, line.count - 1) })}
+            disabled={line.count <= 1}
+            aria-label="Decrease count"
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="w-10 text-center font-semibold">{line.count}</span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ count: line.count + 1 })}
+            aria-label="Increase count"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        <Input
+          type="date"
+          aria-label={`Expiration date for ${line.itemName}`}
+          value={line.expirationDate}
+          onChange={(e) => onChange({ expirationDate: e.target.value })}
+          className={`flex-1 ${line.expirationDate ? "" : "border-amber-400"}`}
+        />
+      </div>
+    </div>
+  );
+}
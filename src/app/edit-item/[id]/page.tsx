@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import LocationPicker from "@/components/LocationPicker";
 import { 
   ArrowLeft, 
   Plus, 
@@ -22,11 +23,15 @@ import {
   Clock,
   FileText,
   CheckCircle,
-  History
+  History,
+  MapPin,
+  Tag
 } from "lucide-react";
-import { expirationRecordsService, initializeDatabase } from "@/lib/db";
+import { expirationRecordsService, initializeDatabase, settingsService } from "@/lib/db";
 import { formatBarcodeForDisplay } from "@/lib/barcode";
-import type { ExpirationRecord, ExpirationRecordForm } from "@/types";
+import { DEFAULT_STATUS_RULES, STATUS_COLORS, evaluateStatus, getRemainingDays } from "@/lib/status";
+import { showDeletedToast } from "@/lib/trash";
+import type { ExpirationRecord, ExpirationRecordForm, StatusRules } from "@/types";
 
 function EditItemForm() {
   const router = useRouter();
@@ -34,13 +39,17 @@ function EditItemForm() {
   const itemId = params.id as string;
   
   const [originalRecord, setOriginalRecord] = useState<ExpirationRecord | null>(null);
+  const [statusRules, setStatusRules] = useState<StatusRules>(DEFAULT_STATUS_RULES);
   const [form, setForm] = useState<ExpirationRecordForm>({
     barcode: "",
     itemName: "",
     description: "",
     quantity: 1,
     expirationDate: "",
-    notes: ""
+    lotNumber: "",
+    notes: "",
+    locationId: "",
+    aisle: ""
   });
   
   const [isLoading, setIsLoading] = useState(false);
@@ -56,7 +65,11 @@ function EditItemForm() {
       setIsLoading(true);
       try {
         await initializeDatabase();
-        const record = await expirationRecordsService.getById(itemId);
+        const [record, rules] = await Promise.all([
+          expirationRecordsService.getById(itemId),
+          settingsService.getStatusRules()
+        ]);
+        setStatusRules(rules);
         
         if (!record) {
           setErrors({ load: 'Item not found' });
@@ -71,7 +84,10 @@ function EditItemForm() {
           description: record.description,
           quantity: record.quantity,
           expirationDate: record.expirationDate.toISOString().split('T')[0],
-          notes: record.notes
+          lotNumber: record.lotNumber,
+          notes: record.notes,
+          locationId: record.locationId,
+          aisle: record.aisle
         });
       } catch (error) {
         console.error('Error loading record:', error);
@@ -151,8 +167,13 @@ function EditItemForm() {
         description: form.description.trim(),
         quantity: form.quantity,
         expirationDate: new Date(form.expirationDate),
+        lotNumber: form.lotNumber.trim(),
         notes: form.notes.trim(),
+        locationId: form.locationId,
+        aisle: form.aisle.trim(),
         barcode: form.barcode,
+        // A hand-edited barcode no longer matches the symbology it was scanned as.
+        barcodeFormat: form.barcode === originalRecord.barcode ? originalRecord.barcodeFormat : "",
         dateCreated: originalRecord.dateCreated
       });
 
@@ -178,6 +199,7 @@ function EditItemForm() {
     try {
       await expirationRecordsService.delete(originalRecord.id);
       router.push('/');
+      showDeletedToast([originalRecord.id], () => router.push(`/edit-item/${originalRecord.id}`));
     } catch (error) {
       console.error('Error deleting item:', error);
       setErrors({ delete: 'Failed to delete item. Please try again.' });
@@ -196,42 +218,17 @@ function EditItemForm() {
     if (!form.expirationDate) return null;
 
     const expirationDate = new Date(form.expirationDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const timeDiff = expirationDate.getTime() - today.getTime();
-    const daysDiff = Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
-    
-    let badgeColor = "bg-green-100 text-green-800 border-green-200";
-    let message = `${daysDiff} days from now`;
-    let status = "Safe";
-    let icon = "🟢";
-    
-    if (daysDiff < 0) {
-      badgeColor = "bg-red-100 text-red-800 border-red-200";
-      message = `Expired ${Math.abs(daysDiff)} days ago`;
-      status = "Expired";
-      icon = "🔴";
-    } else if (daysDiff <= 7) {
-      badgeColor = "bg-yellow-100 text-yellow-800 border-yellow-200";
-      message = daysDiff === 0 ? "Expires today" : `${daysDiff} days from now`;
-      status = "Near Expiration";
-      icon = "🟡";
-    }
-    
-    return { badgeColor, message, status, icon };
-  };
+    const daysDiff = getRemainingDays(expirationDate);
+    const band = evaluateStatus(expirationDate, statusRules);
+    const color = STATUS_COLORS[band.color];
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "expired":
-        return "bg-red-100 text-red-800 border-red-200";
-      case "near-expiration":
-        return "bg-yellow-100 text-yellow-800 border-yellow-200";
-      case "safe":
-        return "bg-green-100 text-green-800 border-green-200";
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-200";
-    }
+    const message = daysDiff < 0
+      ? `Expired ${Math.abs(daysDiff)} days ago`
+      : daysDiff === 0
+      ? "Expires today"
+      : `${daysDiff} days from now`;
+
+    return { badgeColor: color.badge, message, status: band.label, icon: color.emoji };
   };
 
   const hasChanges = () => {
@@ -242,7 +239,10 @@ function EditItemForm() {
       originalRecord.description !== form.description ||
       originalRecord.quantity !== form.quantity ||
       originalRecord.expirationDate.toISOString().split('T')[0] !== form.expirationDate ||
-      originalRecord.notes !== form.notes
+      originalRecord.notes !== form.notes ||
+      originalRecord.lotNumber !== form.lotNumber ||
+      originalRecord.locationId !== form.locationId ||
+      originalRecord.aisle !== form.aisle
     );
   };
 
@@ -346,20 +346,16 @@ function EditItemForm() {
                 <p className="text-gray-600 mb-1">Current Status:</p>
                 <div className="flex items-center space-x-2">
                   <span className="text-lg">
-                    {originalRecord.status === 'expired' ? '🔴' : 
-                     originalRecord.status === 'near-expiration' ? '🟡' : '🟢'}
+                    {STATUS_COLORS[originalRecord.statusBand.color].emoji}
                   </span>
-                  <Badge variant="outline" className={getStatusColor(originalRecord.status)}>
-                    {originalRecord.status.replace('-', ' ')}
+                  <Badge variant="outline" className={STATUS_COLORS[originalRecord.statusBand.color].badge}>
+                    {originalRecord.statusBand.label}
                   </Badge>
                 </div>
               </div>
               <div>
                 <p className="text-gray-600 mb-1">Days Remaining:</p>
-                <p className={`font-semibold ${
-                  originalRecord.remainingDays < 0 ? 'text-red-600' :
-                  originalRecord.remainingDays <= 7 ? 'text-yellow-600' : 'text-green-600'
-                }`}>
+                <p className={`font-semibold ${STATUS_COLORS[originalRecord.statusBand.color].text}`}>
                   {originalRecord.remainingDays < 0 
                     ? `Expired ${Math.abs(originalRecord.remainingDays)} days ago`
                     : originalRecord.remainingDays === 0
@@ -569,13 +565,57 @@ function EditItemForm() {
                         To: {new Date(form.expirationDate).toLocaleDateString()}
                       </p>
                       <p className="text-xs text-blue-600 mt-2">
-                        Status will change from "{originalRecord.status.replace('-', ' ')}" to "{statusPreview.status}"
+                        Status will change from "{originalRecord.statusBand.label}" to "{statusPreview.status}"
                       </p>
                     </div>
                   )}
                 </div>
               )}
             </div>
+
+            {/* Lot Section */}
+            <div className="bg-white p-4 rounded-lg border border-green-200">
+              <Label htmlFor="lotNumber" className="flex items-center space-x-2 mb-4">
+                <Tag className="h-4 w-4" />
+                <span className="font-semibold">Lot / Batch Number</span>
+              </Label>
+              <Input
+                id="lotNumber"
+                type="text"
+                placeholder="e.g., L2405A"
+                value={form.lotNumber}
+                onChange={(e) => handleInputChange('lotNumber', e.target.value)}
+                className="font-mono border-green-300"
+              />
+              {originalRecord.lotNumber !== form.lotNumber && (
+                <p className="text-sm text-blue-600 mt-1">
+                  Changed from: &quot;{originalRecord.lotNumber || "none"}&quot;
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Storage Location */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <MapPin className="h-5 w-5" />
+              <span>Storage Location</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LocationPicker
+              locationId={form.locationId}
+              aisle={form.aisle}
+              onLocationChange={(value) => handleInputChange('locationId', value)}
+              onAisleChange={(value) => handleInputChange('aisle', value)}
+            />
+            {(originalRecord.locationId !== form.locationId || originalRecord.aisle !== form.aisle) && (
+              <p className="text-sm text-blue-600 mt-2">
+                Location has been modified
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -712,15 +752,9 @@ function EditItemForm() {
                   <p className="font-medium text-red-800">Confirm Deletion</p>
                 </div>
                 <p className="text-sm text-red-700 mb-4">
-                  Are you sure you want to permanently delete <strong>"{originalRecord.itemName}"</strong>? 
-                  This action cannot be undone and will remove all associated data including:
+                  Move <strong>&quot;{originalRecord.itemName}&quot;</strong> to the trash? You can restore it
+                  from Settings → Trash until the trash is emptied.
                 </p>
-                <ul className="text-xs text-red-600 mb-4 space-y-1">
-                  <li>• Item name and description</li>
-                  <li>• Quantity and expiration date</li>
-                  <li>• Notes and creation date</li>
-                  <li>• All tracking history</li>
-                </ul>
                 <div className="grid grid-cols-2 gap-2">
                   <Button
                     type="button"
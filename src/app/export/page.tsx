@@ -6,29 +6,48 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, Download, FileSpreadsheet, CheckCircle } from "lucide-react";
-import { expirationRecordsService } from "@/lib/db";
-import { exportExpirationRecordsToExcel } from "@/lib/excel";
-import type { ExpirationRecord } from "@/types";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Download, FileSpreadsheet, CheckCircle, DatabaseBackup, ChevronUp, ChevronDown, ArrowDownAZ, ArrowUpZA, RotateCcw, Search, Printer } from "lucide-react";
+import { expirationRecordsService, locationsService, settingsService } from "@/lib/db";
+import { exportExpirationRecords } from "@/lib/excel";
+import { downloadBackup } from "@/lib/backup";
+import { exportExpirationReportToPdf } from "@/lib/pdfReport";
+import {
+  ALL_LOCATIONS,
+  CSV_DELIMITERS,
+  DEFAULT_EXPORT_PROFILE,
+  EXPORT_FORMATS,
+  EXPORT_SORT_FIELDS,
+  UNASSIGNED_LOCATION,
+  applyExportProfile,
+  getExportColumnInfo,
+  getExportColumns,
+  getExportFormatInfo,
+  pruneExportProfile,
+} from "@/lib/exportProfile";
+import { DEFAULT_STATUS_RULES, STATUS_COLORS } from "@/lib/status";
+import type { CsvDelimiter, ExpirationRecord, ExportColumn, ExportFormat, ExportProfile, ExportSortField, StatusRules, StorageLocation } from "@/types";
 
 export default function ExportPage() {
   const [records, setRecords] = useState<ExpirationRecord[]>([]);
+  const [statusRules, setStatusRules] = useState<StatusRules>(DEFAULT_STATUS_RULES);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [exportSuccess, setExportSuccess] = useState(false);
-  
-  const [selectedColumns, setSelectedColumns] = useState({
-    barcode: true,
-    itemName: true,
-    description: true,
-    quantity: true,
-    expirationDate: true,
-    remainingDays: true,
-    status: true,
-    notes: true,
-    dateCreated: true
-  });
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [profile, setProfile] = useState<ExportProfile>(DEFAULT_EXPORT_PROFILE);
+  const [storeName, setStoreName] = useState('');
+  const [isPrinting, setIsPrinting] = useState(false);
 
   useEffect(() => {
     loadRecords();
@@ -36,8 +55,18 @@ export default function ExportPage() {
 
   const loadRecords = async () => {
     try {
-      const data = await expirationRecordsService.getAll();
+      const [data, rules, locationList, savedProfile, store] = await Promise.all([
+        expirationRecordsService.getAll(),
+        settingsService.getStatusRules(),
+        locationsService.getAll(),
+        settingsService.getExportProfile(),
+        settingsService.getStoreName()
+      ]);
+      setStoreName(store);
       setRecords(data);
+      setStatusRules(rules);
+      setLocations(locationList);
+      setProfile(pruneExportProfile(savedProfile, rules, locationList));
     } catch (error) {
       console.error('Error loading records:', error);
     } finally {
@@ -45,33 +74,50 @@ export default function ExportPage() {
     }
   };
 
-  const handleColumnToggle = (column: keyof typeof selectedColumns) => {
-    setSelectedColumns(prev => ({
+  const updateProfile = (updates: Partial<ExportProfile>) => {
+    setProfile(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleColumnToggle = (column: ExportColumn) => {
+    setProfile(prev => ({
       ...prev,
-      [column]: !prev[column]
+      selectedColumns: prev.selectedColumns.includes(column)
+        ? prev.selectedColumns.filter(id => id !== column)
+        : [...prev.selectedColumns, column]
     }));
   };
 
-  const handleSelectAll = () => {
-    const allSelected = Object.values(selectedColumns).every(Boolean);
-    const newState = !allSelected;
-    
-    setSelectedColumns({
-      barcode: newState,
-      itemName: newState,
-      description: newState,
-      quantity: newState,
-      expirationDate: newState,
-      remainingDays: newState,
-      status: newState,
-      notes: newState,
-      dateCreated: newState
+  const handleMoveColumn = (column: ExportColumn, offset: -1 | 1) => {
+    setProfile(prev => {
+      const order = [...prev.columnOrder];
+      const index = order.indexOf(column);
+      const target = index + offset;
+      if (target < 0 || target >= order.length) return prev;
+      [order[index], order[target]] = [order[target], order[index]];
+      return { ...prev, columnOrder: order };
     });
   };
 
+  const handleSelectAll = () => {
+    const allSelected = profile.selectedColumns.length === profile.columnOrder.length;
+    updateProfile({ selectedColumns: allSelected ? [] : [...profile.columnOrder] });
+  };
+
+  const handleStatusToggle = (bandId: string) => {
+    setProfile(prev => ({
+      ...prev,
+      statusBands: prev.statusBands.includes(bandId)
+        ? prev.statusBands.filter(id => id !== bandId)
+        : [...prev.statusBands, bandId]
+    }));
+  };
+
+  const exportRecords = applyExportProfile(records, profile, locations);
+  const formatInfo = getExportFormatInfo(profile.format);
+
   const handleExport = async () => {
-    if (records.length === 0) {
-      alert('No records to export');
+    if (exportRecords.length === 0) {
+      alert('No records match the current filters');
       return;
     }
 
@@ -79,10 +125,10 @@ export default function ExportPage() {
     setExportSuccess(false);
 
     try {
-      // Filter records based on selected columns (for display purposes)
-      // The actual filtering happens in the export function
-      exportExpirationRecordsToExcel(records);
-      
+      exportExpirationRecords(exportRecords, getExportColumns(profile), locations, profile);
+      // Remember this setup so the next report is one tap.
+      await settingsService.updateExportProfile(profile);
+
       setExportSuccess(true);
       setTimeout(() => setExportSuccess(false), 3000);
     } catch (error) {
@@ -93,17 +139,40 @@ export default function ExportPage() {
     }
   };
 
+  const handlePdfReport = async () => {
+    setIsPrinting(true);
+    try {
+      await exportExpirationReportToPdf(exportRecords, { statusRules, locations, storeName });
+      await settingsService.updateExportProfile(profile);
+    } catch (error) {
+      console.error('Error creating PDF report:', error);
+      alert('Failed to create PDF report. Please try again.');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      await downloadBackup();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      alert('Failed to create backup. Please try again.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
   const getSelectedCount = () => {
-    return Object.values(selectedColumns).filter(Boolean).length;
+    return profile.selectedColumns.length;
   };
 
   const getStatusCounts = () => {
-    const counts = {
-      safe: records.filter(r => r.status === 'safe').length,
-      nearExpiration: records.filter(r => r.status === 'near-expiration').length,
-      expired: records.filter(r => r.status === 'expired').length
-    };
-    return counts;
+    return statusRules.bands.map(band => ({
+      band,
+      count: records.filter(r => r.status === band.id).length
+    }));
   };
 
   if (isLoading) {
@@ -157,34 +226,157 @@ export default function ExportPage() {
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <p className="text-sm text-gray-600">Total Records</p>
-                    <p className="text-2xl font-bold">{records.length}</p>
+                    <p className="text-sm text-gray-600">Records to Export</p>
+                    <p className="text-2xl font-bold">{exportRecords.length}/{records.length}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-600">Selected Columns</p>
-                    <p className="text-2xl font-bold">{getSelectedCount()}/9</p>
+                    <p className="text-2xl font-bold">{getSelectedCount()}/{profile.columnOrder.length}</p>
                   </div>
                 </div>
                 
                 <div className="grid grid-cols-3 gap-4 pt-4 border-t">
-                  <div className="text-center">
-                    <p className="text-lg font-semibold text-green-600">{statusCounts.safe}</p>
-                    <p className="text-xs text-gray-600">Safe</p>
-                  </div>
-                  <div className="text-center">
-                    <p className="text-lg font-semibold text-yellow-600">{statusCounts.nearExpiration}</p>
-                    <p className="text-xs text-gray-600">Near Expiry</p>
-                  </div>
-                  <div className="text-center">
-                    <p className="text-lg font-semibold text-red-600">{statusCounts.expired}</p>
-                    <p className="text-xs text-gray-600">Expired</p>
-                  </div>
+                  {statusCounts.map(({ band, count }) => (
+                    <div key={band.id} className="text-center">
+                      <p className={`text-lg font-semibold ${STATUS_COLORS[band.color].text}`}>{count}</p>
+                      <p className="text-xs text-gray-600">{band.label}</p>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
           </CardContent>
         </Card>
 
+        {/* Filters */}
+        {records.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Filter Records</CardTitle>
+                <Button
+                  onClick={() => setProfile(DEFAULT_EXPORT_PROFILE)}
+                  variant="ghost"
+                  size="sm"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Reset
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label className="mb-2 block">Status</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {statusRules.bands.map(band => (
+                    <div key={band.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`status-${band.id}`}
+                        checked={profile.statusBands.includes(band.id)}
+                        onCheckedChange={() => handleStatusToggle(band.id)}
+                      />
+                      <Label htmlFor={`status-${band.id}`} className={`cursor-pointer ${STATUS_COLORS[band.color].text}`}>
+                        {band.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave all unchecked to include every status</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="date-from">Expires From</Label>
+                  <Input
+                    id="date-from"
+                    type="date"
+                    value={profile.dateFrom}
+                    onChange={(e) => updateProfile({ dateFrom: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="date-to">Expires To</Label>
+                  <Input
+                    id="date-to"
+                    type="date"
+                    value={profile.dateTo}
+                    onChange={(e) => updateProfile({ dateTo: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Location</Label>
+                <Select
+                  value={profile.locationId}
+                  onValueChange={(value) => updateProfile({ locationId: value })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={UNASSIGNED_LOCATION}>No location</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="export-search">Search</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="export-search"
+                    placeholder="Name, barcode, lot, aisle or notes..."
+                    value={profile.search}
+                    onChange={(e) => updateProfile({ search: e.target.value })}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Sort By</Label>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={profile.sortBy}
+                    onValueChange={(value) => updateProfile({ sortBy: value as ExportSortField })}
+                  >
+                    <SelectTrigger className="flex-1 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPORT_SORT_FIELDS.map(field => (
+                        <SelectItem key={field.id} value={field.id}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9"
+                    onClick={() => updateProfile({ sortDirection: profile.sortDirection === 'asc' ? 'desc' : 'asc' })}
+                  >
+                    {profile.sortDirection === 'asc' ? (
+                      <ArrowDownAZ className="h-4 w-4 mr-1" />
+                    ) : (
+                      <ArrowUpZA className="h-4 w-4 mr-1" />
+                    )}
+                    {profile.sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Column Selection */}
         {records.length > 0 && (
           <Card>
@@ -196,36 +388,130 @@ export default function ExportPage() {
                   variant="outline"
                   size="sm"
                 >
-                  {Object.values(selectedColumns).every(Boolean) ? 'Deselect All' : 'Select All'}
+                  {getSelectedCount() === profile.columnOrder.length ? 'Deselect All' : 'Select All'}
                 </Button>
               </div>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 gap-4">
-                {Object.entries(selectedColumns).map(([column, selected]) => (
-                  <div key={column} className="flex items-center space-x-3">
-                    <Checkbox
-                      id={column}
-                      checked={selected}
-                      onCheckedChange={() => handleColumnToggle(column as keyof typeof selectedColumns)}
-                    />
-                    <Label htmlFor={column} className="flex-1 cursor-pointer">
-                      <div className="flex items-center justify-between">
-                        <span className="font-medium">
-                          {column.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                        </span>
-                        <Badge variant="outline" className="text-xs">
-                          {getColumnDescription(column)}
-                        </Badge>
+              <div className="grid grid-cols-1 gap-3">
+                {profile.columnOrder.map((column, index) => {
+                  const info = getExportColumnInfo(column);
+                  return (
+                    <div key={column} className="flex items-center space-x-3">
+                      <Checkbox
+                        id={column}
+                        checked={profile.selectedColumns.includes(column)}
+                        onCheckedChange={() => handleColumnToggle(column)}
+                      />
+                      <Label htmlFor={column} className="flex-1 cursor-pointer">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{info.header}</span>
+                          <Badge variant="outline" className="text-xs">
+                            {info.description}
+                          </Badge>
+                        </div>
+                      </Label>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={index === 0}
+                          onClick={() => handleMoveColumn(column, -1)}
+                          aria-label={`Move ${info.header} up`}
+                        >
+                          <ChevronUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={index === profile.columnOrder.length - 1}
+                          onClick={() => handleMoveColumn(column, 1)}
+                          aria-label={`Move ${info.header} down`}
+                        >
+                          <ChevronDown className="h-4 w-4" />
+                        </Button>
                       </div>
-                    </Label>
-                  </div>
-                ))}
+                    </div>
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* File Format */}
+        {records.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>File Format</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Select
+                value={profile.format}
+                onValueChange={(value) => updateProfile({ format: value as ExportFormat })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map(info => (
+                    <SelectItem key={info.id} value={info.id}>
+                      {info.label} (.{info.extension})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {profile.format === 'csv' && (
+                <>
+                  <div>
+                    <Label>Delimiter</Label>
+                    <Select
+                      value={profile.csvDelimiter}
+                      onValueChange={(value) => updateProfile({ csvDelimiter: value as CsvDelimiter })}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CSV_DELIMITERS.map(info => (
+                          <SelectItem key={info.label} value={info.id}>
+                            {info.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Excel in many European locales expects semicolons
+                    </p>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="csv-bom">Add BOM for Excel</Label>
+                      <p className="text-xs text-gray-500">
+                        Lets Excel show accented names correctly
+                      </p>
+                    </div>
+                    <Switch
+                      id="csv-bom"
+                      checked={profile.csvBom}
+                      onCheckedChange={(checked) => updateProfile({ csvBom: checked })}
+                    />
+                  </div>
+                </>
+              )}
+
+              {profile.format === 'json' && (
+                <p className="text-xs text-gray-500">
+                  An array of objects keyed by column name, with dates as YYYY-MM-DD
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Export Button */}
         {records.length > 0 && (
           <div className="space-y-3">
@@ -236,14 +522,14 @@ export default function ExportPage() {
                   <span className="text-green-800 font-medium">Export Successful!</span>
                 </div>
                 <p className="text-green-700 text-sm mt-1">
-                  Your Excel file has been downloaded successfully.
+                  Your {formatInfo.label} file has been downloaded. These settings are saved for next time.
                 </p>
               </div>
             )}
             
             <Button
               onClick={handleExport}
-              disabled={isExporting || getSelectedCount() === 0}
+              disabled={isExporting || getSelectedCount() === 0 || exportRecords.length === 0}
               className="w-full h-12 text-lg"
             >
               {isExporting ? (
@@ -254,7 +540,7 @@ export default function ExportPage() {
               ) : (
                 <>
                   <Download className="h-5 w-5 mr-2" />
-                  Export to Excel (.xlsx)
+                  Export {exportRecords.length} to {formatInfo.label} (.{formatInfo.extension})
                 </>
               )}
             </Button>
@@ -264,17 +550,97 @@ export default function ExportPage() {
                 Please select at least one column to export
               </p>
             )}
+            {exportRecords.length === 0 && (
+              <p className="text-center text-sm text-red-600">
+                No records match the current filters
+              </p>
+            )}
           </div>
         )}
 
+        {/* PDF Report */}
+        {records.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Printer className="h-5 w-5" />
+                <span>Printable Report (PDF)</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-600">
+                The {exportRecords.length} filtered records grouped by status and location, with counts,
+                one status per page. Ready to print for the morning walk.
+              </p>
+              <p className="text-xs text-gray-500">
+                {storeName ? `Header: ${storeName}` : 'Set a store name in Settings to show it in the header.'}
+              </p>
+              <Button
+                onClick={handlePdfReport}
+                disabled={isPrinting || exportRecords.length === 0}
+                variant="outline"
+                className="w-full"
+              >
+                {isPrinting ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600 mr-2"></div>
+                    Creating Report...
+                  </>
+                ) : (
+                  <>
+                    <Printer className="h-4 w-4 mr-2" />
+                    Download PDF Report
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Full Backup */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <DatabaseBackup className="h-5 w-5" />
+              <span>Full Backup (JSON)</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Saves all expiration records, product data, locations and settings in one file.
+              Restore it on another phone from Import Product Data.
+            </p>
+            <Button
+              onClick={handleBackup}
+              disabled={isBackingUp}
+              variant="outline"
+              className="w-full"
+            >
+              {isBackingUp ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600 mr-2"></div>
+                  Creating Backup...
+                </>
+              ) : (
+                <>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Backup (.json)
+                </>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Export Information */}
         <Card className="bg-blue-50 border-blue-200">
           <CardContent className="p-4">
             <h3 className="font-medium text-blue-900 mb-2">Export Information</h3>
             <ul className="text-sm text-blue-800 space-y-1">
-              <li>• File format: Excel (.xlsx)</li>
-              <li>• File name: expiration-records-YYYY-MM-DD.xlsx</li>
-              <li>• All selected data will be included</li>
+              <li>• File formats: Excel (.xlsx), OpenDocument (.ods), CSV (.csv) and JSON (.json)</li>
+              <li>• File name: expiration-records-YYYY-MM-DD-Ncols.{formatInfo.extension}</li>
+              <li>• Only records matching the filters are included, in the chosen sort order</li>
+              <li>• Columns appear in the order arranged above</li>
+              <li>• Filters, sort and columns are remembered after each export</li>
               <li>• Dates will be formatted for readability</li>
               <li>• Status values will be human-readable</li>
               <li>• File will be downloaded to your default download folder</li>
@@ -285,20 +651,3 @@ export default function ExportPage() {
     </div>
   );
 }
-
-// Helper function to get column descriptions
-function getColumnDescription(column: string): string {
-  const descriptions: Record<string, string> = {
-    barcode: 'Product identifier',
-    itemName: 'Product name',
-    description: 'Product details',
-    quantity: 'Current quantity',
-    expirationDate: 'Expiry date',
-    remainingDays: 'Days until expiry',
-    status: 'Current status',
-    notes: 'Additional notes',
-    dateCreated: 'Date added'
-  };
-  
-  return descriptions[column] || 'Data field';
-}
\ No newline at end of file
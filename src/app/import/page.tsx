@@ -7,11 +7,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 
-import { ArrowLeft, Upload, Download, FileSpreadsheet, CheckCircle, AlertCircle, Trash2, Edit } from "lucide-react";
-import { productDataService } from "@/lib/db";
-import { importProductDataFromExcel, importProductDataFromCSV, downloadProductDataTemplate, validateExcelFile } from "@/lib/excel";
-import type { ProductData, ExcelImportResult } from "@/types";
+import { ArrowLeft, Upload, Download, FileSpreadsheet, CheckCircle, AlertCircle, Trash2, Edit, ArchiveRestore, History, Undo2 } from "lucide-react";
+import { importHistoryService, productDataService, type DBImportRun } from "@/lib/db";
+import { importProductData, downloadProductDataTemplate, validateExcelFile } from "@/lib/excel";
+import { applyMapping, readImportWorkbook, type ImportWorkbook } from "@/lib/importMapping";
+import ImportMappingWizard from "@/components/ImportMappingWizard";
+import { parseBackup, restoreBackup, summarizeBackup, type BackupFile, type RestoreMode, type RestoreResult } from "@/lib/backup";
+import type { DuplicateOptions, ProductData, ExcelImportResult, ImportMapping } from "@/types";
 
 export default function ImportPage() {
   const [isImporting, setIsImporting] = useState(false);
@@ -21,7 +25,16 @@ export default function ImportPage() {
   const [isLoadingData, setIsLoadingData] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [editingProduct, setEditingProduct] = useState<ProductData | null>(null);
+  const [workbook, setWorkbook] = useState<ImportWorkbook | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+  const [importRuns, setImportRuns] = useState<DBImportRun[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
 
   const loadProductData = async () => {
     setIsLoadingData(true);
@@ -39,6 +52,16 @@ export default function ImportPage() {
     }
   };
 
+  const loadImportHistory = async () => {
+    setImportRuns(await importHistoryService.getAll());
+  };
+
+  const clearFileInput = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -51,42 +74,61 @@ export default function ImportPage() {
         imported: 0,
         errors: [validation.error || 'Invalid file']
       });
+      clearFileInput();
       return;
     }
 
+    setImportResult(null);
+    try {
+      // Columns are confirmed in the mapping step before anything is written.
+      setWorkbook(await readImportWorkbook(file));
+    } catch (error) {
+      setImportResult({
+        success: false,
+        imported: 0,
+        errors: [error instanceof Error ? error.message : String(error)]
+      });
+    } finally {
+      clearFileInput();
+    }
+  };
+
+  const handleMappingConfirm = async (mapping: ImportMapping, duplicates: DuplicateOptions) => {
+    if (!workbook) return;
+
     setIsImporting(true);
     setImportProgress(0);
-    setImportResult(null);
 
     try {
-      let result: ExcelImportResult;
-      
-      if (file.type === 'text/csv') {
-        result = await importProductDataFromCSV(file);
-      } else {
-        result = await importProductDataFromExcel(file);
-      }
+      const result = importProductData(applyMapping(workbook, mapping));
 
       if (result.success && result.data) {
         // Import to database
-        const dbResult = await productDataService.bulkCreate(result.data, (processed, total) => {
-          setImportProgress(total ? Math.round((processed / total) * 100) : 100);
-        });
+        const dbResult = await productDataService.bulkCreate(
+          result.data,
+          (processed, total) => {
+            setImportProgress(total ? Math.round((processed / total) * 100) : 100);
+          },
+          { source: { fileName: workbook.fileName, mapping }, strategy: duplicates.strategy }
+        );
         setImportResult({
           success: true,
           imported: dbResult.success,
           errors: [
             ...result.errors,
             ...dbResult.errors,
-            ...(dbResult.skipped ? [`Skipped ${dbResult.skipped} rows with blank barcodes`] : [])
+            ...(dbResult.skipped ? [`Skipped ${dbResult.skipped} rows with blank barcodes`] : []),
+            ...(dbResult.duplicates ? [`Skipped ${dbResult.duplicates} products that were already in the database`] : [])
           ]
         });
         
         // Reload product data
         await loadProductData();
+        await loadImportHistory();
       } else {
         setImportResult(result);
       }
+      setWorkbook(null);
     } catch (error) {
       setImportResult({
         success: false,
@@ -96,10 +138,6 @@ export default function ImportPage() {
     } finally {
       setIsImporting(false);
       setImportProgress(100);
-      // Clear file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     }
   };
 
@@ -134,7 +172,8 @@ export default function ImportPage() {
     try {
       await productDataService.update(updatedProduct.barcode, {
         itemName: updatedProduct.itemName,
-        description: updatedProduct.description
+        description: updatedProduct.description,
+        category: updatedProduct.category?.trim() ?? ''
       });
       setEditingProduct(null);
       await loadProductData();
@@ -160,9 +199,75 @@ export default function ImportPage() {
     }
   };
 
+  const handleBackupSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBackup(null);
+    setBackupError(null);
+    setRestoreResult(null);
+    try {
+      setBackup(await parseBackup(file));
+    } catch (error) {
+      setBackupError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (
+      restoreMode === 'replace' &&
+      !confirm('Replace ALL records, product data, locations and settings on this device with the backup? This action cannot be undone.')
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      setRestoreResult(await restoreBackup(backup, restoreMode));
+      setBackup(null);
+      await loadProductData();
+      await loadImportHistory();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setBackupError('Restore failed. No data was changed.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRollback = async (run: DBImportRun) => {
+    const items = run.kind === 'records' ? 'records' : 'products';
+    if (
+      !confirm(
+        `Roll back the import of "${run.fileName}"? ${run.createdIds.length} added ${items} will be deleted and ${run.before.length} updated ${items} get their earlier values back. Changes made to them since the import are lost.`
+      )
+    ) {
+      return;
+    }
+
+    setRollingBackId(run.id);
+    try {
+      const kept = await importHistoryService.rollback(run.id);
+      await Promise.all([loadImportHistory(), loadProductData()]);
+      if (kept > 0) {
+        alert(`${kept} ${kept === 1 ? 'record was' : 'records were'} left as they are because units were removed from them since the import.`);
+      }
+    } catch (error) {
+      console.error('Error rolling back import:', error);
+      alert('Rollback failed. No data was changed.');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const backupSummary = backup ? summarizeBackup(backup) : null;
+
   // Load data on component mount
   useEffect(() => {
     loadProductData();
+    loadImportHistory();
   }, []);
 
   return (
@@ -235,6 +340,20 @@ export default function ImportPage() {
               </Button>
             </div>
 
+            {/* Column Mapping */}
+            {workbook && (
+              <div className="p-3 rounded border border-blue-200 bg-white">
+                <ImportMappingWizard
+                  kind="products"
+                  workbook={workbook}
+                  isImporting={isImporting}
+                  confirmLabel="Import Products"
+                  onCancel={() => setWorkbook(null)}
+                  onConfirm={handleMappingConfirm}
+                />
+              </div>
+            )}
+
             {/* Import Result */}
             {importResult && (
               <div className={`p-4 rounded border ${
@@ -283,6 +402,167 @@ export default function ImportPage() {
           </CardContent>
         </Card>
 
+        {/* Import History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>Import History</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Product imports from this page and record imports from the home screen. Rolling back
+              deletes the rows an import added and restores the rows it changed.
+            </p>
+            {importRuns.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">No imports yet</p>
+            ) : (
+              importRuns.map((run) => (
+                <div key={run.id} className="flex items-center justify-between gap-3 p-3 border rounded bg-gray-50">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{run.fileName}</p>
+                      <Badge variant="outline" className="text-xs">
+                        {run.kind === 'records' ? 'Records' : 'Products'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      {new Date(run.importedAt).toLocaleString()} · {run.createdIds.length} added · {run.before.length} updated
+                    </p>
+                    {run.rolledBackAt && (
+                      <p className="text-xs text-amber-700">
+                        Rolled back {new Date(run.rolledBackAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  {!run.rolledBackAt && (
+                    <Button
+                      onClick={() => handleRollback(run)}
+                      variant="outline"
+                      size="sm"
+                      disabled={rollingBackId !== null || isImporting}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      {rollingBackId === run.id ? 'Rolling back...' : 'Roll back'}
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Restore Backup */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ArchiveRestore className="h-5 w-5" />
+              <span>Restore Backup</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Restore a full backup (.json) downloaded from Export Data on this or another device.
+            </p>
+            <input
+              ref={backupInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleBackupSelect}
+            />
+            <Button
+              onClick={() => backupInputRef.current?.click()}
+              disabled={isRestoring}
+              variant="outline"
+              className="w-full"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Select Backup File
+            </Button>
+
+            {backupError && (
+              <div className="flex items-start space-x-2 p-3 rounded border bg-red-50 border-red-200">
+                <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-800">{backupError}</p>
+              </div>
+            )}
+
+            {backupSummary && (
+              <div className="space-y-4">
+                <div className="p-3 rounded border bg-gray-50 text-sm space-y-1">
+                  <p className="font-medium">
+                    Backup from {backupSummary.createdAt.toLocaleString()}
+                  </p>
+                  <p className="text-gray-600">
+                    {backupSummary.expirationRecords} records · {backupSummary.productData} products · {backupSummary.locations} locations
+                  </p>
+                </div>
+
+                <RadioGroup
+                  value={restoreMode}
+                  onValueChange={(value) => setRestoreMode(value as RestoreMode)}
+                >
+                  <div className="flex items-start space-x-3">
+                    <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+                    <Label htmlFor="restore-merge" className="flex-1 cursor-pointer">
+                      <div>
+                        <p className="font-medium">Merge</p>
+                        <p className="text-sm text-gray-600 font-normal">
+                          Add the backup to this device. Matching items are overwritten; settings here are kept.
+                        </p>
+                      </div>
+                    </Label>
+                  </div>
+                  <div className="flex items-start space-x-3">
+                    <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+                    <Label htmlFor="restore-replace" className="flex-1 cursor-pointer">
+                      <div>
+                        <p className="font-medium">Replace</p>
+                        <p className="text-sm text-gray-600 font-normal">
+                          Delete everything on this device, then restore the backup and its settings.
+                        </p>
+                      </div>
+                    </Label>
+                  </div>
+                </RadioGroup>
+
+                <div className="flex items-center space-x-3">
+                  <Button
+                    onClick={() => setBackup(null)}
+                    variant="outline"
+                    className="flex-1"
+                    disabled={isRestoring}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleRestore}
+                    variant={restoreMode === 'replace' ? 'destructive' : 'default'}
+                    className="flex-1"
+                    disabled={isRestoring}
+                  >
+                    {isRestoring ? 'Restoring...' : 'Restore'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {restoreResult && (
+              <div className="p-4 rounded border bg-green-50 border-green-200">
+                <div className="flex items-center space-x-2 mb-1">
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  <span className="font-medium text-green-800">Restore Successful</span>
+                </div>
+                <p className="text-green-700 text-sm">
+                  Restored {restoreResult.expirationRecords} records, {restoreResult.productData} products and {restoreResult.locations} locations.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Current Product Data */}
         <Card>
           <CardHeader>
@@ -340,6 +620,9 @@ export default function ImportPage() {
                         <div className="flex-1">
                           <p className="font-medium">{product.itemName}</p>
                           <p className="text-sm text-gray-600">{product.description}</p>
+                          {product.category && (
+                            <p className="text-xs text-gray-500">Category: {product.category}</p>
+                          )}
                           <p className="text-xs text-gray-500 font-mono">
                             Barcode: {product.barcode}
                           </p>
@@ -375,10 +658,10 @@ export default function ImportPage() {
           <CardContent className="p-4">
             <h3 className="font-medium text-blue-900 mb-2">Import Requirements</h3>
             <ul className="text-sm text-blue-800 space-y-1">
-              <li>• File must contain columns: Barcode, Item Name, Description</li>
-              <li>• Barcode column is required and must be unique</li>
-              <li>• Item Name column is required</li>
-              <li>• Description column is optional</li>
+              <li>• After choosing a file, pick the sheet, header row and which column is Barcode, Item Name, Description and Category</li>
+              <li>• Barcode and Item Name are required; Description and Category are optional</li>
+              <li>• Barcodes must be unique</li>
+              <li>• Save the mapping as a preset and it is applied to files with the same layout</li>
               <li>• Maximum file size: 10MB</li>
               <li>• Supported formats: .xlsx, .xls, .csv</li>
             </ul>
@@ -428,6 +711,15 @@ function EditProductForm({
             onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
           />
         </div>
+        <div>
+          <Label htmlFor="edit-category">Category</Label>
+          <Input
+            id="edit-category"
+            value={editForm.category ?? ""}
+            placeholder="e.g. Dairy"
+            onChange={(e) => setEditForm(prev => ({ ...prev, category: e.target.value }))}
+          />
+        </div>
         <div className="flex items-center space-x-2">
           <Button type="submit" size="sm">Save</Button>
           <Button type="button" onClick={onCancel} variant="outline" size="sm">
@@ -7,10 +7,25 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Edit, Trash2, Calendar, Package, BarChart3, StickyNote } from "lucide-react";
-import { expirationRecordsService, productDataService, normalizeBarcodeForMatch } from "@/lib/db";
+import { ArrowLeft, Edit, Trash2, Calendar, Package, BarChart3, StickyNote, MapPin, Search, History, PackageMinus } from "lucide-react";
+import AuditEntryList from "@/components/AuditEntryList";
+import DispositionDialog from "@/components/DispositionDialog";
+import {
+  expirationRecordsService,
+  productDataService,
+  locationsService,
+  auditLogService,
+  dispositionsService,
+  getLocationName,
+  normalizeBarcodeForMatch,
+  type DBAuditEntry
+} from "@/lib/db";
 import { formatBarcodeForDisplay } from "@/lib/barcode";
-import type { ExpirationRecord } from "@/types";
+import { getSymbologyLabel } from "@/lib/symbology";
+import { STATUS_COLORS } from "@/lib/status";
+import { showDeletedToast } from "@/lib/trash";
+import { formatCost, getDispositionLabel, getDispositionValue } from "@/lib/dispositions";
+import type { Disposition, ExpirationRecord, StorageLocation } from "@/types";
 
 function ItemDetailsContent() {
   const router = useRouter();
@@ -21,11 +36,20 @@ function ItemDetailsContent() {
   const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState(false);
   const [databaseDescription, setDatabaseDescription] = useState("");
+  const [locationName, setLocationName] = useState("");
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [history, setHistory] = useState<DBAuditEntry[]>([]);
+  const [dispositions, setDispositions] = useState<Disposition[]>([]);
+  const [isDisposing, setIsDisposing] = useState(false);
+  const [disposedAt, setDisposedAt] = useState<Date | null>(null);
 
   const loadItem = useCallback(async () => {
     try {
-      const record = await expirationRecordsService.getById(itemId);
+      // Records with all stock removed with a reason keep a read-only page.
+      const disposed = await expirationRecordsService.getDisposedById(itemId);
+      const record = disposed ?? await expirationRecordsService.getById(itemId);
       setItem(record);
+      setDisposedAt(disposed?.disposedAt ?? null);
 
       if (record) {
         const products = await productDataService.getAll();
@@ -35,6 +59,12 @@ function ItemDetailsContent() {
             normalizeBarcodeForMatch(record.barcode)
         );
         setDatabaseDescription(matchingProduct?.description?.trim() || "");
+
+        const allLocations = await locationsService.getAll();
+        setLocations(allLocations);
+        setLocationName(getLocationName(allLocations, record.locationId));
+        setHistory(await auditLogService.getForEntity('record', record.id));
+        setDispositions(await dispositionsService.getForRecord(record.id));
       }
     } catch (error) {
       console.error('Error loading item:', error);
@@ -48,14 +78,13 @@ function ItemDetailsContent() {
   }, [loadItem]);
 
   const handleDelete = async () => {
-    if (!item || !confirm(`Are you sure you want to delete "${item.itemName}"?`)) {
-      return;
-    }
+    if (!item) return;
 
     setIsDeleting(true);
     try {
       await expirationRecordsService.delete(itemId);
       router.push('/');
+      showDeletedToast([itemId], () => router.push(`/item/${itemId}`));
     } catch (error) {
       console.error('Error deleting item:', error);
       alert('Failed to delete item. Please try again.');
@@ -64,32 +93,6 @@ function ItemDetailsContent() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "expired":
-        return "bg-red-100 text-red-800 border-red-200";
-      case "near-expiration":
-        return "bg-yellow-100 text-yellow-800 border-yellow-200";
-      case "safe":
-        return "bg-green-100 text-green-800 border-green-200";
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-200";
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "expired":
-        return "🔴";
-      case "near-expiration":
-        return "🟡";
-      case "safe":
-        return "🟢";
-      default:
-        return "⚪";
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -128,6 +131,8 @@ function ItemDetailsContent() {
     );
   }
 
+  const statusColor = STATUS_COLORS[item.statusBand.color];
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -142,12 +147,24 @@ function ItemDetailsContent() {
             <h1 className="text-xl font-bold text-gray-900">Item Details</h1>
           </div>
           <div className="flex items-center space-x-2">
-            <span className="text-2xl">{getStatusIcon(item.status)}</span>
+            <span className="text-2xl">{statusColor.emoji}</span>
           </div>
         </div>
       </header>
 
       <div className="p-4 space-y-6">
+        {disposedAt && (
+          <Card className="bg-amber-50 border-amber-200">
+            <CardContent className="p-4 flex items-start space-x-3">
+              <PackageMinus className="h-5 w-5 text-amber-700 shrink-0" />
+              <p className="text-sm text-amber-900">
+                All stock was removed on {disposedAt.toLocaleDateString()}. This item is no longer
+                listed and is kept here for its history.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Main Item Info */}
         <Card>
           <CardHeader>
@@ -168,9 +185,9 @@ function ItemDetailsContent() {
               </div>
               <Badge 
                 variant="outline" 
-                className={`text-sm ${getStatusColor(item.status)}`}
+                className={`text-sm ${statusColor.badge}`}
               >
-                {item.status.replace('-', ' ')}
+                {item.statusBand.label}
               </Badge>
             </div>
           </CardHeader>
@@ -198,13 +215,7 @@ function ItemDetailsContent() {
               <BarChart3 className="h-5 w-5 text-gray-400" />
               <div>
                 <p className="text-sm text-gray-600">Time Remaining</p>
-                <p className={`text-lg font-semibold ${
-                  item.remainingDays < 0 
-                    ? "text-red-600" 
-                    : item.remainingDays <= 7 
-                    ? "text-yellow-600" 
-                    : "text-green-600"
-                }`}>
+                <p className={`text-lg font-semibold ${statusColor.text}`}>
                   {item.remainingDays < 0 
                     ? `Expired ${Math.abs(item.remainingDays)} days ago`
                     : item.remainingDays === 0
@@ -214,6 +225,21 @@ function ItemDetailsContent() {
                 </p>
               </div>
             </div>
+
+            <Separator />
+
+            <div className="flex items-center space-x-3">
+              <MapPin className="h-5 w-5 text-gray-400" />
+              <div>
+                <p className="text-sm text-gray-600">Location</p>
+                <p className="text-lg font-medium">
+                  {locationName || "No location"}
+                  {item.aisle && (
+                    <span className="text-gray-500"> · {item.aisle}</span>
+                  )}
+                </p>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
@@ -227,6 +253,26 @@ function ItemDetailsContent() {
               <p className="text-sm text-gray-600 mb-1">Barcode</p>
               <p className="text-xl font-mono font-semibold">{formatBarcodeForDisplay(item.barcode)}</p>
               <p className="text-sm text-gray-500 mt-1">Raw: {item.barcode}</p>
+              {item.barcodeFormat && (
+                <p className="text-sm text-gray-500">
+                  Symbology: {getSymbologyLabel(item.barcodeFormat)}
+                </p>
+              )}
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg mt-3">
+              <p className="text-sm text-gray-600 mb-1">Lot / Batch Number</p>
+              <p className="text-xl font-mono font-semibold">{item.lotNumber || "—"}</p>
+              {item.lotNumber && (
+                <Link
+                  href={`/lot-lookup?lot=${encodeURIComponent(item.lotNumber)}`}
+                  className="block mt-3"
+                >
+                  <Button variant="outline" size="sm" className="w-full bg-white">
+                    <Search className="h-4 w-4 mr-2" />
+                    Find all records for this lot
+                  </Button>
+                </Link>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -260,12 +306,12 @@ function ItemDetailsContent() {
               <div>
                 <p className="text-sm text-gray-600">Current Status</p>
                 <div className="flex items-center space-x-2 mt-1">
-                  <span className="text-lg">{getStatusIcon(item.status)}</span>
+                  <span className="text-lg">{statusColor.emoji}</span>
                   <Badge 
                     variant="outline" 
-                    className={getStatusColor(item.status)}
+                    className={statusColor.badge}
                   >
-                    {item.status.replace('-', ' ')}
+                    {item.statusBand.label}
                   </Badge>
                 </div>
               </div>
@@ -273,35 +319,100 @@ function ItemDetailsContent() {
           </CardContent>
         </Card>
 
+        {/* Dispositions */}
+        {dispositions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center space-x-2">
+                <PackageMinus className="h-5 w-5" />
+                <span>Removed from Shelf</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {dispositions.map((disposition) => {
+                const value = getDispositionValue(disposition);
+                return (
+                  <div key={disposition.id} className="border-l-2 border-gray-200 pl-3">
+                    <p className="font-medium">
+                      {getDispositionLabel(disposition.reason)} · {disposition.quantity} unit{disposition.quantity === 1 ? "" : "s"}
+                      {value !== null && <span className="text-gray-600"> · {formatCost(value)}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{disposition.disposedAt.toLocaleString()}</p>
+                    {disposition.notes && (
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{disposition.notes}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Change History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>Change History</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AuditEntryList entries={history} locations={locations} />
+            <Link href="/audit-log" className="block mt-4">
+              <Button variant="outline" size="sm" className="w-full">
+                View full change log
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
         {/* Action Buttons */}
-        <div className="grid grid-cols-2 gap-3">
-          <Button 
-            variant="outline" 
-            className="h-12"
-            onClick={() => router.push(`/edit-item/${itemId}`)}
-          >
-            <Edit className="h-5 w-5 mr-2" />
-            Edit Item
-          </Button>
-          <Button 
-            variant="destructive" 
-            className="h-12"
-            onClick={handleDelete}
-            disabled={isDeleting}
-          >
-            {isDeleting ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Deleting...
-              </>
-            ) : (
-              <>
-                <Trash2 className="h-5 w-5 mr-2" />
-                Delete Item
-              </>
-            )}
-          </Button>
-        </div>
+        {!disposedAt && (
+          <>
+            <Button
+              variant="outline"
+              className="w-full h-12"
+              onClick={() => setIsDisposing(true)}
+            >
+              <PackageMinus className="h-5 w-5 mr-2" />
+              Remove with Reason
+            </Button>
+            <div className="grid grid-cols-2 gap-3">
+              <Button 
+                variant="outline" 
+                className="h-12"
+                onClick={() => router.push(`/edit-item/${itemId}`)}
+              >
+                <Edit className="h-5 w-5 mr-2" />
+                Edit Item
+              </Button>
+              <Button 
+                variant="destructive" 
+                className="h-12"
+                onClick={handleDelete}
+                disabled={isDeleting}
+              >
+                {isDeleting ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Deleting...
+                  </>
+                ) : (
+                  <>
+                    <Trash2 className="h-5 w-5 mr-2" />
+                    Delete Item
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+
+        <DispositionDialog
+          records={isDisposing ? [item] : null}
+          onClose={() => setIsDisposing(false)}
+          onChanged={() => void loadItem()}
+        />
 
         {/* Quick Actions */}
         <Card className="bg-blue-50 border-blue-200">
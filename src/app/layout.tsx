@@ -8,6 +8,7 @@ import { Settings, ArrowLeft, WifiOff } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useInstallPrompt } from "@/hooks/useInstallPrompt";
 import { Button } from "@/components/ui/button";
+import { Toaster } from "@/components/ui/sonner";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -105,6 +106,7 @@ export default function RootLayout({
           </main>
 
         </div>
+        <Toaster position="bottom-center" />
       </body>
     </html>
   );
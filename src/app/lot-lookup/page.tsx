@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Search, Trash2, PackageSearch } from "lucide-react";
+import {
+  expirationRecordsService,
+  locationsService,
+  getLocationName,
+} from "@/lib/db";
+import { formatBarcodeForDisplay } from "@/lib/barcode";
+import { STATUS_COLORS } from "@/lib/status";
+import { showDeletedToast } from "@/lib/trash";
+import type { ExpirationRecord, StorageLocation } from "@/types";
+
+function LotLookupContent() {
+  const searchParams = useSearchParams();
+
+  const [lotNumber, setLotNumber] = useState("");
+  const [barcode, setBarcode] = useState("");
+  const [results, setResults] = useState<ExpirationRecord[] | null>(null);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const runSearch = async (lot: string, code: string) => {
+    if (!lot.trim()) {
+      setResults(null);
+      return;
+    }
+
+    setIsSearching(true);
+    setMessage("");
+    try {
+      const records = await expirationRecordsService.getByLot(lot, code.trim() || undefined);
+      setResults(records);
+    } catch (error) {
+      console.error("Error searching lot:", error);
+      setMessage("Failed to search records. Please try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // Allow linking straight to a lot, e.g. from the item details screen.
+  useEffect(() => {
+    const lot = searchParams.get("lot") || "";
+    const code = searchParams.get("barcode") || "";
+    setLotNumber(lot);
+    setBarcode(code);
+    locationsService.getAll().then(setLocations);
+    if (lot) {
+      void runSearch(lot, code);
+    }
+  }, [searchParams]);
+
+  const handleRemoveAll = async () => {
+    if (!results || results.length === 0) return;
+
+    const totalUnits = results.reduce((sum, record) => sum + record.quantity, 0);
+    const ok = confirm(
+      `Remove all ${results.length} record(s) (${totalUnits} units) for lot "${lotNumber.trim()}"?`
+    );
+    if (!ok) return;
+
+    setIsRemoving(true);
+    try {
+      const ids = await expirationRecordsService.deleteMany(results.map((record) => record.id));
+      setMessage(`Moved ${ids.length} record(s) for lot "${lotNumber.trim()}" to the trash.`);
+      setResults([]);
+      showDeletedToast(ids, () => void runSearch(lotNumber, barcode));
+    } catch (error) {
+      console.error("Error removing lot:", error);
+      setMessage("Failed to remove the records. Nothing was moved to the trash.");
+      await runSearch(lotNumber, barcode);
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const totalUnits = results?.reduce((sum, record) => sum + record.quantity, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-4 py-4">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">Lot Lookup</h1>
+        </div>
+      </header>
+
+      <div className="p-4 space-y-6">
+        {/* Search */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <PackageSearch className="h-5 w-5" />
+              <span>Find Records by Lot</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                void runSearch(lotNumber, barcode);
+              }}
+            >
+              <div>
+                <Label htmlFor="lotNumber">Lot / Batch Number *</Label>
+                <Input
+                  id="lotNumber"
+                  type="text"
+                  placeholder="e.g., L2405A"
+                  value={lotNumber}
+                  onChange={(e) => setLotNumber(e.target.value)}
+                  className="font-mono mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="barcode">Barcode (optional)</Label>
+                <Input
+                  id="barcode"
+                  type="text"
+                  placeholder="Limit to one product"
+                  value={barcode}
+                  onChange={(e) => setBarcode(e.target.value)}
+                  className="font-mono mt-2"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isSearching || !lotNumber.trim()}
+              >
+                <Search className="h-4 w-4 mr-2" />
+                {isSearching ? "Searching..." : "Search Lot"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {message && (
+          <p
+            className={`text-sm text-center font-medium ${
+              message.startsWith("Removed") ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            {message}
+          </p>
+        )}
+
+        {/* Results */}
+        {results && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Matching Records</CardTitle>
+                <Badge variant="outline">
+                  {results.length} records · {totalUnits} units
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {results.length === 0 ? (
+                <p className="text-center text-gray-600 py-4">
+                  No records found for this lot.
+                </p>
+              ) : (
+                <>
+                  {results.map((record) => {
+                    const color = STATUS_COLORS[record.statusBand.color];
+                    const locationName = getLocationName(locations, record.locationId);
+                    return (
+                      <Link
+                        key={record.id}
+                        href={`/item/${record.id}`}
+                        className="block p-3 bg-gray-50 rounded border hover:bg-gray-100"
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{record.itemName}</p>
+                            <p className="text-xs text-gray-500 font-mono">
+                              {formatBarcodeForDisplay(record.barcode)} · Lot {record.lotNumber}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              Qty {record.quantity} · Expires{" "}
+                              {record.expirationDate.toLocaleDateString()}
+                            </p>
+                            {(locationName || record.aisle) && (
+                              <p className="text-xs text-gray-500">
+                                {[locationName, record.aisle].filter(Boolean).join(" · ")}
+                              </p>
+                            )}
+                          </div>
+                          <Badge variant="outline" className={color.badge}>
+                            {record.statusBand.label}
+                          </Badge>
+                        </div>
+                      </Link>
+                    );
+                  })}
+
+                  <Button
+                    variant="destructive"
+                    className="w-full h-12"
+                    onClick={handleRemoveAll}
+                    disabled={isRemoving}
+                  >
+                    <Trash2 className="h-5 w-5 mr-2" />
+                    {isRemoving ? "Removing..." : `Remove all ${results.length} records`}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function LotLookupPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <LotLookupContent />
+    </Suspense>
+  );
+}
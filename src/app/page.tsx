@@ -2,9 +2,17 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
@@ -14,50 +22,113 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
-  AlertCircle,
-  AlertTriangle,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
   Bell,
-  CheckCircle,
+  CalendarDays,
+  Layers,
+  MapPin,
   MoreVertical,
-  RotateCcw,
   Search,
   Trash2,
   Upload,
   ScanLine,
   Plus,
   Pencil,
+  PackageMinus,
 } from "lucide-react";
 import {
   expirationRecordsService,
   initializeDatabase,
   productDataService,
+  settingsService,
+  locationsService,
+  getLocationName,
   normalizeBarcodeForMatch,
 } from "@/lib/db";
-import { formatBarcodeForDisplay } from "@/lib/barcode";
+import { formatBarcodeForDisplay, resolveScanDestination } from "@/lib/barcode";
+import { useScannerInput } from "@/hooks/useScannerInput";
+import {
+  DEFAULT_STATUS_RULES,
+  STATUS_COLORS,
+  STATUS_ICONS,
+  getAlertBands,
+  getRemainingMonths,
+} from "@/lib/status";
 import { scheduleDailyNotificationCheck } from "@/lib/notifications";
-import { importExpirationRecords } from "@/lib/importExport";
-import type { ExpirationRecord } from "@/types";
+import {
+  parseImportRows,
+  toImportCommitEntries,
+  type ImportDraftRow,
+  type ImportPreviewRow,
+} from "@/lib/importExport";
+import { applyMapping, readImportWorkbook, type ImportWorkbook } from "@/lib/importMapping";
+import { showDeletedToast } from "@/lib/trash";
+import ImportMappingWizard from "@/components/ImportMappingWizard";
+import ImportPreview from "@/components/ImportPreview";
+import DispositionDialog from "@/components/DispositionDialog";
+import ExpirationCalendar from "@/components/ExpirationCalendar";
+import type { DuplicateOptions, ExpirationRecord, ImportMapping, StatusRules, StorageLocation } from "@/types";
+
+// Sentinel values for the location filter (Radix Select rejects empty values).
+const ALL_LOCATIONS = "__all__";
+const UNASSIGNED_LOCATION = "__none__";
+
+// Width of the actions revealed by swiping a card left.
+const SWIPE_WIDTH = 210;
 
 export default function HomePage() {
+  const router = useRouter();
   const [records, setRecords] = useState<ExpirationRecord[]>([]);
+  const [statusRules, setStatusRules] = useState<StatusRules>(DEFAULT_STATUS_RULES);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string>(ALL_LOCATIONS);
+  const [groupByLocation, setGroupByLocation] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showNotifications, setShowNotifications] = useState(true);
   const [importMessage, setImportMessage] = useState<string>("");
+  const [importWorkbook, setImportWorkbook] = useState<ImportWorkbook | null>(null);
+  const [importMapping, setImportMapping] = useState<ImportMapping | null>(null);
+  const [importPreview, setImportPreview] = useState<{
+    rows: ImportDraftRow[];
+    records: ExpirationRecord[];
+    locations: StorageLocation[];
+    duplicates: DuplicateOptions;
+  } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const [productDescriptions, setProductDescriptions] = useState<Map<string, string>>(
     new Map()
   );
+  const [disposeRecords, setDisposeRecords] = useState<ExpirationRecord[] | null>(null);
   const [swipedRecordId, setSwipedRecordId] = useState<string | null>(null);
   const swipeStart = useRef({ x: 0, y: 0 });
   const swipeDelta = useRef(0);
   const swipeTracking = useRef(false);
   const suppressNextClick = useRef(false);
 
+  // Codes from a handheld (keyboard-wedge) scanner open the record or add form.
+  useScannerInput(async (code) => {
+    router.push(await resolveScanDestination(code));
+  });
+
   /* ---------------- INIT ---------------- */
   const loadRecords = async () => {
-    const data = await expirationRecordsService.getAll();
+    const [data, rules, locationList] = await Promise.all([
+      expirationRecordsService.getAll(),
+      settingsService.getStatusRules(),
+      locationsService.getAll(),
+    ]);
     setRecords(data);
+    setStatusRules(rules);
+    setLocations(locationList);
 
     // Do not load the entire Product Database into memory on every Home render.
     // This is important on iPhone/Safari when the database contains tens of
@@ -76,12 +147,8 @@ export default function HomePage() {
 
       scheduleDailyNotificationCheck(
         () => expirationRecordsService.getAll(),
-        async () => ({
-          notificationsEnabled: true,
-          daysBeforeExpiration: 7,
-          notifyOnExpirationDay: true,
-          quantityThreshold: 0,
-        })
+        () => settingsService.get(),
+        () => settingsService.getStatusRules()
       );
     } finally {
       setLoading(false);
@@ -99,49 +166,75 @@ export default function HomePage() {
   }, []);
 
   /* ---------------- IMPORT ---------------- */
-  const handleImport = async (file: File) => {
+  const handleImportFile = async (file: File) => {
+    setImportMessage("");
     try {
-      const importedRecords = (await importExpirationRecords(file)) ?? [];
+      // Columns are confirmed in the mapping dialog and rows in the preview
+      // before anything is written.
+      setImportMapping(null);
+      setImportPreview(null);
+      setImportWorkbook(await readImportWorkbook(file));
+    } catch (e) {
+      console.error(e);
+      setImportMessage("Failed to read file. Please check it is a valid Excel or CSV file.");
+    }
+  };
 
-      if (importedRecords.length === 0) {
-        setImportMessage("Failed to import file. No valid records found.");
-        return;
-      }
+  const closeImport = () => {
+    setImportWorkbook(null);
+    setImportMapping(null);
+    setImportPreview(null);
+  };
 
-      const currentRecords = await expirationRecordsService.getAll();
-
-      const newRecords = importedRecords.filter((importedRecord) => {
-        return !currentRecords.some(
-          (currentRecord) =>
-            currentRecord.barcode.trim() === importedRecord.barcode.trim() &&
-            currentRecord.itemName.trim().toLowerCase() ===
-              importedRecord.itemName.trim().toLowerCase() &&
-            currentRecord.quantity === importedRecord.quantity &&
-            currentRecord.expirationDate.toISOString() ===
-              importedRecord.expirationDate.toISOString()
-        );
-      });
-
-      for (const record of newRecords) {
-        await expirationRecordsService.create(record);
-      }
+  const handlePreviewImport = async (mapping: ImportMapping, duplicates: DuplicateOptions) => {
+    if (!importWorkbook) return;
+    const rows = parseImportRows(applyMapping(importWorkbook, mapping), {
+      dateOrder: mapping.dateOrder ?? "auto",
+      date1904: importWorkbook.date1904,
+    });
+    if (rows.length === 0) {
+      closeImport();
+      setImportMessage("Failed to import file. No rows found under the header row.");
+      return;
+    }
 
-      if (newRecords.length > 0) {
-        setImportMessage(
-          newRecords.length === importedRecords.length
-            ? "File imported successfully."
-            : "File imported successfully! Some records were skipped due to duplicates."
-        );
-      } else {
-        setImportMessage(
-          "No new records to import. All records are duplicates."
-        );
-      }
+    // Compare against everything stored, not just what the list shows.
+    const [currentRecords, currentLocations] = await Promise.all([
+      expirationRecordsService.getAll(),
+      locationsService.getAll(),
+    ]);
+    setImportMapping(mapping);
+    setImportPreview({ rows, records: currentRecords, locations: currentLocations, duplicates });
+  };
+
+  const handleImport = async (included: ImportPreviewRow[], skipped: ImportPreviewRow[]) => {
+    if (!importWorkbook || !importMapping) return;
+    setIsImporting(true);
+    try {
+      const result = await expirationRecordsService.commitImport(
+        toImportCommitEntries(included),
+        { fileName: importWorkbook.fileName, mapping: importMapping }
+      );
+      closeImport();
+
+      const skippedNotes = [
+        [skipped.filter((row) => row.status === "duplicate").length, "duplicate"],
+        [skipped.filter((row) => row.status === "invalid").length, "invalid"],
+        [skipped.filter((row) => row.status === "new" || row.status === "updated").length, "excluded"],
+      ]
+        .filter(([count]) => count)
+        .map(([count, label]) => `${count} ${label}`);
+      setImportMessage(
+        `File imported successfully: ${result.created} added, ${result.updated} updated` +
+          (skippedNotes.length ? `; skipped ${skippedNotes.join(", ")}.` : ".")
+      );
 
       await loadRecords();
     } catch (e) {
       console.error(e);
-      setImportMessage("Failed to import file. Please try again.");
+      setImportMessage("Failed to import file. Nothing was changed. Please try again.");
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -160,24 +253,19 @@ export default function HomePage() {
 
   const clearSelection = () => setSelectedIds(new Set());
 
+  // Deleting moves records to the trash, so there is an undo toast instead
+  // of a confirmation.
   const handleBulkDelete = async () => {
     if (selectedIds.size === 0) return;
 
-    const ok = confirm(`Delete ${selectedIds.size} selected item(s)?`);
-    if (!ok) return;
-
-    for (const id of selectedIds) {
-      await expirationRecordsService.delete(id);
-    }
+    const ids = await expirationRecordsService.deleteMany(Array.from(selectedIds));
 
     clearSelection();
     await loadRecords();
+    showDeletedToast(ids, loadRecords);
   };
 
   const handleSingleDelete = async (record: ExpirationRecord) => {
-    const ok = confirm(`Delete \"${record.itemName}\"?`);
-    if (!ok) return;
-
     await expirationRecordsService.delete(record.id);
     setSelectedIds((prev) => {
       const next = new Set(prev);
@@ -185,6 +273,7 @@ export default function HomePage() {
       return next;
     });
     await loadRecords();
+    showDeletedToast([record.id], loadRecords);
   };
 
   /* ---------------- SWIPE ACTIONS ---------------- */
@@ -211,7 +300,7 @@ export default function HomePage() {
     }
 
     if (dx < 0) {
-      swipeDelta.current = Math.max(-140, dx);
+      swipeDelta.current = Math.max(-SWIPE_WIDTH, dx);
       if (Math.abs(dx) > 12) {
         suppressNextClick.current = true;
         setSwipedRecordId(id);
@@ -228,7 +317,7 @@ export default function HomePage() {
 
     if (swipeDelta.current <= -70) {
       setSwipedRecordId(id);
-      swipeDelta.current = -140;
+      swipeDelta.current = -SWIPE_WIDTH;
     } else {
       setSwipedRecordId(null);
       swipeDelta.current = 0;
@@ -240,52 +329,6 @@ export default function HomePage() {
     swipeDelta.current = 0;
   };
 
-  /* ---------------- MONTH-ONLY EXPIRATION LOGIC ---------------- */
-  const getMonthStatus = (expirationDate: Date) => {
-    const today = new Date();
-
-    const currentTotalMonths = today.getFullYear() * 12 + today.getMonth();
-    const expTotalMonths =
-      expirationDate.getFullYear() * 12 + expirationDate.getMonth();
-
-    const monthsRemaining = expTotalMonths - currentTotalMonths;
-    const safeMonths = Math.max(0, monthsRemaining);
-
-    if (safeMonths <= 1) {
-      return {
-        status: "expired" as const,
-        label: "Expired",
-        monthsRemaining: safeMonths,
-        icon: AlertCircle,
-      };
-    }
-
-    if (safeMonths <= 3) {
-      return {
-        status: "push" as const,
-        label: "For Push Item/Items",
-        monthsRemaining: safeMonths,
-        icon: AlertTriangle,
-      };
-    }
-
-    if (safeMonths === 4) {
-      return {
-        status: "return" as const,
-        label: "For Return this Month",
-        monthsRemaining: safeMonths,
-        icon: RotateCcw,
-      };
-    }
-
-    return {
-      status: "good" as const,
-      label: "Good",
-      monthsRemaining: safeMonths,
-      icon: CheckCircle,
-    };
-  };
-
   /* ---------------- FILTER ---------------- */
   const normalizedSearch = searchTerm.trim().toLowerCase();
   const getDatabaseDescription = (record: ExpirationRecord) => {
@@ -308,15 +351,33 @@ export default function HomePage() {
   };
 
   const filteredRecords = records.filter((r) => {
+    if (locationFilter !== ALL_LOCATIONS) {
+      const wanted = locationFilter === UNASSIGNED_LOCATION ? "" : locationFilter;
+      if (r.locationId !== wanted) return false;
+    }
+
     const displayDescription = getDatabaseDescription(r).toLowerCase();
     return (
       r.itemName.toLowerCase().includes(normalizedSearch) ||
       displayDescription.includes(normalizedSearch) ||
       (r.notes ?? "").toLowerCase().includes(normalizedSearch) ||
+      (r.aisle ?? "").toLowerCase().includes(normalizedSearch) ||
+      (r.lotNumber ?? "").toLowerCase().includes(normalizedSearch) ||
       (r.barcode ?? "").toLowerCase().includes(normalizedSearch)
     );
   });
 
+  /* ---------------- LOCATION GROUPS ---------------- */
+  const locationGroups = [
+    ...locations.map((location) => ({ id: location.id, name: location.name })),
+    { id: "", name: "No location" },
+  ]
+    .map((group) => ({
+      ...group,
+      records: filteredRecords.filter((r) => r.locationId === group.id),
+    }))
+    .filter((group) => group.records.length > 0);
+
   const allFilteredSelected =
     filteredRecords.length > 0 &&
     filteredRecords.every((record) => selectedIds.has(record.id));
@@ -334,13 +395,210 @@ export default function HomePage() {
   };
 
   /* ---------------- NOTIFICATIONS DATA ---------------- */
-  const expiredItems = records.filter(
-    (r) => getMonthStatus(r.expirationDate).status === "expired"
-  );
+  const alertBands = getAlertBands(statusRules);
+  const alertGroups = alertBands.map((band) => ({
+    band,
+    items: records.filter((r) => r.status === band.id),
+  }));
+  const alertItems = alertGroups.flatMap((group) => group.items);
+
+  /* ---------------- RECORD CARD ---------------- */
+  const renderRecordCard = (record: ExpirationRecord) => {
+    const band = record.statusBand;
+    const bandColor = STATUS_COLORS[band.color];
+    const StatusIcon = STATUS_ICONS[band.icon];
+    const remaining =
+      statusRules.unit === "months"
+        ? Math.max(0, getRemainingMonths(record.expirationDate))
+        : Math.max(0, record.remainingDays);
+    const remainingUnit = statusRules.unit === "months" ? "month" : "day";
+    const locationName = getLocationName(locations, record.locationId);
+    const isSelected = selectedIds.has(record.id);
+    const displayDescription = getDatabaseDescription(record);
+    const hasUsefulDescription =
+      displayDescription.length > 0 &&
+      displayDescription.toLowerCase() !== "created from scan";
+
+    const statusBorderClass = bandColor.border;
+
+    const isSwiped = swipedRecordId === record.id;
 
-  const pushItems = records.filter(
-    (r) => getMonthStatus(r.expirationDate).status === "push"
-  );
+    return (
+      <div
+        key={record.id}
+        className="relative overflow-hidden rounded-lg touch-pan-y"
+        onPointerDown={(event) => handleSwipeStart(event, record.id)}
+        onPointerMove={(event) => handleSwipeMove(event, record.id)}
+        onPointerUp={(event) => handleSwipeEnd(event, record.id)}
+        onPointerCancel={(event) => handleSwipeEnd(event, record.id)}
+        onClickCapture={(event) => {
+          if (suppressNextClick.current) {
+            event.preventDefault();
+            event.stopPropagation();
+            suppressNextClick.current = false;
+          }
+        }}
+      >
+        {/* Swipe actions: reveal by swiping the card from right to left. */}
+        <div className="absolute inset-y-0 right-0 flex w-[210px] items-stretch">
+          <Link
+            href={`/edit-item/${record.id}`}
+            onClick={closeSwipe}
+            className="flex flex-1 flex-col items-center justify-center gap-1 bg-blue-600 text-xs font-medium text-white"
+            aria-label={`Edit ${record.itemName}`}
+          >
+            <Pencil className="h-5 w-5" />
+            Edit
+          </Link>
+          <button
+            type="button"
+            onClick={() => {
+              closeSwipe();
+              setDisposeRecords([record]);
+            }}
+            className="flex flex-1 flex-col items-center justify-center gap-1 bg-amber-600 text-xs font-medium text-white"
+            aria-label={`Remove ${record.itemName} with reason`}
+          >
+            <PackageMinus className="h-5 w-5" />
+            Remove
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              closeSwipe();
+              void handleSingleDelete(record);
+            }}
+            className="flex flex-1 flex-col items-center justify-center gap-1 bg-red-600 text-xs font-medium text-white"
+            aria-label={`Delete ${record.itemName}`}
+          >
+            <Trash2 className="h-5 w-5" />
+            Delete
+          </button>
+        </div>
+
+        <div
+          className={`relative z-10 ${isSwiped ? "-translate-x-[210px]" : "translate-x-0"} transition-transform duration-200 ease-out`}
+        >
+          <Card
+            className={`transition-shadow hover:shadow-lg ${statusBorderClass} ${
+              isSelected ? "ring-2 ring-red-500 ring-offset-2" : ""
+            }`}
+          >
+            <CardContent className="p-4">
+          <div className="flex justify-between items-start gap-3">
+            <Link href={`/item/${record.id}`} className="min-w-0 flex-1">
+              <h3 className="truncate text-lg font-semibold">
+                {record.itemName}
+              </h3>
+              <p className="mt-1 text-sm text-gray-600">
+                <span className="font-medium text-gray-700">Barcode:</span>{" "}
+                <span className="font-mono">
+                  {formatBarcodeForDisplay(record.barcode) || "—"}
+                </span>
+              </p>
+              {hasUsefulDescription && (
+                <p className="mt-1 text-sm text-gray-600">
+                  <span className="font-medium text-gray-700">Item Code:</span>{" "}
+                  {displayDescription}
+                </p>
+              )}
+            </Link>
+
+            <div className="flex shrink-0 items-center gap-2">
+              <StatusIcon className={`h-5 w-5 ${bandColor.text}`} />
+
+              <span className="px-2 py-1 text-xs rounded-full border">
+                Qty: {record.quantity}
+              </span>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    aria-label={`Options for ${record.itemName}`}
+                  >
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuCheckboxItem
+                    checked={isSelected}
+                    onCheckedChange={() => toggleSelect(record.id)}
+                  >
+                    Select for batch actions
+                  </DropdownMenuCheckboxItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem asChild>
+                    <Link href={`/edit-item/${record.id}`}>
+                      <Pencil className="h-4 w-4" />
+                      Edit item
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setDisposeRecords([record])}>
+                    <PackageMinus className="h-4 w-4" />
+                    Remove with reason
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    variant="destructive"
+                    onSelect={() => void handleSingleDelete(record)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete item
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+
+          {record.notes?.trim() && (
+            <div className="mt-3 rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700">
+              <span className="font-medium">Notes / Remarks:</span>{" "}
+              <span className="whitespace-pre-wrap break-words">
+                {record.notes.trim()}
+              </span>
+            </div>
+          )}
+
+          <Link
+            href={`/item/${record.id}`}
+            className="mt-4 flex justify-between items-end gap-3"
+          >
+            <div>
+              <p className="text-sm text-gray-600">
+                Expires: {record.expirationDate.toLocaleDateString()}
+              </p>
+
+              {(locationName || record.aisle) && (
+                <p className="text-sm text-gray-500">
+                  <MapPin className="inline h-3 w-3 mr-1" />
+                  {[locationName, record.aisle].filter(Boolean).join(" · ")}
+                </p>
+              )}
+
+              <p className="text-sm text-gray-500">
+                Time remaining:{" "}
+                <span className="font-medium">
+                  {remaining} {remainingUnit}
+                  {remaining !== 1 ? "s" : ""}
+                </span>
+              </p>
+            </div>
+
+            <span
+              className={`px-3 py-1 text-xs rounded-full border ${bandColor.badge}`}
+            >
+              {band.label}
+            </span>
+          </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
 
   /* ---------------- LOADING ---------------- */
   if (loading) {
@@ -355,7 +613,7 @@ export default function HomePage() {
   return (
     <div className="min-h-screen bg-gray-50">
       {/* NOTIFICATIONS PANEL */}
-      {showNotifications && (expiredItems.length > 0 || pushItems.length > 0) && (
+      {showNotifications && alertItems.length > 0 && (
         <div className="mx-4 mt-4 mb-2 rounded-lg border border-yellow-300 bg-yellow-50 p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -374,12 +632,15 @@ export default function HomePage() {
           </div>
 
           <div className="mt-2 text-sm text-yellow-800">
-            <p>🔴 Expired: {expiredItems.length}</p>
-            <p>🟡 Expiring Soon: {pushItems.length}</p>
+            {alertGroups.map(({ band, items }) => (
+              <p key={band.id}>
+                {STATUS_COLORS[band.color].emoji} {band.label}: {items.length}
+              </p>
+            ))}
           </div>
 
           <div className="mt-3 space-y-2">
-            {[...expiredItems, ...pushItems].slice(0, 5).map((item) => (
+            {alertItems.slice(0, 5).map((item) => (
               <Link
                 key={item.id}
                 href={`/item/${item.id}`}
@@ -422,11 +683,11 @@ export default function HomePage() {
           <input
             id="import-file"
             type="file"
-            accept=".xlsx,.csv"
+            accept=".xlsx,.xls,.csv"
             hidden
             onChange={(e) => {
               const file = e.target.files?.[0];
-              if (file) handleImport(file);
+              if (file) handleImportFile(file);
               e.currentTarget.value = "";
             }}
           />
@@ -443,12 +704,50 @@ export default function HomePage() {
           />
         </div>
 
+        {/* LOCATION FILTER */}
+        <div className="flex items-center gap-2">
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="flex-1 w-full">
+              <MapPin className="h-4 w-4" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+              {locations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+              <SelectItem value={UNASSIGNED_LOCATION}>No location</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant={groupByLocation ? "default" : "outline"}
+            size="sm"
+            className="h-9"
+            disabled={showCalendar}
+            onClick={() => setGroupByLocation((v) => !v)}
+          >
+            <Layers className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+          <Button
+            variant={showCalendar ? "default" : "outline"}
+            size="sm"
+            className="h-9"
+            onClick={() => setShowCalendar((v) => !v)}
+          >
+            <CalendarDays className="h-4 w-4 mr-1" />
+            Calendar
+          </Button>
+        </div>
+
         {/* DISPLAY NUMBER OF RECORDS */}
         <div className="flex items-center justify-between gap-3 text-sm text-gray-600">
           <div>
             <p>Total records: {records.length}</p>
             {records.length > 0 && (
-              <p className="mt-0.5 text-[11px] text-gray-400">Swipe a card left for Edit / Delete</p>
+              <p className="mt-0.5 text-[11px] text-gray-400">Swipe a card left for Edit / Remove / Delete</p>
             )}
           </div>
           {filteredRecords.length > 0 && (
@@ -463,7 +762,7 @@ export default function HomePage() {
           )}
         </div>
 
-        {/* BATCH DELETE BAR */}
+        {/* BATCH ACTIONS BAR */}
         {selectedIds.size > 0 && (
           <div className="flex items-center justify-between gap-3 rounded-lg border border-red-200 bg-red-50 p-3">
             <div className="text-sm font-medium text-red-800">
@@ -473,6 +772,14 @@ export default function HomePage() {
               <Button variant="ghost" size="sm" onClick={clearSelection}>
                 Clear
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDisposeRecords(records.filter((record) => selectedIds.has(record.id)))}
+              >
+                <PackageMinus className="mr-1 h-4 w-4" />
+                Remove
+              </Button>
               <Button
                 variant="destructive"
                 size="sm"
@@ -501,200 +808,77 @@ export default function HomePage() {
         )}
       </div>
 
+      {/* REMOVE WITH REASON */}
+      <DispositionDialog
+        records={disposeRecords}
+        onClose={() => setDisposeRecords(null)}
+        onChanged={() => {
+          clearSelection();
+          void loadRecords();
+        }}
+      />
+
+      {/* IMPORT COLUMN MAPPING AND PREVIEW */}
+      <Dialog
+        open={importWorkbook !== null}
+        onOpenChange={(open) => {
+          if (!open && !isImporting) closeImport();
+        }}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Expiration Records</DialogTitle>
+            <DialogDescription>
+              {importPreview
+                ? "Review what each row will do. Untick rows to leave them out, or edit them."
+                : "Check which column fills each field. Nothing is saved until you import."}
+            </DialogDescription>
+          </DialogHeader>
+          {importWorkbook && importPreview ? (
+            <ImportPreview
+              rows={importPreview.rows}
+              records={importPreview.records}
+              locations={importPreview.locations}
+              duplicates={importPreview.duplicates}
+              isImporting={isImporting}
+              onBack={() => setImportPreview(null)}
+              onConfirm={handleImport}
+            />
+          ) : (
+            importWorkbook && (
+              <ImportMappingWizard
+                kind="records"
+                workbook={importWorkbook}
+                initialMapping={importMapping ?? undefined}
+                confirmLabel="Preview"
+                onCancel={closeImport}
+                onConfirm={handlePreviewImport}
+              />
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* ITEM LIST */}
       <div className="px-4 pb-6 space-y-3">
-        {filteredRecords.map((record) => {
-          const result = getMonthStatus(record.expirationDate);
-          const status = result.status;
-          const StatusIcon = result.icon;
-          const isSelected = selectedIds.has(record.id);
-          const displayDescription = getDatabaseDescription(record);
-          const hasUsefulDescription =
-            displayDescription.length > 0 &&
-            displayDescription.toLowerCase() !== "created from scan";
-
-          const statusBorderClass =
-            status === "expired"
-              ? "border-2 border-red-400 shadow-[0_0_12px_rgba(239,68,68,0.35)]"
-              : status === "push"
-              ? "border-2 border-yellow-400 shadow-[0_0_12px_rgba(234,179,8,0.35)]"
-              : status === "return"
-              ? "border-2 border-blue-400 shadow-[0_0_12px_rgba(59,130,246,0.35)]"
-              : "border border-green-300";
-
-          const isSwiped = swipedRecordId === record.id;
-
-          return (
-            <div
-              key={record.id}
-              className="relative overflow-hidden rounded-lg touch-pan-y"
-              onPointerDown={(event) => handleSwipeStart(event, record.id)}
-              onPointerMove={(event) => handleSwipeMove(event, record.id)}
-              onPointerUp={(event) => handleSwipeEnd(event, record.id)}
-              onPointerCancel={(event) => handleSwipeEnd(event, record.id)}
-              onClickCapture={(event) => {
-                if (suppressNextClick.current) {
-                  event.preventDefault();
-                  event.stopPropagation();
-                  suppressNextClick.current = false;
-                }
-              }}
-            >
-              {/* Swipe actions: reveal by swiping the card from right to left. */}
-              <div className="absolute inset-y-0 right-0 flex w-[140px] items-stretch">
-                <Link
-                  href={`/edit-item/${record.id}`}
-                  onClick={closeSwipe}
-                  className="flex flex-1 flex-col items-center justify-center gap-1 bg-blue-600 text-xs font-medium text-white"
-                  aria-label={`Edit ${record.itemName}`}
-                >
-                  <Pencil className="h-5 w-5" />
-                  Edit
-                </Link>
-                <button
-                  type="button"
-                  onClick={() => {
-                    closeSwipe();
-                    void handleSingleDelete(record);
-                  }}
-                  className="flex flex-1 flex-col items-center justify-center gap-1 bg-red-600 text-xs font-medium text-white"
-                  aria-label={`Delete ${record.itemName}`}
-                >
-                  <Trash2 className="h-5 w-5" />
-                  Delete
-                </button>
-              </div>
-
-              <div
-                className={`relative z-10 ${isSwiped ? "-translate-x-[140px]" : "translate-x-0"} transition-transform duration-200 ease-out`}
-              >
-                <Card
-                  className={`transition-shadow hover:shadow-lg ${statusBorderClass} ${
-                    isSelected ? "ring-2 ring-red-500 ring-offset-2" : ""
-                  }`}
-                >
-                  <CardContent className="p-4">
-                <div className="flex justify-between items-start gap-3">
-                  <Link href={`/item/${record.id}`} className="min-w-0 flex-1">
-                    <h3 className="truncate text-lg font-semibold">
-                      {record.itemName}
-                    </h3>
-                    <p className="mt-1 text-sm text-gray-600">
-                      <span className="font-medium text-gray-700">Barcode:</span>{" "}
-                      <span className="font-mono">
-                        {formatBarcodeForDisplay(record.barcode) || "—"}
-                      </span>
-                    </p>
-                    {hasUsefulDescription && (
-                      <p className="mt-1 text-sm text-gray-600">
-                        <span className="font-medium text-gray-700">Item Code:</span>{" "}
-                        {displayDescription}
-                      </p>
-                    )}
-                  </Link>
-
-                  <div className="flex shrink-0 items-center gap-2">
-                    <StatusIcon
-                      className={`h-5 w-5 ${
-                        status === "expired"
-                          ? "text-red-600"
-                          : status === "push"
-                          ? "text-yellow-600"
-                          : status === "return"
-                          ? "text-blue-600"
-                          : "text-green-600"
-                      }`}
-                    />
-
-                    <span className="px-2 py-1 text-xs rounded-full border">
-                      Qty: {record.quantity}
-                    </span>
-
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 w-8 p-0"
-                          aria-label={`Options for ${record.itemName}`}
-                        >
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuCheckboxItem
-                          checked={isSelected}
-                          onCheckedChange={() => toggleSelect(record.id)}
-                        >
-                          Select for batch delete
-                        </DropdownMenuCheckboxItem>
-                        <DropdownMenuSeparator />
-                        <DropdownMenuItem asChild>
-                          <Link href={`/edit-item/${record.id}`}>
-                            <Pencil className="h-4 w-4" />
-                            Edit item
-                          </Link>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          variant="destructive"
-                          onSelect={() => void handleSingleDelete(record)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                          Delete item
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                </div>
-
-                {record.notes?.trim() && (
-                  <div className="mt-3 rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700">
-                    <span className="font-medium">Notes / Remarks:</span>{" "}
-                    <span className="whitespace-pre-wrap break-words">
-                      {record.notes.trim()}
-                    </span>
-                  </div>
-                )}
-
-                <Link
-                  href={`/item/${record.id}`}
-                  className="mt-4 flex justify-between items-end gap-3"
-                >
-                  <div>
-                    <p className="text-sm text-gray-600">
-                      Expires: {record.expirationDate.toLocaleDateString()}
-                    </p>
-
-                    <p className="text-sm text-gray-500">
-                      Time remaining:{" "}
-                      <span className="font-medium">
-                        {result.monthsRemaining} month
-                        {result.monthsRemaining !== 1 ? "s" : ""}
-                      </span>
-                    </p>
-                  </div>
-
-                  <span
-                    className={`px-3 py-1 text-xs rounded-full ${
-                      status === "expired"
-                        ? "bg-red-100 text-red-700"
-                        : status === "push"
-                        ? "bg-yellow-100 text-yellow-700"
-                        : status === "return"
-                        ? "bg-blue-100 text-blue-700"
-                        : "bg-green-100 text-green-700"
-                    }`}
-                  >
-                    {result.label}
-                  </span>
-                </Link>
-                  </CardContent>
-                </Card>
+        {showCalendar ? (
+          <ExpirationCalendar
+            records={filteredRecords}
+            statusRules={statusRules}
+            renderRecord={renderRecordCard}
+          />
+        ) : groupByLocation
+          ? locationGroups.map((group) => (
+              <div key={group.id || "unassigned"} className="space-y-3">
+                <h2 className="flex items-center gap-2 pt-2 text-sm font-semibold text-gray-700">
+                  <MapPin className="h-4 w-4" />
+                  {group.name}
+                  <span className="font-normal text-gray-500">({group.records.length})</span>
+                </h2>
+                {group.records.map(renderRecordCard)}
               </div>
-            </div>
-          );
-        })}
+            ))
+          : filteredRecords.map(renderRecordCard)}
       </div>
     </div>
   );
@@ -2,23 +2,39 @@
 
 import { useState, useRef } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import BarcodeScanner from "@/components/BarcodeScanner";
+import LocationPicker from "@/components/LocationPicker";
+import ExpiryDateReader from "@/components/ExpiryDateReader";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Search } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Search, ListChecks } from "lucide-react";
 import {
   expirationRecordsService,
   productDataService,
   normalizeBarcodeForMatch,
 } from "@/lib/db";
-import type { ProductData } from "@/types";
+import { parseGS1, gtinToRetailBarcode, type GS1ParseResult } from "@/lib/gs1";
+import { parseBarcode, resolveScanDestination } from "@/lib/barcode";
+import { useScannerInput } from "@/hooks/useScannerInput";
+import { getSymbologyLabel } from "@/lib/symbology";
+import type { BarcodeSymbology, ProductData } from "@/types";
 
 export default function ScanPage() {
   const router = useRouter();
 
   const [barcode, setBarcode] = useState("");
+  const [barcodeFormat, setBarcodeFormat] = useState<BarcodeSymbology | "">("");
   const [productName, setProductName] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [aisle, setAisle] = useState("");
+  const [expirationDate, setExpirationDate] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [lotNumber, setLotNumber] = useState("");
+  const [gs1Data, setGs1Data] = useState<GS1ParseResult | null>(null);
   const [suggestions, setSuggestions] = useState<ProductData[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
   const [scannerActive, setScannerActive] = useState(false);
@@ -27,6 +43,11 @@ export default function ScanPage() {
 
   const isHandlingRef = useRef(false);
 
+  // Codes from a handheld (keyboard-wedge) scanner open the record or add form.
+  useScannerInput(async (code) => {
+    router.push(await resolveScanDestination(code));
+  });
+
   /* -------------------------------------------
      Lookup product by barcode OR name
   --------------------------------------------*/
@@ -58,19 +79,55 @@ export default function ScanPage() {
     }
   };
 
+  /* -------------------------------------------
+     Pre-fill from a GS1 element string
+  --------------------------------------------*/
+  const applyGS1 = (gs1: GS1ParseResult): string => {
+    const code = gs1.gtin ? gtinToRetailBarcode(gs1.gtin) : "";
+    setGs1Data(gs1);
+    setBarcode(code);
+    if (gs1.expirationDate) setExpirationDate(gs1.expirationDate);
+    if (gs1.lotNumber) setLotNumber(gs1.lotNumber);
+    if (gs1.quantity) setQuantity(gs1.quantity);
+    return code;
+  };
+
+  // Typed or pasted text is only read as GS1 on paste, Enter or blur: part-way
+  // through typing, it can already parse as a shorter element string.
+  // Returns whether the text was one.
+  const applyManualGS1 = (value: string): boolean => {
+    const gs1 = parseGS1(value);
+    if (!gs1) return false;
+    setBarcodeFormat("");
+    setShowDropdown(false);
+    const code = applyGS1(gs1);
+    if (code) {
+      productDataService.getByBarcode(code, "").then((found) => found && setProductName(found.itemName));
+    }
+    return true;
+  };
+
   /* -------------------------------------------
      Handle scan from camera
   --------------------------------------------*/
-  const handleScanSuccess = async (raw: string) => {
+  const handleScanSuccess = async (raw: string, format: BarcodeSymbology) => {
     if (isHandlingRef.current) return;
     isHandlingRef.current = true;
 
     try {
       setScannerActive(false);
-      setBarcode(raw);
+      setBarcodeFormat(format);
 
-      const products = await productDataService.getAll();
-      const found = products.find((p) => p.barcode === raw);
+      const gs1 = parseGS1(raw);
+      let code = raw;
+      if (gs1) {
+        code = applyGS1(gs1);
+      } else {
+        setGs1Data(null);
+        setBarcode(raw);
+      }
+
+      const found = code ? await productDataService.getByBarcode(code, gs1 ? "" : format) : null;
 
       if (found) {
         setProductName(found.itemName);
@@ -95,22 +152,28 @@ export default function ScanPage() {
     setError(null);
 
     try {
-      const normalizedBarcode = barcode.replace(/\D/g, "").slice(0, 12);
+      // Keep the full code: EAN-13, ITF-14 and alphanumeric symbologies must
+      // not be cut down to UPC-A length.
+      const normalizedBarcode = parseBarcode(barcode);
       const products = await productDataService.getAll();
       const matchedProduct = products.find(
         (product) =>
           normalizeBarcodeForMatch(product.barcode) ===
-          normalizeBarcodeForMatch(normalizedBarcode || barcode)
+          normalizeBarcodeForMatch(normalizedBarcode || barcode, barcodeFormat)
       );
 
       const id = await expirationRecordsService.create({
         barcode: normalizedBarcode || barcode,
+        barcodeFormat,
         itemName: matchedProduct?.itemName || productName || "Scanned Item",
         description: matchedProduct?.description?.trim() || "",
-        quantity: 1,
-        expirationDate: new Date(),
+        quantity: Math.max(1, quantity),
+        expirationDate: expirationDate ? new Date(expirationDate) : new Date(),
+        lotNumber: lotNumber.trim(),
         dateCreated: new Date(),
         notes: "",
+        locationId,
+        aisle: aisle.trim(),
       });
 
       router.push(`/edit-item/${id}`);
@@ -131,6 +194,13 @@ export default function ScanPage() {
         onScanSuccess={handleScanSuccess}
       />
 
+      <Link href="/batch-scan" className="block">
+        <Button variant="outline" className="w-full">
+          <ListChecks className="h-4 w-4 mr-2" />
+          Batch Scan (shelf count)
+        </Button>
+      </Link>
+
       {/* Manual Entry */}
       <Card>
         <CardHeader>
@@ -147,11 +217,22 @@ export default function ScanPage() {
               value={barcode}
               onChange={async (e) => {
                 const value = e.target.value;
+                setBarcodeFormat("");
+                setGs1Data(null);
                 setBarcode(value);
                 await lookupProducts(value);
               }}
+              onPaste={(e) => {
+                if (applyManualGS1(e.clipboardData.getData("text"))) e.preventDefault();
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") applyManualGS1(barcode);
+              }}
               onFocus={() => suggestions.length && setShowDropdown(true)}
-              onBlur={() => setTimeout(() => setShowDropdown(false), 150)}
+              onBlur={() => {
+                applyManualGS1(barcode);
+                setTimeout(() => setShowDropdown(false), 150);
+              }}
             />
 
             {/* Dropdown */}
@@ -164,6 +245,7 @@ export default function ScanPage() {
                     className="w-full text-left px-3 py-2 hover:bg-gray-100 text-sm"
                     onClick={() => {
                       setBarcode(item.barcode);
+                      setBarcodeFormat("");
                       setProductName(item.itemName);
                       setShowDropdown(false);
                     }}
@@ -184,6 +266,68 @@ export default function ScanPage() {
             </p>
           )}
 
+          {barcodeFormat && (
+            <Badge variant="secondary" className="text-xs">
+              Scanned as {getSymbologyLabel(barcodeFormat)}
+            </Badge>
+          )}
+
+          {gs1Data && (
+            <div className="flex flex-wrap gap-1">
+              {gs1Data.elements.map((element) => (
+                <Badge key={element.ai} variant="outline" className="text-xs">
+                  ({element.ai}) {element.label}: {element.value}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="scan-expiration">Expiration Date</Label>
+              <Input
+                id="scan-expiration"
+                type="date"
+                value={expirationDate}
+                onChange={(e) => setExpirationDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="scan-quantity">Quantity</Label>
+              <Input
+                id="scan-quantity"
+                type="number"
+                min="1"
+                max="9999"
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <ExpiryDateReader onConfirm={setExpirationDate} />
+
+          <div>
+            <Label htmlFor="scan-lot">Lot / Batch Number</Label>
+            <Input
+              id="scan-lot"
+              type="text"
+              placeholder="e.g., L2405A"
+              value={lotNumber}
+              onChange={(e) => setLotNumber(e.target.value)}
+              className="font-mono mt-1"
+            />
+          </div>
+
+          <LocationPicker
+            locationId={locationId}
+            aisle={aisle}
+            onLocationChange={setLocationId}
+            onAisleChange={setAisle}
+          />
+
           {error && (
             <p className="text-sm text-red-600">{error}</p>
           )}
@@ -203,8 +347,9 @@ export default function ScanPage() {
         <CardContent className="p-4 text-sm text-blue-800">
           <p className="font-semibold mb-1">Notes</p>
           <ul className="list-disc ml-5">
-            <li>Supports all barcode types</li>
-            <li>Barcode trimmed to 12 digits on save</li>
+            <li>Barcode types are chosen in Settings</li>
+            <li>Barcodes are saved in full, as scanned</li>
+            <li>GS1-128 / GS1 DataMatrix codes fill expiry, lot and quantity</li>
             <li>Manual name lookup uses imported data</li>
           </ul>
         </CardContent>
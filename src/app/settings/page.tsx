@@ -6,9 +6,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Bell,
   Save,
@@ -16,9 +24,26 @@ import {
   Download,
   Upload,
   Info,
+  Layers,
+  PackageSearch,
+  ScrollText,
+  BarChart3,
+  Plus,
+  Trash2,
+  ScanBarcode,
+  Store,
 } from "lucide-react";
 
 import { settingsService } from "@/lib/db";
+import {
+  DEFAULT_STATUS_RULES,
+  STATUS_COLORS,
+  STATUS_ICONS,
+  STATUS_RULE_PRESETS,
+  describeBandRange,
+  validateStatusRules,
+} from "@/lib/status";
+import { DEFAULT_SCANNER_SETTINGS, SYMBOLOGIES } from "@/lib/symbology";
 import {
   requestNotificationPermission,
   getNotificationPermission,
@@ -26,15 +51,31 @@ import {
   sendTestNotification,
   isNotificationSupported,
 } from "@/lib/notifications";
-import type { NotificationSettings } from "@/types";
+import type {
+  BarcodeSymbology,
+  NotificationSettings,
+  ScannerSettings,
+  StatusBand,
+  StatusColor,
+  StatusIconName,
+  StatusRules,
+  StatusUnit,
+} from "@/types";
 
 export default function SettingsPage() {
   const [settings, setSettings] = useState<NotificationSettings>({
-    daysBeforeExpiration: 7,
     notifyOnExpirationDay: true,
     quantityThreshold: 0, // ✅ 0 = OFF
   });
 
+  const [statusRules, setStatusRules] =
+    useState<StatusRules>(DEFAULT_STATUS_RULES);
+
+  const [scannerSettings, setScannerSettings] =
+    useState<ScannerSettings>(DEFAULT_SCANNER_SETTINGS);
+
+  const [storeName, setStoreName] = useState("");
+
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [notificationPermission, setNotificationPermission] =
@@ -48,8 +89,16 @@ export default function SettingsPage() {
 
   const loadSettings = async () => {
     try {
-      const loaded = await settingsService.get();
+      const [loaded, rules, scanner, store] = await Promise.all([
+        settingsService.get(),
+        settingsService.getStatusRules(),
+        settingsService.getScannerSettings(),
+        settingsService.getStoreName(),
+      ]);
       setSettings(loaded);
+      setStatusRules(rules);
+      setScannerSettings(scanner);
+      setStoreName(store);
     } catch (err) {
       console.error(err);
     } finally {
@@ -65,12 +114,41 @@ export default function SettingsPage() {
     setSaveMessage("");
   };
 
+  const handleRulesChange = (rules: StatusRules) => {
+    setStatusRules(rules);
+    setSaveMessage("");
+  };
+
+  const handleSymbologyToggle = (symbology: BarcodeSymbology, enabled: boolean) => {
+    setScannerSettings((prev) => ({
+      ...prev,
+      enabledSymbologies: enabled
+        ? [...prev.enabledSymbologies, symbology]
+        : prev.enabledSymbologies.filter((id) => id !== symbology),
+    }));
+    setSaveMessage("");
+  };
+
+  const ruleErrors = validateStatusRules(statusRules);
+
   const handleSave = async () => {
+    if (ruleErrors.length > 0) {
+      setSaveMessage("Fix the status rules before saving");
+      return;
+    }
+    if (scannerSettings.enabledSymbologies.length === 0) {
+      setSaveMessage("Enable at least one barcode type");
+      return;
+    }
+
     setIsSaving(true);
     setSaveMessage("");
 
     try {
       await settingsService.update(settings);
+      await settingsService.updateStatusRules(statusRules);
+      await settingsService.updateScannerSettings(scannerSettings);
+      await settingsService.updateStoreName(storeName);
       setSaveMessage("Settings saved successfully");
       setTimeout(() => setSaveMessage(""), 3000);
     } catch (err) {
@@ -163,21 +241,10 @@ export default function SettingsPage() {
 
             <Separator />
 
-            <div>
-              <Label>Notify before expiration (days)</Label>
-              <Input
-                type="number"
-                min={1}
-                value={settings.daysBeforeExpiration}
-                onChange={(e) =>
-                  handleChange(
-                    "daysBeforeExpiration",
-                    Number(e.target.value)
-                  )
-                }
-                className="w-24 mt-2"
-              />
-            </div>
+            <p className="text-sm text-gray-500">
+              Advance alerts follow the Expiration Status Rules below: each
+              band marked as an alert sends one notification a day.
+            </p>
 
             <div className="flex justify-between items-center">
               <div>
@@ -212,6 +279,99 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Status Rules */}
+        <StatusRulesEditor
+          rules={statusRules}
+          errors={ruleErrors}
+          onChange={handleRulesChange}
+        />
+
+        {/* Scanner */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScanBarcode className="h-5 w-5" />
+              Barcode Types
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              The camera only reads the types enabled here. Fewer types scan
+              faster and avoid misreads.
+            </p>
+            {SYMBOLOGIES.map((symbology) => {
+              const checked = scannerSettings.enabledSymbologies.includes(symbology.id);
+              return (
+                <div key={symbology.id} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`symbology-${symbology.id}`}
+                    checked={checked}
+                    onCheckedChange={(value) =>
+                      handleSymbologyToggle(symbology.id, value === true)
+                    }
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`symbology-${symbology.id}`} className="block">
+                    <span className="font-medium">{symbology.label}</span>
+                    <span className="block text-xs text-gray-500 font-normal">
+                      {symbology.description}
+                    </span>
+                  </Label>
+                </div>
+              );
+            })}
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="beep-on-scan">Beep on scan</Label>
+              <Switch
+                id="beep-on-scan"
+                checked={scannerSettings.beepOnScan}
+                onCheckedChange={(value) => {
+                  setScannerSettings((prev) => ({ ...prev, beepOnScan: value }));
+                  setSaveMessage("");
+                }}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="vibrate-on-scan">Vibrate on scan</Label>
+              <Switch
+                id="vibrate-on-scan"
+                checked={scannerSettings.vibrateOnScan}
+                onCheckedChange={(value) => {
+                  setScannerSettings((prev) => ({ ...prev, vibrateOnScan: value }));
+                  setSaveMessage("");
+                }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Store */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Store className="h-5 w-5" />
+              Store
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Label htmlFor="store-name">Store name</Label>
+            <Input
+              id="store-name"
+              className="mt-2"
+              placeholder="e.g. Main Street #12"
+              value={storeName}
+              onChange={(e) => {
+                setStoreName(e.target.value);
+                setSaveMessage("");
+              }}
+            />
+            <p className="text-xs text-gray-500 mt-1">Printed in the header of PDF reports</p>
+          </CardContent>
+        </Card>
+
         {/* Data */}
         <Card>
           <CardHeader>
@@ -230,6 +390,30 @@ export default function SettingsPage() {
                 Export
               </Button>
             </Link>
+            <Link href="/lot-lookup" className="col-span-2">
+              <Button variant="outline" className="w-full">
+                <PackageSearch className="h-4 w-4 mr-2" />
+                Lot Lookup / Recall
+              </Button>
+            </Link>
+            <Link href="/trash">
+              <Button variant="outline" className="w-full">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Trash
+              </Button>
+            </Link>
+            <Link href="/audit-log">
+              <Button variant="outline" className="w-full">
+                <ScrollText className="h-4 w-4 mr-2" />
+                Change Log
+              </Button>
+            </Link>
+            <Link href="/analytics" className="col-span-2">
+              <Button variant="outline" className="w-full">
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Waste Analytics
+              </Button>
+            </Link>
           </CardContent>
         </Card>
 
@@ -249,7 +433,11 @@ export default function SettingsPage() {
         </Card>
 
         {saveMessage && (
-          <div className="text-sm text-center text-green-700">
+          <div
+            className={`text-sm text-center ${
+              saveMessage.includes("success") ? "text-green-700" : "text-red-600"
+            }`}
+          >
             {saveMessage}
           </div>
         )}
@@ -266,3 +454,216 @@ export default function SettingsPage() {
     </div>
   );
 }
+
+// Status Rules Editor Component
+function StatusRulesEditor({
+  rules,
+  errors,
+  onChange,
+}: {
+  rules: StatusRules;
+  errors: string[];
+  onChange: (rules: StatusRules) => void;
+}) {
+  const unitLabel = rules.unit === "months" ? "months" : "days";
+
+  const updateBand = (index: number, updates: Partial<StatusBand>) => {
+    onChange({
+      ...rules,
+      bands: rules.bands.map((band, i) =>
+        i === index ? { ...band, ...updates } : band
+      ),
+    });
+  };
+
+  const addBand = () => {
+    // New bands go just above the open-ended catch-all band.
+    const insertAt = Math.max(0, rules.bands.length - 1);
+    const previous = insertAt > 0 ? rules.bands[insertAt - 1].maxRemaining : null;
+    const band: StatusBand = {
+      id: crypto.randomUUID(),
+      label: "New status",
+      maxRemaining: (previous ?? -1) + 1,
+      color: "orange",
+      icon: "clock",
+      alert: false,
+    };
+    const bands = [...rules.bands];
+    bands.splice(insertAt, 0, band);
+    onChange({ ...rules, bands });
+  };
+
+  const removeBand = (index: number) => {
+    const bands = rules.bands.filter((_, i) => i !== index);
+    // Keep the last band open-ended so every date still maps to a status.
+    if (bands.length > 0) {
+      bands[bands.length - 1] = { ...bands[bands.length - 1], maxRemaining: null };
+    }
+    onChange({ ...rules, bands });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Expiration Status Rules
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Used by the home list, item details, export and notifications.
+          Bands are checked from top to bottom.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          {STATUS_RULE_PRESETS.map((preset) => (
+            <Button
+              key={preset.id}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(preset.rules)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+
+        <div>
+          <Label>Measure remaining time in</Label>
+          <Select
+            value={rules.unit}
+            onValueChange={(value) =>
+              onChange({ ...rules, unit: value as StatusUnit })
+            }
+          >
+            <SelectTrigger className="w-40 mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="days">Days</SelectItem>
+              <SelectItem value="months">Calendar months</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          {rules.bands.map((band, index) => {
+            const isLast = index === rules.bands.length - 1;
+            const Icon = STATUS_ICONS[band.icon];
+
+            return (
+              <div
+                key={band.id}
+                className={`rounded-lg border p-3 space-y-3 ${STATUS_COLORS[band.color].badge}`}
+              >
+                <div className="flex items-center gap-2">
+                  <Icon className={`h-5 w-5 shrink-0 ${STATUS_COLORS[band.color].text}`} />
+                  <Input
+                    value={band.label}
+                    onChange={(e) => updateBand(index, { label: e.target.value })}
+                    className="bg-white"
+                    aria-label="Status name"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeBand(index)}
+                    disabled={rules.bands.length <= 1}
+                    aria-label={`Remove ${band.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm">
+                  {isLast ? (
+                    <span className="text-gray-700">All later dates</span>
+                  ) : (
+                    <>
+                      <span className="text-gray-700">Up to</span>
+                      <Input
+                        type="number"
+                        value={band.maxRemaining ?? 0}
+                        onChange={(e) =>
+                          updateBand(index, { maxRemaining: Number(e.target.value) })
+                        }
+                        className="w-20 bg-white"
+                        aria-label="Threshold"
+                      />
+                      <span className="text-gray-700">{unitLabel} remaining</span>
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-gray-600">{describeBandRange(rules, index)}</p>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={band.color}
+                    onValueChange={(value) =>
+                      updateBand(index, { color: value as StatusColor })
+                    }
+                  >
+                    <SelectTrigger className="w-full bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STATUS_COLORS).map(([color, meta]) => (
+                        <SelectItem key={color} value={color}>
+                          {meta.emoji} {meta.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Select
+                    value={band.icon}
+                    onValueChange={(value) =>
+                      updateBand(index, { icon: value as StatusIconName })
+                    }
+                  >
+                    <SelectTrigger className="w-full bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STATUS_ICONS).map(([name, OptionIcon]) => (
+                        <SelectItem key={name} value={name}>
+                          <OptionIcon className="h-4 w-4" />
+                          {name.replace("-", " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex justify-between items-center">
+                  <Label className="text-sm">Show in alerts</Label>
+                  <Switch
+                    checked={band.alert}
+                    onCheckedChange={(v) => updateBand(index, { alert: v })}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <Button type="button" variant="outline" className="w-full" onClick={addBand}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Status Band
+        </Button>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <li key={error}>• {error}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
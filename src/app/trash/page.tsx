@@ -0,0 +1,246 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react";
+import { expirationRecordsService, settingsService } from "@/lib/db";
+import { formatBarcodeForDisplay } from "@/lib/barcode";
+import { TRASH_RETENTION_OPTIONS, getPurgeDate } from "@/lib/trash";
+import type { TrashedRecord } from "@/types";
+
+export default function TrashPage() {
+  const [records, setRecords] = useState<TrashedRecord[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const days = await settingsService.getTrashRetentionDays();
+      await expirationRecordsService.purgeTrash(days);
+      setRetentionDays(days);
+      setRecords(await expirationRecordsService.getDeleted());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRetentionChange = async (value: string) => {
+    const days = Number(value);
+    setMessage("");
+    try {
+      await settingsService.updateTrashRetentionDays(days);
+      const purged = await expirationRecordsService.purgeTrash(days);
+      if (purged > 0) {
+        setMessage(`Deleted ${purged} item(s) that were in the trash for over ${days} days.`);
+      }
+      await loadTrash();
+    } catch (error) {
+      console.error("Error saving trash retention:", error);
+      setMessage("Failed to save the setting. Please try again.");
+    }
+  };
+
+  const handleRestore = async (ids: string[]) => {
+    setIsWorking(true);
+    setMessage("");
+    try {
+      await expirationRecordsService.restore(ids);
+      setMessage(`Restored ${ids.length} item(s).`);
+      await loadTrash();
+    } catch (error) {
+      console.error("Error restoring items:", error);
+      setMessage("Failed to restore. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDeletePermanently = async (ids: string[], prompt: string) => {
+    if (!confirm(prompt)) return;
+
+    setIsWorking(true);
+    setMessage("");
+    try {
+      await expirationRecordsService.deletePermanently(ids);
+      setMessage(`Permanently deleted ${ids.length} item(s).`);
+      await loadTrash();
+    } catch (error) {
+      console.error("Error deleting items:", error);
+      setMessage("Failed to delete. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const allIds = records.map((record) => record.id);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-4 py-4">
+        <div className="flex items-center space-x-3">
+          <Link href="/settings">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">Trash</h1>
+        </div>
+      </header>
+
+      <div className="p-4 space-y-6">
+        {/* Retention */}
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            <Label>Keep deleted items for</Label>
+            <Select
+              value={retentionDays === null ? undefined : String(retentionDays)}
+              onValueChange={(value) => void handleRetentionChange(value)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Loading..." />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map((option) => (
+                  <SelectItem key={option.days} value={String(option.days)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Older items are deleted permanently the next time the app starts.
+            </p>
+          </CardContent>
+        </Card>
+
+        {message && <p className="text-sm text-center text-gray-700">{message}</p>}
+
+        {/* Deleted Items */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center justify-between">
+              <span>Deleted Items ({records.length})</span>
+              {records.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  disabled={isWorking}
+                  onClick={() =>
+                    void handleDeletePermanently(
+                      allIds,
+                      `Permanently delete all ${records.length} item(s) in the trash? This action cannot be undone.`
+                    )
+                  }
+                >
+                  Empty trash
+                </Button>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <p className="text-sm text-gray-600 text-center py-6">Loading...</p>
+            ) : records.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-6">The trash is empty.</p>
+            ) : (
+              <>
+                {records.map((record) => (
+                  <TrashRow
+                    key={record.id}
+                    record={record}
+                    retentionDays={retentionDays ?? 0}
+                    disabled={isWorking}
+                    onRestore={() => void handleRestore([record.id])}
+                    onDelete={() =>
+                      void handleDeletePermanently(
+                        [record.id],
+                        `Permanently delete "${record.itemName}"? This action cannot be undone.`
+                      )
+                    }
+                  />
+                ))}
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={isWorking}
+                  onClick={() => void handleRestore(allIds)}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore all
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+// Trash Row Component
+function TrashRow({
+  record,
+  retentionDays,
+  disabled,
+  onRestore,
+  onDelete,
+}: {
+  record: TrashedRecord;
+  retentionDays: number;
+  disabled: boolean;
+  onRestore: () => void;
+  onDelete: () => void;
+}) {
+  const purgeDate = getPurgeDate(record.deletedAt, retentionDays);
+
+  return (
+    <div className="p-3 border rounded bg-white space-y-2">
+      <div className="min-w-0">
+        <p className="font-medium truncate">{record.itemName}</p>
+        <p className="text-xs text-gray-600 truncate">
+          {[
+            formatBarcodeForDisplay(record.barcode),
+            `Qty ${record.quantity}`,
+            `Exp ${format(record.expirationDate, "d MMM yyyy")}`,
+            record.lotNumber && `Lot ${record.lotNumber}`,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+        <p className="text-xs text-gray-500">
+          Deleted {format(record.deletedAt, "d MMM yyyy, HH:mm")}
+          {purgeDate && ` · removed for good after ${format(purgeDate, "d MMM yyyy")}`}
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" disabled={disabled} onClick={onRestore}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restore
+        </Button>
+        <Button variant="outline" size="sm" className="text-red-600" disabled={disabled} onClick={onDelete}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete forever
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  formatAuditValue,
+  getAuditActionLabel,
+  getAuditFieldLabel,
+  getAuditSourceLabel,
+} from "@/lib/auditLog";
+import type { DBAuditEntry } from "@/lib/db";
+import type { AuditAction, StorageLocation } from "@/types";
+
+const ACTION_BADGES: Record<AuditAction, string> = {
+  create: "bg-green-100 text-green-800 border-green-200",
+  update: "bg-blue-100 text-blue-800 border-blue-200",
+  delete: "bg-red-100 text-red-800 border-red-200",
+  restore: "bg-teal-100 text-teal-800 border-teal-200",
+  purge: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+interface AuditEntryListProps {
+  entries: DBAuditEntry[];
+  locations: StorageLocation[];
+  /** Name the item on each entry and link records to their details. */
+  showItem?: boolean;
+}
+
+// Change log entries as a timeline, newest first as given.
+export default function AuditEntryList({ entries, locations, showItem = false }: AuditEntryListProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-600 text-center py-6">No changes recorded.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.id} className="border-l-2 border-gray-200 pl-3 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className={ACTION_BADGES[entry.action]}>
+              {getAuditActionLabel(entry.action)}
+            </Badge>
+            <span className="text-xs text-gray-500">
+              {format(parseISO(entry.timestamp), "d MMM yyyy, HH:mm")} · {getAuditSourceLabel(entry.source)}
+              {entry.detail && ` · ${entry.detail}`}
+            </span>
+          </div>
+          {showItem && (
+            <p className="font-medium truncate">
+              {entry.entityType === "record" && entry.action !== "delete" && entry.action !== "purge" ? (
+                <Link href={`/item/${entry.entityId}`} className="hover:underline">
+                  {entry.itemName || "No item name"}
+                </Link>
+              ) : (
+                entry.itemName || "No item name"
+              )}
+              {entry.entityType === "product" && (
+                <span className="text-xs text-gray-500 font-normal"> · Product {entry.entityId}</span>
+              )}
+            </p>
+          )}
+          {entry.changes.length > 0 && (
+            <ul className="text-xs text-gray-700 space-y-0.5">
+              {entry.changes.map((change) => (
+                <li key={change.field}>
+                  {getAuditFieldLabel(change.field)}:{" "}
+                  {entry.action === "update" ? (
+                    <>
+                      <span className="line-through text-gray-500">
+                        {formatAuditValue(change.field, change.before, locations)}
+                      </span>{" "}
+                      → {formatAuditValue(change.field, change.after, locations)}
+                    </>
+                  ) : (
+                    formatAuditValue(
+                      change.field,
+                      change.after === "" ? change.before : change.after,
+                      locations
+                    )
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
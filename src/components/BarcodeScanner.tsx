@@ -4,6 +4,14 @@ import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Camera,
   CameraOff,
@@ -11,50 +19,112 @@ import {
   CheckCircle,
   AlertCircle,
   Zap,
+  Flashlight,
+  FlashlightOff,
+  ZoomIn,
 } from "lucide-react";
 
 import {
   BrowserMultiFormatReader,
+  DecodeHintType,
   Result,
 } from "@zxing/library";
+import ImageBarcodeInput from "@/components/ImageBarcodeInput";
+import { isGS1Payload } from "@/lib/gs1";
+import { formatBarcodeForDisplay } from "@/lib/barcode";
+import type { ImageScanResult } from "@/lib/imageDecode";
+import { settingsService } from "@/lib/db";
+import { signalScanSuccess } from "@/lib/scanFeedback";
+import {
+  DEFAULT_SCANNER_SETTINGS,
+  acceptScanResult,
+  fromZXingFormat,
+  getSymbologyLabel,
+  toZXingFormats,
+} from "@/lib/symbology";
+import type { BarcodeSymbology, ScannerSettings } from "@/types";
 
 interface BarcodeScannerProps {
-  onScanSuccess: (barcode: string) => void;
+  onScanSuccess: (barcode: string, format: BarcodeSymbology) => void;
   isActive: boolean;
   onToggle: () => void;
+  /** Keep the camera live after a read, e.g. for batch counting. */
+  continuous?: boolean;
+}
+
+// In continuous mode the same code is reported again only after it has been
+// out of view for this long, so holding an item still counts it once.
+const REPEAT_READ_DEBOUNCE_MS = 1500;
+
+// Torch, zoom and focus come from the Image Capture spec and are not in
+// lib.dom yet; browsers without them simply omit the keys.
+interface CameraCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step: number };
+  focusMode?: string[];
 }
 
+type CameraConstraintSet = MediaTrackConstraintSet & {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+};
+
 export default function BarcodeScanner({
   onScanSuccess,
   isActive,
   onToggle,
+  continuous = false,
 }: BarcodeScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const lastReadRef = useRef<{ text: string; at: number } | null>(null);
+  const trackRef = useRef<MediaStreamTrack | null>(null);
 
   const [reader, setReader] =
     useState<BrowserMultiFormatReader | null>(null);
+  const [scannerSettings, setScannerSettings] =
+    useState<ScannerSettings>(DEFAULT_SCANNER_SETTINGS);
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
   const [deviceId, setDeviceId] = useState("");
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>({});
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoom] = useState<number | null>(null);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanning, setScanning] = useState(false);
   const [scanAttempts, setScanAttempts] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [initializing, setInitializing] = useState(true);
+  const [imageChoices, setImageChoices] = useState<ImageScanResult[]>([]);
 
   /* ---------------------------------------------
-     Initialize ZXing (ALL BARCODE FORMATS)
+     Initialize ZXing with the enabled symbologies
   ----------------------------------------------*/
   useEffect(() => {
     let mounted = true;
 
-    try {
-      const zxReader = new BrowserMultiFormatReader();
-      if (mounted) setReader(zxReader);
-    } catch (err) {
-      console.error(err);
-      setError("Failed to initialize barcode scanner.");
-    } finally {
-      if (mounted) setInitializing(false);
-    }
+    const init = async () => {
+      try {
+        const scanner = await settingsService.getScannerSettings();
+        const hints = new Map<DecodeHintType, unknown>();
+        hints.set(
+          DecodeHintType.POSSIBLE_FORMATS,
+          toZXingFormats(scanner.enabledSymbologies)
+        );
+
+        const zxReader = new BrowserMultiFormatReader(hints);
+        if (mounted) {
+          setScannerSettings(scanner);
+          setReader(zxReader);
+        }
+      } catch (err) {
+        console.error(err);
+        setError("Failed to initialize barcode scanner.");
+      } finally {
+        if (mounted) setInitializing(false);
+      }
+    };
+
+    void init();
 
     return () => {
       mounted = false;
@@ -75,16 +145,19 @@ export default function BarcodeScanner({
       setError(null);
 
       const devices = await navigator.mediaDevices.enumerateDevices();
-      const videoDevices = devices.filter(
+      const cameras = devices.filter(
         (d) => d.kind === "videoinput"
       );
 
-      const backCamera =
-        videoDevices.find((d) =>
+      // Prefer the camera chosen last time, then anything labelled "back".
+      const preferred =
+        cameras.find((d) => d.deviceId === scannerSettings.deviceId) ||
+        cameras.find((d) =>
           d.label.toLowerCase().includes("back")
-        ) || videoDevices[0];
+        ) || cameras[0];
 
-      setDeviceId(backCamera?.deviceId || "");
+      setVideoDevices(cameras);
+      setDeviceId(preferred?.deviceId || "");
     } catch (err) {
       console.error(err);
       setHasPermission(false);
@@ -93,7 +166,60 @@ export default function BarcodeScanner({
   };
 
   /* ---------------------------------------------
-     Start scanning — ALL formats, trim to 12 digits
+     Camera controls via MediaStreamTrack
+  ----------------------------------------------*/
+  const setupTrack = async () => {
+    const stream = videoRef.current?.srcObject as MediaStream | null;
+    const track = stream?.getVideoTracks()[0] ?? null;
+    trackRef.current = track;
+    if (!track || typeof track.getCapabilities !== "function") return;
+
+    const caps = track.getCapabilities() as CameraCapabilities;
+    setCapabilities(caps);
+    setTorchOn(false);
+
+    const settings = track.getSettings() as { zoom?: number };
+    setZoom(caps.zoom ? settings.zoom ?? caps.zoom.min : null);
+
+    if (caps.focusMode?.includes("continuous")) {
+      await applyCameraConstraints({ focusMode: "continuous" });
+    }
+  };
+
+  const applyCameraConstraints = async (constraints: CameraConstraintSet) => {
+    try {
+      await trackRef.current?.applyConstraints({ advanced: [constraints] });
+    } catch (err) {
+      console.error("Camera constraint not applied:", err);
+    }
+  };
+
+  const toggleTorch = async () => {
+    const next = !torchOn;
+    await applyCameraConstraints({ torch: next });
+    setTorchOn(next);
+  };
+
+  const handleZoomChange = (value: number) => {
+    setZoom(value);
+    void applyCameraConstraints({ zoom: value });
+  };
+
+  const handleDeviceChange = async (id: string) => {
+    stopScanning();
+    setDeviceId(id);
+
+    const next = { ...scannerSettings, deviceId: id };
+    setScannerSettings(next);
+    try {
+      await settingsService.updateScannerSettings(next);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  /* ---------------------------------------------
+     Start scanning — validate per symbology
   ----------------------------------------------*/
   const startScanning = async () => {
     if (!reader || !videoRef.current || !deviceId) return;
@@ -112,24 +238,42 @@ export default function BarcodeScanner({
             return;
           }
 
-          // Raw scanned text
-          const rawText = result.getText();
-
-          // Keep digits only
-          const digitsOnly = rawText.replace(/\D/g, "");
+          const format = fromZXingFormat(result.getBarcodeFormat());
+          if (!format || !scannerSettings.enabledSymbologies.includes(format)) {
+            setScanAttempts((v) => v + 1);
+            return;
+          }
 
-          // Trim to 12 digits max
-          const trimmed = digitsOnly.slice(0, 12);
+          const rawText = result.getText();
 
-          // Accept only when we have 12 digits
-          if (trimmed.length === 12) {
-            onScanSuccess(trimmed);
-            stopScanning();
-          } else {
+          // GS1 element strings already carry expiry, lot and count, so
+          // hand them over intact.
+          const accepted = isGS1Payload(rawText)
+            ? rawText
+            : acceptScanResult(rawText, format);
+          if (!accepted) {
             setScanAttempts((v) => v + 1);
+            return;
+          }
+
+          if (continuous) {
+            const now = Date.now();
+            const last = lastReadRef.current;
+            lastReadRef.current = { text: accepted, at: now };
+            if (last && last.text === accepted && now - last.at < REPEAT_READ_DEBOUNCE_MS) {
+              return;
+            }
+            signalScanSuccess(scannerSettings);
+            onScanSuccess(accepted, format);
+            return;
           }
+
+          signalScanSuccess(scannerSettings);
+          onScanSuccess(accepted, format);
+          stopScanning();
         }
       );
+      await setupTrack();
     } catch (err) {
       console.error(err);
       setError("Failed to start scanning.");
@@ -146,8 +290,64 @@ export default function BarcodeScanner({
     } catch {}
     setScanning(false);
     setScanAttempts(0);
+    lastReadRef.current = null;
+    trackRef.current = null;
+    setCapabilities({});
+    setTorchOn(false);
+    setZoom(null);
   };
 
+  /* ---------------------------------------------
+     Codes decoded from a photo
+  ----------------------------------------------*/
+  const handleImageResults = (results: ImageScanResult[]) => {
+    signalScanSuccess(scannerSettings);
+    if (continuous) {
+      results.forEach((result) => onScanSuccess(result.text, result.format));
+      return;
+    }
+    if (results.length === 1) {
+      onScanSuccess(results[0].text, results[0].format);
+      return;
+    }
+    // A delivery label can carry several codes; let the user pick one.
+    setImageChoices(results);
+  };
+
+  const imageInput = (
+    <>
+      <ImageBarcodeInput
+        enabledSymbologies={scannerSettings.enabledSymbologies}
+        onDecoded={handleImageResults}
+      />
+      {imageChoices.length > 0 && (
+        <div className="space-y-2 mt-3">
+          <p className="text-sm font-medium text-gray-700">
+            {imageChoices.length} barcodes found. Choose one:
+          </p>
+          {imageChoices.map((choice) => (
+            <button
+              key={`${choice.format}:${choice.text}`}
+              type="button"
+              className="w-full text-left px-3 py-2 bg-white border rounded hover:bg-gray-100"
+              onClick={() => {
+                setImageChoices([]);
+                onScanSuccess(choice.text, choice.format);
+              }}
+            >
+              <span className="font-mono text-sm break-all">
+                {formatBarcodeForDisplay(choice.text)}
+              </span>
+              <span className="block text-xs text-gray-500">
+                {getSymbologyLabel(choice.format)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+
   /* ---------------------------------------------
      Auto start / stop
   ----------------------------------------------*/
@@ -192,6 +392,7 @@ export default function BarcodeScanner({
             <RotateCcw className="h-4 w-4 mr-2" />
             Reload
           </Button>
+          {imageInput}
         </CardContent>
       </Card>
     );
@@ -238,7 +439,7 @@ export default function BarcodeScanner({
       <CardContent>
         {isActive ? (
           <>
-            <div className="relative mb-4">
+            <div className="relative mb-4 overflow-hidden rounded-lg">
               <video
                 ref={videoRef}
                 className="w-full h-64 bg-black rounded-lg object-cover"
@@ -247,15 +448,70 @@ export default function BarcodeScanner({
                 playsInline
               />
 
+              {/* Region of interest: everything outside the window is dimmed */}
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                <div className="border-2 border-dashed border-white w-48 h-32 rounded-lg flex items-center justify-center">
-                  <span className="text-white bg-black bg-opacity-60 px-3 py-1 rounded text-sm">
-                    {scanning
-                      ? `Scanning… (${scanAttempts})`
-                      : "Align barcode"}
-                  </span>
+                <div className="relative w-3/4 h-32 rounded-lg border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]">
+                  <div className="absolute left-3 right-3 top-1/2 h-0.5 bg-red-500 opacity-80 animate-pulse" />
                 </div>
               </div>
+              <div className="absolute bottom-2 inset-x-0 flex justify-center pointer-events-none">
+                <span className="text-white bg-black bg-opacity-60 px-3 py-1 rounded text-sm">
+                  {scanning
+                    ? `Scanning… (${scanAttempts})`
+                    : "Align barcode"}
+                </span>
+              </div>
+            </div>
+
+            {/* Camera controls, shown only for what the device supports */}
+            <div className="space-y-3 mb-3">
+              {videoDevices.length > 1 && (
+                <Select value={deviceId} onValueChange={(id) => void handleDeviceChange(id)}>
+                  <SelectTrigger className="w-full bg-white">
+                    <SelectValue placeholder="Choose camera" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {videoDevices.map((device, index) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label || `Camera ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {(capabilities.torch || capabilities.zoom) && (
+                <div className="flex items-center gap-3">
+                  {capabilities.torch && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={torchOn ? "default" : "outline"}
+                      onClick={() => void toggleTorch()}
+                      aria-label={torchOn ? "Turn torch off" : "Turn torch on"}
+                    >
+                      {torchOn ? (
+                        <FlashlightOff className="h-4 w-4" />
+                      ) : (
+                        <Flashlight className="h-4 w-4" />
+                      )}
+                    </Button>
+                  )}
+                  {capabilities.zoom && zoom !== null && (
+                    <div className="flex flex-1 items-center gap-2">
+                      <ZoomIn className="h-4 w-4 text-gray-600" />
+                      <Slider
+                        min={capabilities.zoom.min}
+                        max={capabilities.zoom.max}
+                        step={capabilities.zoom.step || 0.1}
+                        value={[zoom]}
+                        onValueChange={([value]) => handleZoomChange(value)}
+                        aria-label="Zoom"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             {error && (
@@ -267,7 +523,7 @@ export default function BarcodeScanner({
 
             <div className="text-xs text-green-700 bg-green-100 border border-green-300 rounded p-3 mt-3">
               <CheckCircle className="inline h-4 w-4 mr-1" />
-              Any barcode supported • Only first 12 digits are used
+              Reads {scannerSettings.enabledSymbologies.map(getSymbologyLabel).join(", ")} • Change in Settings • GS1 codes fill expiry, lot and count
             </div>
           </>
         ) : (
@@ -276,6 +532,8 @@ export default function BarcodeScanner({
             Tap <strong>Start Camera</strong> to scan a barcode
           </div>
         )}
+
+        <div className="mt-4">{imageInput}</div>
       </CardContent>
     </Card>
   );
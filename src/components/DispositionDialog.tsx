@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PackageMinus } from "lucide-react";
+import { dispositionsService } from "@/lib/db";
+import { DISPOSITION_REASONS, getDispositionLabel } from "@/lib/dispositions";
+import type { DispositionReason, ExpirationRecord } from "@/types";
+
+interface DispositionDialogProps {
+  /** Records to take off the shelf; null closes the dialog. */
+  records: ExpirationRecord[] | null;
+  onClose: () => void;
+  /** Called after saving, and again after an undo. */
+  onChanged: () => void;
+}
+
+// "Remove with reason" for one record (part of its quantity, with an optional
+// cost) or for a selection (the whole quantity of each).
+export default function DispositionDialog({ records, onClose, onChanged }: DispositionDialogProps) {
+  return (
+    <Dialog
+      open={records !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Remove with Reason</DialogTitle>
+          <DialogDescription>
+            {records?.length === 1
+              ? `Record why "${records[0].itemName}" is leaving the shelf.`
+              : `Record why ${records?.length ?? 0} items are leaving the shelf. Their whole quantity is removed.`}
+          </DialogDescription>
+        </DialogHeader>
+        {records && (
+          <DispositionForm
+            key={records.map((record) => record.id).join(",")}
+            records={records}
+            onClose={onClose}
+            onChanged={onChanged}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Disposition Form Component
+function DispositionForm({
+  records,
+  onClose,
+  onChanged,
+}: {
+  records: ExpirationRecord[];
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const single = records.length === 1 ? records[0] : null;
+  const [reason, setReason] = useState<DispositionReason>("sold");
+  const [quantity, setQuantity] = useState(String(single?.quantity ?? 0));
+  const [unitCost, setUnitCost] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reasonInfo = DISPOSITION_REASONS.find((info) => info.id === reason);
+  const totalUnits = single
+    ? Number(quantity) || 0
+    : records.reduce((sum, record) => sum + record.quantity, 0);
+  // Same rule as the service: at least one unit, unless none are on hand.
+  const minimum = single?.quantity === 0 ? 0 : 1;
+  const removedLabel =
+    totalUnits === 0
+      ? `${records.length} item${records.length === 1 ? "" : "s"}`
+      : `${totalUnits} unit${totalUnits === 1 ? "" : "s"}`;
+
+  const handleSave = async () => {
+    setError("");
+    const items = single
+      ? [{ recordId: single.id, quantity: Number(quantity) }]
+      : records.map((record) => ({ recordId: record.id, quantity: record.quantity }));
+    const cost = unitCost.trim() === "" ? null : Number(unitCost);
+
+    if (single && (!Number.isInteger(items[0].quantity) || items[0].quantity < minimum || items[0].quantity > single.quantity)) {
+      setError(`Enter a quantity from ${minimum} to ${single.quantity}.`);
+      return;
+    }
+    if (cost !== null && !(cost >= 0)) {
+      setError("Enter a cost of zero or more, or leave it empty.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const ids = await dispositionsService.dispose(items, { reason, unitCost: cost, notes });
+      onClose();
+      onChanged();
+      toast(`${getDispositionLabel(reason)}: ${removedLabel} removed`, {
+        duration: 8000,
+        action: {
+          label: "Undo",
+          onClick: async () => {
+            try {
+              await dispositionsService.undo(ids);
+              onChanged();
+            } catch {
+              toast.error("Could not undo. Please adjust the item by hand.");
+            }
+          },
+        },
+      });
+    } catch (saveError) {
+      console.error("Error removing items:", saveError);
+      setError(saveError instanceof Error ? saveError.message : "Failed to remove. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Reason</Label>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          {DISPOSITION_REASONS.map((info) => (
+            <Button
+              key={info.id}
+              type="button"
+              size="sm"
+              variant={reason === info.id ? "default" : "outline"}
+              onClick={() => setReason(info.id)}
+            >
+              {info.label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">{reasonInfo?.description}</p>
+      </div>
+
+      {single && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="disposition-quantity">Quantity</Label>
+            <Input
+              id="disposition-quantity"
+              type="number"
+              min={minimum}
+              max={single.quantity}
+              className="mt-2"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">of {single.quantity} on hand</p>
+          </div>
+          <div>
+            <Label htmlFor="disposition-cost">Cost per unit</Label>
+            <Input
+              id="disposition-cost"
+              type="number"
+              min={0}
+              step="0.01"
+              inputMode="decimal"
+              placeholder="Optional"
+              className="mt-2"
+              value={unitCost}
+              onChange={(e) => setUnitCost(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="disposition-notes">Notes</Label>
+        <Textarea
+          id="disposition-notes"
+          className="mt-2"
+          placeholder="Optional, e.g. credit memo number"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Items with nothing left leave the list. Their details, history and this record are kept.
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center space-x-3">
+        <Button type="button" variant="outline" className="flex-1" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="button" className="flex-1" onClick={handleSave} disabled={isSaving || records.length === 0 || (single !== null && totalUnits < minimum)}>
+          <PackageMinus className="h-4 w-4 mr-2" />
+          {isSaving ? "Saving..." : `Remove ${removedLabel}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
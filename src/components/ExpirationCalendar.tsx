@@ -0,0 +1,225 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { addDays, addWeeks, format, isSameDay, isToday, startOfMonth, startOfWeek } from "date-fns";
+import type { DayButtonProps } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { STATUS_COLORS } from "@/lib/status";
+import type { ExpirationRecord, StatusColor, StatusRules } from "@/types";
+
+type CalendarView = "month" | "week";
+
+interface DaySummary {
+  records: ExpirationRecord[];
+  /** Color of the most urgent record that day. */
+  color: StatusColor;
+}
+
+interface ExpirationCalendarProps {
+  records: ExpirationRecord[];
+  statusRules: StatusRules;
+  /** Renders one record in the list under the calendar. */
+  renderRecord: (record: ExpirationRecord) => ReactNode;
+}
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Lets the day buttons inside DayPicker read the summaries without being
+// recreated on every render.
+const DaySummariesContext = createContext<Map<string, DaySummary>>(new Map());
+
+// Month or week calendar of expiration dates. Each day shows how many records
+// expire on it, colored by the most urgent status; tapping a day lists them.
+export default function ExpirationCalendar({ records, statusRules, renderRecord }: ExpirationCalendarProps) {
+  const [view, setView] = useState<CalendarView>("month");
+  const [selected, setSelected] = useState(() => new Date());
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+
+  const summaries = useMemo(() => {
+    const urgency = (record: ExpirationRecord) => {
+      const index = statusRules.bands.findIndex((band) => band.id === record.status);
+      return index === -1 ? statusRules.bands.length : index;
+    };
+    const byDay = new Map<string, DaySummary>();
+    for (const record of records) {
+      const key = dayKey(record.expirationDate);
+      const summary = byDay.get(key) ?? { records: [], color: record.statusBand.color };
+      summary.records.push(record);
+      byDay.set(key, summary);
+    }
+    for (const summary of byDay.values()) {
+      summary.records.sort((a, b) => urgency(a) - urgency(b) || a.itemName.localeCompare(b.itemName));
+      summary.color = summary.records[0].statusBand.color;
+    }
+    return byDay;
+  }, [records, statusRules]);
+
+  const changeView = (next: CalendarView) => {
+    setView(next);
+    if (next === "month") setMonth(startOfMonth(selected));
+    else setWeekStart(startOfWeek(selected));
+  };
+
+  const weekDays = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const selectedRecords = summaries.get(dayKey(selected))?.records ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant={view === "month" ? "default" : "outline"} size="sm" onClick={() => changeView("month")}>
+          Month
+        </Button>
+        <Button variant={view === "week" ? "default" : "outline"} size="sm" onClick={() => changeView("week")}>
+          Week
+        </Button>
+      </div>
+
+      <div className="rounded-lg border bg-white">
+        {view === "month" ? (
+          <DaySummariesContext.Provider value={summaries}>
+            <Calendar
+              mode="single"
+              required
+              selected={selected}
+              onSelect={setSelected}
+              month={month}
+              onMonthChange={setMonth}
+              className="p-3"
+              classNames={{
+                root: "w-full",
+                months: "relative",
+                month: "flex flex-col gap-3",
+                month_caption: "flex h-7 items-center",
+                caption_label: "text-sm font-medium",
+                nav: "absolute right-0 top-0",
+                month_grid: "w-full border-collapse",
+                weekdays: "flex",
+                weekday: "flex-1 text-[0.8rem] font-normal text-muted-foreground",
+                week: "flex w-full mt-1",
+                day: "flex-1 p-0.5",
+              }}
+              components={{ DayButton: ExpirationDayButton }}
+            />
+          </DaySummariesContext.Provider>
+        ) : (
+          <div className="p-3 space-y-3">
+            <div className="flex h-7 items-center justify-between">
+              <span className="text-sm font-medium">
+                {format(weekStart, "d MMM")} – {format(addDays(weekStart, 6), "d MMM yyyy")}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => setWeekStart((start) => addWeeks(start, -1))}
+                  className="size-7 bg-transparent p-0 opacity-50 hover:opacity-100"
+                  aria-label="Previous week"
+                >
+                  <ChevronLeft className="size-4 mx-auto" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setWeekStart((start) => addWeeks(start, 1))}
+                  className="size-7 bg-transparent p-0 opacity-50 hover:opacity-100"
+                  aria-label="Next week"
+                >
+                  <ChevronRight className="size-4 mx-auto" />
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {weekDays.map((date) => (
+                <div key={dayKey(date)} className="space-y-1 text-center">
+                  <p className="text-[0.8rem] text-muted-foreground">{format(date, "EEE")}</p>
+                  <DayCell
+                    date={date}
+                    summary={summaries.get(dayKey(date))}
+                    selected={isSameDay(date, selected)}
+                    today={isToday(date)}
+                    onClick={() => setSelected(date)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <h2 className="pt-2 text-sm font-semibold text-gray-700">
+        {format(selected, "EEEE d MMMM yyyy")}
+        <span className="font-normal text-gray-500"> ({selectedRecords.length})</span>
+      </h2>
+      {selectedRecords.length === 0 ? (
+        <p className="text-sm text-gray-600 text-center py-6">Nothing expires on this day.</p>
+      ) : (
+        selectedRecords.map(renderRecord)
+      )}
+    </div>
+  );
+}
+
+// DayPicker's day button, drawn as a DayCell with that day's summary.
+function ExpirationDayButton({ day, modifiers, ...buttonProps }: DayButtonProps) {
+  const summaries = useContext(DaySummariesContext);
+  const ref = useRef<HTMLButtonElement>(null);
+
+  // Keep keyboard navigation working like DayPicker's own day button.
+  useEffect(() => {
+    if (modifiers.focused) ref.current?.focus();
+  }, [modifiers.focused]);
+
+  return (
+    <DayCell
+      {...buttonProps}
+      ref={ref}
+      date={day.date}
+      summary={summaries.get(dayKey(day.date))}
+      selected={Boolean(modifiers.selected)}
+      today={Boolean(modifiers.today)}
+      outside={Boolean(modifiers.outside)}
+    />
+  );
+}
+
+// One day: its date and a count of records expiring on it, colored by status.
+function DayCell({
+  date,
+  summary,
+  selected,
+  today,
+  outside = false,
+  ref,
+  ...buttonProps
+}: {
+  date: Date;
+  summary: DaySummary | undefined;
+  selected: boolean;
+  today: boolean;
+  outside?: boolean;
+  ref?: React.Ref<HTMLButtonElement>;
+} & React.ButtonHTMLAttributes<HTMLButtonElement>) {
+  const count = summary?.records.length ?? 0;
+
+  return (
+    <button
+      type="button"
+      {...buttonProps}
+      ref={ref}
+      aria-label={`${format(date, "d MMMM yyyy")}${count > 0 ? `, ${count} expiring` : ""}`}
+      className={`flex h-14 w-full flex-col items-center justify-start gap-1 rounded-md p-1 text-sm ${
+        selected ? "bg-primary text-primary-foreground" : "hover:bg-accent"
+      } ${today && !selected ? "font-bold text-blue-600" : ""} ${outside ? "opacity-50" : ""}`}
+    >
+      <span>{format(date, "d")}</span>
+      {summary && (
+        <span
+          className={`min-w-5 rounded-full border px-1 text-[10px] font-medium leading-4 ${STATUS_COLORS[summary.color].badge}`}
+        >
+          {count}
+        </span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Camera, ImageUp, Loader2, ScanText } from "lucide-react";
+import { recognizeExpiryDate, type ExpiryDateCandidate } from "@/lib/expiryOcr";
+
+interface ExpiryDateReaderProps {
+  /** Called with YYYY-MM-DD once the user confirms a date. */
+  onConfirm: (date: string) => void;
+}
+
+// Share of the frame inside the guide box; only that part is sent to OCR.
+const CROP_WIDTH = 0.8;
+const CROP_HEIGHT = 0.35;
+
+export default function ExpiryDateReader({ onConfirm }: ExpiryDateReaderProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [open, setOpen] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [ocrError, setOcrError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [candidates, setCandidates] = useState<ExpiryDateCandidate[] | null>(null);
+  const [recognizedText, setRecognizedText] = useState("");
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  const startCamera = async () => {
+    setCameraError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" },
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
+    } catch (err) {
+      console.error(err);
+      setCameraError("Camera unavailable. You can pick a photo instead.");
+    }
+  };
+
+  useEffect(() => {
+    if (open && candidates === null) {
+      void startCamera();
+    }
+    return stopCamera;
+  }, [open, candidates]);
+
+  const runOcr = async (image: HTMLCanvasElement | Blob) => {
+    setIsReading(true);
+    setOcrError(null);
+    try {
+      const result = await recognizeExpiryDate(image);
+      stopCamera();
+      setRecognizedText(result.text.trim());
+      setCandidates(result.candidates);
+    } catch {
+      setOcrError("Could not read the image. Please try again.");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const captureFrame = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const width = Math.round(video.videoWidth * CROP_WIDTH);
+    const height = Math.round(video.videoHeight * CROP_HEIGHT);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(
+      video,
+      (video.videoWidth - width) / 2,
+      (video.videoHeight - height) / 2,
+      width,
+      height,
+      0,
+      0,
+      width,
+      height
+    );
+    void runOcr(canvas);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      stopCamera();
+      setCandidates(null);
+      setRecognizedText("");
+      setCameraError(null);
+      setOcrError(null);
+    }
+  };
+
+  const handleConfirm = (date: string) => {
+    onConfirm(date);
+    handleOpenChange(false);
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="mt-2"
+        onClick={() => setOpen(true)}
+      >
+        <ScanText className="h-4 w-4 mr-2" />
+        Read date from package
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Read Expiration Date</DialogTitle>
+            <DialogDescription>
+              Fill the box with the printed date. Text is read on this device.
+            </DialogDescription>
+          </DialogHeader>
+
+          {candidates === null ? (
+            <div className="space-y-3">
+              <div className="relative overflow-hidden rounded-lg bg-black">
+                <video
+                  ref={videoRef}
+                  className="w-full h-56 object-cover"
+                  autoPlay
+                  muted
+                  playsInline
+                />
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <div className="w-4/5 h-[35%] rounded border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]" />
+                </div>
+              </div>
+
+              {cameraError && <p className="text-sm text-red-600">{cameraError}</p>}
+              {ocrError && <p className="text-sm text-red-600">{ocrError}</p>}
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  onClick={captureFrame}
+                  disabled={isReading || !!cameraError}
+                >
+                  {isReading ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Camera className="h-4 w-4 mr-2" />
+                  )}
+                  {isReading ? "Reading..." : "Capture"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isReading}
+                >
+                  <ImageUp className="h-4 w-4 mr-2" />
+                  Pick Photo
+                </Button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void runOcr(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {candidates.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No date found. Try again closer, with the date filling the box.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600">Tap the correct date to use it:</p>
+                  {candidates.map((candidate) => (
+                    <button
+                      key={candidate.date}
+                      type="button"
+                      className="w-full text-left px-3 py-2 border rounded hover:bg-gray-100"
+                      onClick={() => handleConfirm(candidate.date)}
+                    >
+                      <span className="font-medium">
+                        {format(new Date(`${candidate.date}T00:00:00`), "d MMM yyyy")}
+                      </span>
+                      <span className="block text-xs text-gray-500">
+                        Read from &quot;{candidate.source}&quot;
+                        {candidate.labelled ? "" : " · no expiry label nearby"}
+                        {candidate.ambiguous ? " · day and month may be swapped" : ""}
+                      </span>
+                    </button>
+                  ))}
+                </>
+              )}
+
+              {recognizedText && (
+                <details className="text-xs text-gray-500">
+                  <summary>Recognized text</summary>
+                  <pre className="whitespace-pre-wrap mt-1">{recognizedText}</pre>
+                </details>
+              )}
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setCandidates(null)}
+              >
+                Try Again
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
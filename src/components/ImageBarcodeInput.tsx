@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ImageUp, Loader2 } from "lucide-react";
+import { decodeBarcodesFromImage, type ImageScanResult } from "@/lib/imageDecode";
+import type { BarcodeSymbology } from "@/types";
+
+interface ImageBarcodeInputProps {
+  enabledSymbologies: BarcodeSymbology[];
+  onDecoded: (results: ImageScanResult[]) => void;
+}
+
+// Pick, drop or paste a photo and decode the barcodes in it. Used when the
+// camera is unavailable or the light is too poor for live scanning.
+export default function ImageBarcodeInput({
+  enabledSymbologies,
+  onDecoded,
+}: ImageBarcodeInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const decodeImage = async (image: Blob) => {
+    if (!image.type.startsWith("image/")) {
+      setError("Please choose an image file.");
+      return;
+    }
+
+    setIsDecoding(true);
+    setError(null);
+    try {
+      const results = await decodeBarcodesFromImage(image, enabledSymbologies);
+      if (results.length === 0) {
+        setError("No barcode found in this image. Try a sharper, closer photo.");
+        return;
+      }
+      onDecoded(results);
+    } catch (err) {
+      console.error(err);
+      setError("Could not read this image.");
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  // Pasting a screenshot anywhere on the page decodes it; text pastes are
+  // left to the focused field.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const item = Array.from(e.clipboardData?.items ?? []).find((entry) =>
+        entry.type.startsWith("image/")
+      );
+      const file = item?.getAsFile();
+      if (!file) return;
+      e.preventDefault();
+      void decodeImage(file);
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabledSymbologies]);
+
+  return (
+    <div
+      className={`border-2 border-dashed rounded-lg p-4 text-center text-sm transition-colors ${
+        isDragging ? "border-blue-500 bg-blue-50" : "border-gray-300"
+      }`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) void decodeImage(file);
+      }}
+    >
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void decodeImage(file);
+          e.target.value = "";
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isDecoding}
+      >
+        {isDecoding ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <ImageUp className="h-4 w-4 mr-2" />
+        )}
+        {isDecoding ? "Reading image..." : "Scan from Photo"}
+      </Button>
+      <p className="text-xs text-gray-500 mt-2">
+        Or drop an image here, or paste a screenshot
+      </p>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, BookmarkPlus, FileSpreadsheet, Trash2 } from "lucide-react";
+import { importPresetsService, settingsService } from "@/lib/db";
+import { DATE_ORDERS, detectDateOrder, getDeviceDateOrder, type DateOrderSetting } from "@/lib/dateParsing";
+import { DEFAULT_IMPORT_DUPLICATES, DUPLICATE_KEY_FIELDS, getDuplicateStrategies } from "@/lib/importDuplicates";
+import {
+  applyMapping,
+  applyPreset,
+  createInitialMapping,
+  getImportColumns,
+  getImportFields,
+  getFieldValues,
+  getImportSheet,
+  getMissingFields,
+  guessMapping,
+  presetFitsWorkbook,
+  type ImportWorkbook,
+} from "@/lib/importMapping";
+import type {
+  DuplicateKeyField,
+  DuplicateOptions,
+  DuplicateStrategy,
+  ImportDuplicateSettings,
+  ImportField,
+  ImportKind,
+  ImportMapping,
+  ImportPreset,
+} from "@/types";
+
+// Radix Select does not allow an empty-string item value.
+const SKIP_COLUMN = "__skip__";
+const NO_PRESET = "__none__";
+
+interface ImportMappingWizardProps {
+  kind: ImportKind;
+  workbook: ImportWorkbook;
+  /** Mapping to start from, e.g. when returning from the preview. */
+  initialMapping?: ImportMapping;
+  isImporting?: boolean;
+  confirmLabel?: string;
+  onCancel: () => void;
+  onConfirm: (mapping: ImportMapping, duplicates: DuplicateOptions) => void;
+}
+
+// Lets the user check which column feeds which field before anything is
+// imported. A saved preset that fits the file is applied automatically.
+export default function ImportMappingWizard({
+  kind,
+  workbook,
+  initialMapping,
+  isImporting = false,
+  confirmLabel = "Import",
+  onCancel,
+  onConfirm,
+}: ImportMappingWizardProps) {
+  const [mapping, setMapping] = useState<ImportMapping>(
+    () => initialMapping ?? createInitialMapping(workbook, kind)
+  );
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [presetId, setPresetId] = useState(NO_PRESET);
+  const [presetName, setPresetName] = useState("");
+  const [presetMessage, setPresetMessage] = useState("");
+  const [duplicateSettings, setDuplicateSettings] = useState<ImportDuplicateSettings>(DEFAULT_IMPORT_DUPLICATES);
+
+  useEffect(() => {
+    settingsService.getImportDuplicates().then(setDuplicateSettings);
+  }, []);
+
+  useEffect(() => {
+    importPresetsService.getAll(kind).then((loaded) => {
+      setPresets(loaded);
+      if (initialMapping) return;
+      const fitting = loaded.find((preset) => presetFitsWorkbook(preset, workbook));
+      if (fitting) {
+        setMapping(applyPreset(fitting, workbook));
+        setPresetId(fitting.id);
+        setPresetName(fitting.name);
+      }
+    });
+    // Only when a file is opened; a returning mapping keeps the user's edits.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [kind, workbook]);
+
+  const sheet = getImportSheet(workbook, mapping.sheetName);
+  const columns = getImportColumns(sheet, mapping.headerRow);
+  const fields = getImportFields(kind);
+  const missing = getMissingFields(mapping, kind);
+  const mapsDates = Object.values(mapping.columns).some(
+    (field) => field === "expirationDate" || field === "dateCreated"
+  );
+  const detectedDateOrder = useMemo(
+    () =>
+      mapsDates
+        ? detectDateOrder(getFieldValues(applyMapping(workbook, mapping), ["expirationDate", "dateCreated"]))
+        : null,
+    [mapsDates, workbook, mapping]
+  );
+  const dateOrderLabel = (order: string) => DATE_ORDERS.find((info) => info.id === order)?.label;
+  const duplicates = duplicateSettings[kind];
+
+  const updateDuplicates = (updates: Partial<DuplicateOptions>) => {
+    setDuplicateSettings((prev) => ({ ...prev, [kind]: { ...prev[kind], ...updates } }));
+  };
+
+  const toggleKeyField = (field: DuplicateKeyField) => {
+    const keyFields = duplicates.keyFields.includes(field)
+      ? duplicates.keyFields.filter((entry) => entry !== field)
+      : DUPLICATE_KEY_FIELDS.map((info) => info.id).filter(
+          (id) => id === field || duplicates.keyFields.includes(id)
+        );
+    if (keyFields.length > 0) updateDuplicates({ keyFields });
+  };
+
+  const handleConfirm = () => {
+    // The last choice is kept for the next import.
+    settingsService.updateImportDuplicates(duplicateSettings).catch(() => {});
+    onConfirm(mapping, duplicates);
+  };
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    setPresetMessage("");
+    const preset = presets.find((entry) => entry.id === id);
+    if (preset) {
+      setMapping(applyPreset(preset, workbook));
+      setPresetName(preset.name);
+    } else {
+      setMapping(createInitialMapping(workbook, kind));
+      setPresetName("");
+    }
+  };
+
+  const handleSheetChange = (sheetName: string) => {
+    setMapping(createInitialMapping(workbook, kind, sheetName));
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    const headerRow = Math.min(Math.max(1, Math.round(Number(value)) || 1), Math.max(1, sheet.rows.length));
+    setMapping((prev) => ({
+      ...prev,
+      headerRow,
+      columns: guessMapping(getImportColumns(sheet, headerRow), kind),
+    }));
+  };
+
+  // A field comes from one column only; choosing it again moves it.
+  const handleFieldChange = (header: string, value: string) => {
+    setMapping((prev) => {
+      const next: Record<string, ImportField> = {};
+      for (const [key, field] of Object.entries(prev.columns)) {
+        if (key !== header && field !== value) next[key] = field;
+      }
+      if (value !== SKIP_COLUMN) next[header] = value as ImportField;
+      return { ...prev, columns: next };
+    });
+  };
+
+  const handleSavePreset = async () => {
+    try {
+      const saved = await importPresetsService.save({ name: presetName, kind, mapping });
+      setPresets(await importPresetsService.getAll(kind));
+      setPresetId(saved.id);
+      setPresetMessage(`Saved "${saved.name}"`);
+    } catch (error) {
+      setPresetMessage(error instanceof Error ? error.message : "Failed to save preset");
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find((entry) => entry.id === presetId);
+    if (!preset || !confirm(`Delete the preset "${preset.name}"?`)) return;
+    await importPresetsService.delete(preset.id);
+    setPresets((prev) => prev.filter((entry) => entry.id !== preset.id));
+    setPresetId(NO_PRESET);
+    setPresetMessage("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2 text-sm text-gray-700">
+        <FileSpreadsheet className="h-4 w-4 flex-shrink-0" />
+        <span className="font-medium truncate">{workbook.fileName}</span>
+      </div>
+
+      {presets.length > 0 && (
+        <div>
+          <Label>Preset</Label>
+          <div className="flex items-center gap-2 mt-1">
+            <Select value={presetId} onValueChange={handlePresetChange}>
+              <SelectTrigger className="flex-1 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PRESET}>No preset (detect columns)</SelectItem>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {presetId !== NO_PRESET && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                onClick={handleDeletePreset}
+                aria-label="Delete preset"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {workbook.sheets.length > 1 && (
+          <div>
+            <Label>Sheet</Label>
+            <Select value={sheet.name} onValueChange={handleSheetChange}>
+              <SelectTrigger className="w-full mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workbook.sheets.map((entry) => (
+                  <SelectItem key={entry.name} value={entry.name}>
+                    {entry.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div>
+          <Label htmlFor="header-row">Header row</Label>
+          <Input
+            id="header-row"
+            type="number"
+            min={1}
+            max={sheet.rows.length}
+            className="mt-1"
+            value={mapping.headerRow}
+            onChange={(e) => handleHeaderRowChange(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Columns</Label>
+        {columns.length === 0 ? (
+          <p className="text-sm text-gray-600">No columns found in this row. Try another header row.</p>
+        ) : (
+          columns.map((column) => (
+            <div key={column.header} className="flex items-center gap-3 p-2 border rounded bg-gray-50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{column.header}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {column.samples.length ? column.samples.join(" · ") : "No values"}
+                </p>
+              </div>
+              <Select
+                value={mapping.columns[column.header] ?? SKIP_COLUMN}
+                onValueChange={(value) => handleFieldChange(column.header, value)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SKIP_COLUMN}>Don&apos;t import</SelectItem>
+                  {fields.map((field) => (
+                    <SelectItem key={field.id} value={field.id}>
+                      {field.label}
+                      {field.kinds[kind]?.required ? " *" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))
+        )}
+      </div>
+
+      {missing.length > 0 && (
+        <div className="flex items-start space-x-2 p-3 rounded border bg-amber-50 border-amber-200">
+          <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-800">
+            Choose a column for: {missing.map((field) => field.label).join(", ")}
+          </p>
+        </div>
+      )}
+
+      {mapsDates && (
+        <div>
+          <Label>Date format</Label>
+          <Select
+            value={mapping.dateOrder ?? "auto"}
+            onValueChange={(value) =>
+              setMapping((prev) => ({ ...prev, dateOrder: value as DateOrderSetting }))
+            }
+          >
+            <SelectTrigger className="w-full mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">
+                {detectedDateOrder
+                  ? `Detect (this file: ${dateOrderLabel(detectedDateOrder)})`
+                  : `Detect (unclear, using ${dateOrderLabel(getDeviceDateOrder())})`}
+              </SelectItem>
+              {DATE_ORDERS.map((order) => (
+                <SelectItem key={order.id} value={order.id}>
+                  {order.label} ({order.example})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-600 mt-1">
+            Dates with only a month and year, like 03/2027, count as the end of that month.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Duplicates</Label>
+        {kind === "records" ? (
+          <>
+            <p className="text-xs text-gray-600">
+              A row is the same item as a stored record, or an earlier row, when all of these match:
+            </p>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {DUPLICATE_KEY_FIELDS.map((field) => (
+                <div key={field.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`duplicate-key-${field.id}`}
+                    checked={duplicates.keyFields.includes(field.id)}
+                    onCheckedChange={() => toggleKeyField(field.id)}
+                  />
+                  <Label htmlFor={`duplicate-key-${field.id}`} className="text-sm font-normal">
+                    {field.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-gray-600">
+            Products are the same when their barcodes match, in this file or in the database.
+          </p>
+        )}
+        <Select
+          value={duplicates.strategy}
+          onValueChange={(value) => updateDuplicates({ strategy: value as DuplicateStrategy })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getDuplicateStrategies(kind).map((strategy) => (
+              <SelectItem key={strategy.id} value={strategy.id}>
+                {strategy.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-600">
+          {getDuplicateStrategies(kind).find((strategy) => strategy.id === duplicates.strategy)?.description}
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor="preset-name">Save as preset</Label>
+        <div className="flex items-center gap-2 mt-1">
+          <Input
+            id="preset-name"
+            placeholder="e.g. Supplier A weekly file"
+            value={presetName}
+            onChange={(e) => {
+              setPresetName(e.target.value);
+              setPresetMessage("");
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+          >
+            <BookmarkPlus className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </div>
+        {presetMessage && <p className="text-xs text-gray-600 mt-1">{presetMessage}</p>}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isImporting}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          className="flex-1"
+          onClick={handleConfirm}
+          disabled={isImporting || missing.length > 0}
+        >
+          {isImporting ? "Importing..." : confirmLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
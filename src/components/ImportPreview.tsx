@@ -0,0 +1,329 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, ArrowLeft, Pencil } from "lucide-react";
+import { DUPLICATE_KEY_FIELDS, DUPLICATE_STRATEGIES } from "@/lib/importDuplicates";
+import {
+  classifyImportRows,
+  isRowIncluded,
+  type ImportDraft,
+  type ImportDraftRow,
+  type ImportPreviewRow,
+  type ImportRowStatus,
+} from "@/lib/importExport";
+import type { DuplicateOptions, ExpirationRecord, StorageLocation } from "@/types";
+
+const PAGE_SIZE = 50;
+
+const STATUS_INFO: Record<ImportRowStatus, { label: string; badge: string; reason: string }> = {
+  new: { label: "New", badge: "bg-green-100 text-green-800 border-green-200", reason: "text-green-700" },
+  updated: { label: "Updated", badge: "bg-blue-100 text-blue-800 border-blue-200", reason: "text-blue-700" },
+  duplicate: { label: "Duplicate", badge: "bg-gray-100 text-gray-700 border-gray-200", reason: "text-gray-600" },
+  invalid: { label: "Invalid", badge: "bg-red-100 text-red-800 border-red-200", reason: "text-red-700" },
+};
+
+const STATUS_ORDER: ImportRowStatus[] = ["new", "updated", "duplicate", "invalid"];
+
+const EDIT_FIELDS: { id: keyof ImportDraft; label: string; type?: string }[] = [
+  { id: "itemName", label: "Item Name" },
+  { id: "barcode", label: "Barcode" },
+  { id: "expirationDate", label: "Expiration Date", type: "date" },
+  { id: "quantity", label: "Quantity", type: "number" },
+  { id: "lotNumber", label: "Lot Number" },
+  { id: "location", label: "Location" },
+  { id: "aisle", label: "Aisle" },
+  { id: "description", label: "Description" },
+  { id: "notes", label: "Notes" },
+  { id: "dateCreated", label: "Date Created", type: "date" },
+];
+
+interface ImportPreviewProps {
+  rows: ImportDraftRow[];
+  records: ExpirationRecord[];
+  locations: StorageLocation[];
+  duplicates: DuplicateOptions;
+  isImporting?: boolean;
+  onBack: () => void;
+  onConfirm: (included: ImportPreviewRow[], skipped: ImportPreviewRow[]) => void;
+}
+
+// Every parsed row with what importing it would do. New and updated rows are
+// ticked to start with; editing a row, or ticking one above it, sorts it again.
+export default function ImportPreview({
+  rows: initialRows,
+  records,
+  locations,
+  duplicates,
+  isImporting = false,
+  onBack,
+  onConfirm,
+}: ImportPreviewProps) {
+  const [rows, setRows] = useState(initialRows);
+  const [overrides, setOverrides] = useState<Map<number, boolean>>(new Map());
+  const [filter, setFilter] = useState<ImportRowStatus | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+
+  const preview = useMemo(
+    () => classifyImportRows(rows, records, locations, duplicates, overrides),
+    [rows, records, locations, duplicates, overrides]
+  );
+
+  const isIncluded = (row: ImportPreviewRow): boolean => isRowIncluded(row, overrides);
+
+  const strategy = DUPLICATE_STRATEGIES.find((info) => info.id === duplicates.strategy);
+  const keyLabels = DUPLICATE_KEY_FIELDS.filter((field) => duplicates.keyFields.includes(field.id))
+    .map((field) => field.label.toLowerCase())
+    .join(", ");
+
+  const counts = STATUS_ORDER.map((status) => ({
+    status,
+    count: preview.filter((row) => row.status === status).length,
+  }));
+  const shown = filter ? preview.filter((row) => row.status === filter) : preview;
+  const includedCount = preview.filter(isIncluded).length;
+  const warningCount = preview.filter((row) => row.warnings.length > 0).length;
+
+  const toggleRow = (row: ImportPreviewRow) => {
+    setOverrides((prev) => new Map(prev).set(row.rowNumber, !isIncluded(row)));
+  };
+
+  const setShownIncluded = (include: boolean) => {
+    setOverrides((prev) => {
+      const next = new Map(prev);
+      shown.forEach((row) => next.set(row.rowNumber, include));
+      return next;
+    });
+  };
+
+  const handleSaveEdit = (rowNumber: number, draft: ImportDraft) => {
+    // Edited dates come from the date picker, so earlier date warnings no longer apply.
+    setRows((prev) =>
+      prev.map((row) => (row.rowNumber === rowNumber ? { ...row, draft, warnings: [] } : row))
+    );
+    // The row may change status, so it starts again from its new default.
+    setOverrides((prev) => {
+      const next = new Map(prev);
+      next.delete(rowNumber);
+      return next;
+    });
+    setEditingRow(null);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(
+      preview.filter(isIncluded),
+      preview.filter((row) => !isIncluded(row))
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-600">
+        Duplicates: {strategy?.label}, matched on {keyLabels}.
+      </p>
+
+      {warningCount > 0 && (
+        <div className="flex items-start space-x-2 p-3 rounded border bg-amber-50 border-amber-200">
+          <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-800">
+            {warningCount} row{warningCount === 1 ? " has dates" : "s have dates"} worth checking. If day and
+            month are swapped, go back to Columns and choose the date format.
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={filter === null ? "default" : "outline"}
+          onClick={() => {
+            setFilter(null);
+            setVisibleCount(PAGE_SIZE);
+          }}
+        >
+          All ({preview.length})
+        </Button>
+        {counts.map(({ status, count }) => (
+          <Button
+            key={status}
+            type="button"
+            size="sm"
+            variant={filter === status ? "default" : "outline"}
+            disabled={count === 0}
+            onClick={() => {
+              setFilter(status);
+              setVisibleCount(PAGE_SIZE);
+            }}
+          >
+            {STATUS_INFO[status].label} ({count})
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {includedCount} of {preview.length} rows will be imported
+        </span>
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={() => setShownIncluded(true)}>
+            Select shown
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setShownIncluded(false)}>
+            Clear shown
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {shown.length === 0 && (
+          <p className="text-sm text-gray-600 text-center py-6">No rows to show.</p>
+        )}
+        {shown.slice(0, visibleCount).map((row) =>
+          editingRow === row.rowNumber ? (
+            <RowEditor
+              key={row.rowNumber}
+              row={row}
+              onCancel={() => setEditingRow(null)}
+              onSave={(draft) => handleSaveEdit(row.rowNumber, draft)}
+            />
+          ) : (
+            <div key={row.rowNumber} className="flex items-start gap-3 p-3 border rounded bg-white">
+              <Checkbox
+                className="mt-1"
+                checked={isIncluded(row)}
+                disabled={row.status === "invalid"}
+                onCheckedChange={() => toggleRow(row)}
+                aria-label={`Import row ${row.rowNumber}`}
+              />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={STATUS_INFO[row.status].badge}>
+                    {STATUS_INFO[row.status].label}
+                  </Badge>
+                  <span className="text-xs text-gray-500">Row {row.rowNumber}</span>
+                </div>
+                <p className="font-medium truncate">{row.draft.itemName || "No item name"}</p>
+                <p className="text-xs text-gray-600 truncate">
+                  {[
+                    row.draft.barcode,
+                    row.draft.quantity && `Qty ${row.draft.quantity}`,
+                    row.draft.expirationDate && `Exp ${formatDay(row.draft.expirationDate)}`,
+                    row.draft.lotNumber && `Lot ${row.draft.lotNumber}`,
+                    row.draft.location,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+                <p className={`text-xs ${STATUS_INFO[row.status].reason}`}>{row.reason}</p>
+                {row.warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-amber-700">
+                    {warning}
+                  </p>
+                ))}
+                {row.changes.length > 0 && (
+                  <ul className="text-xs text-gray-700 space-y-0.5">
+                    {row.changes.map((change) => (
+                      <li key={change.label}>
+                        {change.label}: <span className="line-through text-gray-500">{change.from || "empty"}</span>{" "}
+                        → {change.to}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditingRow(row.rowNumber)}
+                disabled={isImporting}
+                aria-label={`Edit row ${row.rowNumber}`}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            </div>
+          )
+        )}
+        {shown.length > visibleCount && (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+          >
+            Show more ({shown.length - visibleCount} left)
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Button type="button" variant="outline" className="flex-1" onClick={onBack} disabled={isImporting}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Columns
+        </Button>
+        <Button
+          type="button"
+          className="flex-1"
+          onClick={handleConfirm}
+          disabled={isImporting || includedCount === 0 || editingRow !== null}
+        >
+          {isImporting ? "Importing..." : `Import ${includedCount} row${includedCount === 1 ? "" : "s"}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const formatDay = (value: string): string =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? format(parseISO(value), "d MMM yyyy") : value;
+
+// Row Editor Component
+function RowEditor({
+  row,
+  onCancel,
+  onSave,
+}: {
+  row: ImportPreviewRow;
+  onCancel: () => void;
+  onSave: (draft: ImportDraft) => void;
+}) {
+  const [draft, setDraft] = useState<ImportDraft>(row.draft);
+
+  return (
+    <div className="p-3 border rounded bg-gray-50 space-y-3">
+      <p className="text-xs text-gray-500">Row {row.rowNumber}</p>
+      <div className="grid grid-cols-2 gap-3">
+        {EDIT_FIELDS.map((field) => (
+          <div key={field.id}>
+            <Label htmlFor={`row-${row.rowNumber}-${field.id}`} className="text-xs">
+              {field.label}
+            </Label>
+            <Input
+              id={`row-${row.rowNumber}-${field.id}`}
+              type={field.type ?? "text"}
+              className="mt-1"
+              value={draft[field.id]}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [field.id]: e.target.value }))}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" onClick={() => onSave(draft)}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MapPin, Plus, X } from "lucide-react";
+import { locationsService } from "@/lib/db";
+import type { StorageLocation } from "@/types";
+
+// Radix Select does not allow an empty-string item value.
+const NO_LOCATION = "__none__";
+
+interface LocationPickerProps {
+  locationId: string;
+  aisle: string;
+  onLocationChange: (locationId: string) => void;
+  onAisleChange: (aisle: string) => void;
+}
+
+export default function LocationPicker({
+  locationId,
+  aisle,
+  onLocationChange,
+  onAisleChange,
+}: LocationPickerProps) {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    locationsService.getAll().then(setLocations);
+  }, []);
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const duplicate = locations.find(
+      (location) => location.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      onLocationChange(duplicate.id);
+      setIsAdding(false);
+      setNewName("");
+      return;
+    }
+
+    try {
+      const created = await locationsService.create(name);
+      setLocations((prev) => [...prev, created]);
+      onLocationChange(created.id);
+      setIsAdding(false);
+      setNewName("");
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to add location.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="flex items-center gap-1">
+          <MapPin className="h-4 w-4" />
+          Location
+        </Label>
+        {isAdding ? (
+          <div className="flex items-center gap-2 mt-2">
+            <Input
+              autoFocus
+              placeholder="e.g., Dairy Cooler"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  void handleAdd();
+                }
+              }}
+            />
+            <Button type="button" size="sm" onClick={() => void handleAdd()}>
+              Add
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setIsAdding(false);
+                setNewName("");
+              }}
+              aria-label="Cancel new location"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 mt-2">
+            <Select
+              value={locationId || NO_LOCATION}
+              onValueChange={(value) =>
+                onLocationChange(value === NO_LOCATION ? "" : value)
+              }
+            >
+              <SelectTrigger className="flex-1 w-full">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LOCATION}>No location</SelectItem>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setIsAdding(true)}
+              aria-label="Add location"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+      </div>
+
+      <div>
+        <Label htmlFor="aisle">Aisle / Bay</Label>
+        <Input
+          id="aisle"
+          type="text"
+          placeholder="e.g., A3, Bay 12"
+          value={aisle}
+          onChange={(e) => onAisleChange(e.target.value)}
+          className="mt-2"
+        />
+      </div>
+    </div>
+  );
+}
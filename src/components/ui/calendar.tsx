@@ -7,9 +7,9 @@ import { DayPicker, NavProps } from "react-day-picker"
 import { cn } from "@/lib/utils"
 import { buttonVariants } from "@/components/ui/button"
 
-function CustomNav({ nextMonth, previousMonth, onNextClick, onPreviousClick }: NavProps) {
+function CustomNav({ className, nextMonth, previousMonth, onNextClick, onPreviousClick }: NavProps) {
   return (
-    <div className="flex items-center gap-1">
+    <div className={cn("flex items-center gap-1", className)}>
       <button
         type="button"
         onClick={(e) => onPreviousClick?.(e)}
@@ -34,6 +34,7 @@ function Calendar({
   className,
   classNames,
   showOutsideDays = true,
+  components,
   ...props
 }: React.ComponentProps<typeof DayPicker>) {
   return (
@@ -83,7 +84,8 @@ function Calendar({
         ...classNames,
       }}
       components={{
-        Nav: CustomNav
+        Nav: CustomNav,
+        ...components
       }}
       {...props}
     />
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// Handheld scanners in keyboard-wedge mode "type" a whole code in a few
+// milliseconds and finish with Enter; people rarely manage 50ms between keys.
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  );
+};
+
+/**
+ * Listen for codes from a keyboard-wedge barcode scanner anywhere on the page.
+ * Keystrokes aimed at a focused field are left alone so the field receives
+ * the scan as typed text instead.
+ */
+export function useScannerInput(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handler = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+
+      const now = e.timeStamp;
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (e.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+        return;
+      }
+
+      // Many scanners send the GS1 group separator (FNC1) as Ctrl+].
+      if (e.ctrlKey && e.key === "]") {
+        buffer += "\x1d";
+        return;
+      }
+
+      if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [enabled]);
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { addMonths, addWeeks, format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import type { Disposition, ExpirationRecord, StorageLocation } from '@/types';
+import { DISPOSITION_REASONS, getDispositionValue } from './dispositions';
+import { getLocationName, normalizeBarcodeForMatch } from './db';
+
+// Waste figures for the analytics screen. Waste is stock discarded through a
+// disposition, plus stock still on the shelf past its expiration date.
+// Values only come from dispositions with a unit cost, since records carry
+// no price.
+
+export type AnalyticsPeriod = 'week' | 'month';
+
+/** How many weeks or months the history charts cover, ending now. */
+export const ANALYTICS_PERIOD_COUNT = 12;
+
+export const FORECAST_WEEKS = 8;
+
+const WASTE_REASONS = new Set(DISPOSITION_REASONS.filter(reason => reason.waste).map(reason => reason.id));
+
+export const isWaste = (disposition: Disposition): boolean => WASTE_REASONS.has(disposition.reason);
+
+const periodStart = (date: Date, period: AnalyticsPeriod): Date =>
+  period === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+
+const addPeriods = (date: Date, period: AnalyticsPeriod, count: number): Date =>
+  period === 'week' ? addWeeks(date, count) : addMonths(date, count);
+
+/** Start of the oldest period the history charts show. */
+export const getRangeStart = (period: AnalyticsPeriod, now: Date = new Date()): Date =>
+  addPeriods(periodStart(now, period), period, 1 - ANALYTICS_PERIOD_COUNT);
+
+const isExpired = (record: ExpirationRecord, now: Date): boolean =>
+  record.expirationDate < startOfDay(now);
+
+export interface WastePoint {
+  label: string;
+  start: Date;
+  /** Units discarded in the period. */
+  discarded: number;
+  /** Units still on the shelf that expired in the period. */
+  expiredOnShelf: number;
+  /** Cost of the discarded units that have one. */
+  value: number;
+}
+
+/** Waste per week or month, oldest first. */
+export const getWasteSeries = (
+  dispositions: Disposition[],
+  records: ExpirationRecord[],
+  period: AnalyticsPeriod,
+  now: Date = new Date()
+): WastePoint[] => {
+  const first = getRangeStart(period, now);
+  const points: WastePoint[] = Array.from({ length: ANALYTICS_PERIOD_COUNT }, (_, index) => {
+    const start = addPeriods(first, period, index);
+    return {
+      label: format(start, period === 'week' ? 'd MMM' : 'MMM yyyy'),
+      start,
+      discarded: 0,
+      expiredOnShelf: 0,
+      value: 0
+    };
+  });
+  const pointFor = (date: Date) => {
+    const key = periodStart(date, period).getTime();
+    return points.find(point => point.start.getTime() === key);
+  };
+
+  for (const disposition of dispositions) {
+    if (!isWaste(disposition)) continue;
+    const point = pointFor(disposition.disposedAt);
+    if (!point) continue;
+    point.discarded += disposition.quantity;
+    point.value += getDispositionValue(disposition) ?? 0;
+  }
+  for (const record of records) {
+    if (!isExpired(record, now)) continue;
+    const point = pointFor(record.expirationDate);
+    if (point) point.expiredOnShelf += record.quantity;
+  }
+  return points;
+};
+
+export interface WasteTotal {
+  key: string;
+  name: string;
+  units: number;
+  /** Null when none of the units had a cost. */
+  value: number | null;
+}
+
+const addTo = (totals: Map<string, WasteTotal>, key: string, name: string, units: number, value: number | null) => {
+  const total = totals.get(key) ?? { key, name, units: 0, value: null };
+  total.units += units;
+  if (value !== null) total.value = (total.value ?? 0) + value;
+  totals.set(key, total);
+};
+
+const byUnits = (a: WasteTotal, b: WasteTotal) => b.units - a.units || a.name.localeCompare(b.name);
+
+/** Products with the most units discarded since `since`. */
+export const getTopWastedProducts = (dispositions: Disposition[], since: Date, limit = 10): WasteTotal[] => {
+  const totals = new Map<string, WasteTotal>();
+  for (const disposition of dispositions) {
+    if (!isWaste(disposition) || disposition.disposedAt < since) continue;
+    const key = normalizeBarcodeForMatch(disposition.barcode) || disposition.itemName.trim().toLowerCase();
+    addTo(totals, key, disposition.itemName, disposition.quantity, getDispositionValue(disposition));
+  }
+  return Array.from(totals.values()).sort(byUnits).slice(0, limit);
+};
+
+/** Wasted units per location since `since`, discarded and expired on the shelf together. */
+export const getWasteByLocation = (
+  dispositions: Disposition[],
+  records: ExpirationRecord[],
+  locations: StorageLocation[],
+  since: Date,
+  now: Date = new Date()
+): WasteTotal[] => {
+  const totals = new Map<string, WasteTotal>();
+  const name = (locationId: string) => getLocationName(locations, locationId) || 'No location';
+  for (const disposition of dispositions) {
+    if (!isWaste(disposition) || disposition.disposedAt < since) continue;
+    addTo(totals, disposition.locationId, name(disposition.locationId), disposition.quantity, getDispositionValue(disposition));
+  }
+  for (const record of records) {
+    if (!isExpired(record, now) || record.expirationDate < since) continue;
+    addTo(totals, record.locationId, name(record.locationId), record.quantity, null);
+  }
+  return Array.from(totals.values()).sort(byUnits);
+};
+
+/**
+ * Wasted units per product category since `since`. `categories` maps barcode
+ * match keys to categories (see productDataService.getCategoriesByBarcodes);
+ * products without one are grouped as uncategorized.
+ */
+export const getWasteByCategory = (
+  dispositions: Disposition[],
+  records: ExpirationRecord[],
+  categories: Map<string, string>,
+  since: Date,
+  now: Date = new Date()
+): WasteTotal[] => {
+  const totals = new Map<string, WasteTotal>();
+  const add = (barcode: string, units: number, value: number | null) => {
+    const category = categories.get(normalizeBarcodeForMatch(barcode)) ?? '';
+    addTo(totals, category.toLowerCase(), category || 'Uncategorized', units, value);
+  };
+  for (const disposition of dispositions) {
+    if (!isWaste(disposition) || disposition.disposedAt < since) continue;
+    add(disposition.barcode, disposition.quantity, getDispositionValue(disposition));
+  }
+  for (const record of records) {
+    if (!isExpired(record, now) || record.expirationDate < since) continue;
+    add(record.barcode, record.quantity, null);
+  }
+  return Array.from(totals.values()).sort(byUnits);
+};
+
+/** Everything removed since `since`, per disposition reason. */
+export const getRemovalsByReason = (dispositions: Disposition[], since: Date): WasteTotal[] =>
+  DISPOSITION_REASONS.map(reason => {
+    const total: WasteTotal = { key: reason.id, name: reason.label, units: 0, value: null };
+    for (const disposition of dispositions) {
+      if (disposition.reason !== reason.id || disposition.disposedAt < since) continue;
+      total.units += disposition.quantity;
+      const value = getDispositionValue(disposition);
+      if (value !== null) total.value = (total.value ?? 0) + value;
+    }
+    return total;
+  }).filter(total => total.units > 0);
+
+export interface ForecastPoint {
+  label: string;
+  units: number;
+  items: number;
+}
+
+/** Units on the shelf due to expire in each of the coming weeks, this week first. */
+export const getExpiryForecast = (records: ExpirationRecord[], now: Date = new Date()): ForecastPoint[] => {
+  const first = startOfWeek(now, { weekStartsOn: 1 });
+  const today = startOfDay(now);
+  return Array.from({ length: FORECAST_WEEKS }, (_, index) => {
+    const start = addWeeks(first, index);
+    const end = addWeeks(start, 1);
+    const due = records.filter(record =>
+      record.expirationDate >= start && record.expirationDate < end && record.expirationDate >= today
+    );
+    return {
+      label: index === 0 ? 'This week' : format(start, 'd MMM'),
+      units: due.reduce((sum, record) => sum + record.quantity, 0),
+      items: due.length
+    };
+  });
+};
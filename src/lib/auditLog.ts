@@ -0,0 +1,64 @@
+"use client";
+
+import { format } from 'date-fns';
+import type { AuditAction, AuditEntityType, AuditSource, StorageLocation } from '@/types';
+import { getLocationName } from './db';
+
+export const AUDIT_ACTIONS: { id: AuditAction; label: string }[] = [
+  { id: 'create', label: 'Added' },
+  { id: 'update', label: 'Changed' },
+  { id: 'delete', label: 'Deleted' },
+  { id: 'restore', label: 'Restored' },
+  { id: 'purge', label: 'Deleted permanently' },
+];
+
+export const AUDIT_SOURCES: { id: AuditSource; label: string }[] = [
+  { id: 'app', label: 'In app' },
+  { id: 'batch-scan', label: 'Batch scan' },
+  { id: 'import', label: 'Import' },
+  { id: 'rollback', label: 'Import rollback' },
+  { id: 'disposition', label: 'Removed with reason' },
+];
+
+export const AUDIT_ENTITY_TYPES: { id: AuditEntityType; label: string }[] = [
+  { id: 'record', label: 'Items' },
+  { id: 'product', label: 'Products' },
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  itemName: 'Item name',
+  barcode: 'Barcode',
+  description: 'Description',
+  category: 'Category',
+  quantity: 'Quantity',
+  expirationDate: 'Expiration date',
+  lotNumber: 'Lot number',
+  locationId: 'Location',
+  aisle: 'Aisle',
+  notes: 'Notes',
+  dateCreated: 'Date added',
+};
+
+export const getAuditActionLabel = (action: AuditAction): string =>
+  AUDIT_ACTIONS.find(info => info.id === action)?.label ?? action;
+
+export const getAuditSourceLabel = (source: AuditSource): string =>
+  AUDIT_SOURCES.find(info => info.id === source)?.label ?? source;
+
+export const getAuditFieldLabel = (field: string): string => FIELD_LABELS[field] ?? field;
+
+// Logged values are stored values, so dates are ISO strings and locations
+// are IDs. A location deleted since shows as such rather than a bare ID.
+export const formatAuditValue = (
+  field: string,
+  value: string | number,
+  locations: StorageLocation[]
+): string => {
+  if (value === '') return 'empty';
+  if (field === 'expirationDate' || field === 'dateCreated') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? String(value) : format(date, 'd MMM yyyy');
+  }
+  if (field === 'locationId') return getLocationName(locations, String(value)) || 'Deleted location';
+  return String(value);
+};
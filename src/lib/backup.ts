@@ -0,0 +1,251 @@
+"use client";
+
+import type { ImportPreset, StorageLocation } from '@/types';
+import { db, normalizeBarcodeForMatch, type DBDisposition, type DBExpirationRecord, type DBProductData, type DBSettings } from './db';
+import { downloadBlob } from './download';
+
+// A backup is the raw IndexedDB rows, so it round-trips every field without
+// going through the spreadsheet column mapping. Bump BACKUP_SCHEMA_VERSION
+// whenever the shape of `data` changes and teach parseBackup to read the old
+// version, or refuse it.
+export const BACKUP_FORMAT = 'expiration-tracker-backup';
+export const BACKUP_SCHEMA_VERSION = 3;
+
+export interface BackupData {
+  expirationRecords: DBExpirationRecord[];
+  productData: DBProductData[];
+  settings: DBSettings[];
+  locations: StorageLocation[];
+  /** Added in schema version 2. */
+  importPresets: ImportPreset[];
+  /** Added in schema version 3. */
+  dispositions: DBDisposition[];
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  /** Dexie version of the database the backup was taken from. */
+  databaseVersion: number;
+  createdAt: string;
+  /** SHA-256 of JSON.stringify(data), hex encoded. */
+  checksum: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupSummary {
+  createdAt: Date;
+  expirationRecords: number;
+  productData: number;
+  locations: number;
+  hasSettings: boolean;
+}
+
+export interface RestoreResult {
+  expirationRecords: number;
+  productData: number;
+  locations: number;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRowArray = (value: unknown, key: string): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.every(row => isObject(row) && typeof row[key] === 'string' && row[key] !== '');
+
+export const createBackup = async (): Promise<BackupFile> => {
+  try {
+    const data: BackupData = await db.transaction(
+      'r',
+      [db.expirationRecords, db.productData, db.settings, db.locations, db.importPresets, db.dispositions],
+      async () => ({
+        expirationRecords: await db.expirationRecords.toArray(),
+        productData: await db.productData.toArray(),
+        settings: await db.settings.toArray(),
+        locations: await db.locations.toArray(),
+        importPresets: await db.importPresets.toArray(),
+        dispositions: await db.dispositions.toArray()
+      })
+    );
+
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      databaseVersion: db.verno,
+      createdAt: new Date().toISOString(),
+      checksum: await sha256(JSON.stringify(data)),
+      data
+    };
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw error;
+  }
+};
+
+export const downloadBackup = async (): Promise<void> => {
+  const backup = await createBackup();
+  downloadBlob(
+    new Blob([JSON.stringify(backup)], { type: 'application/json' }),
+    `expiration-tracker-backup-${backup.createdAt.split('T')[0]}.json`
+  );
+};
+
+/**
+ * Read and verify a backup file. Throws with a message fit for the user when
+ * the file is not a backup, comes from a newer app version, or was altered.
+ */
+export const parseBackup = async (file: File): Promise<BackupFile> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not an Expiration Tracker backup.');
+  }
+
+  const { schemaVersion, databaseVersion, data } = parsed;
+  if (typeof schemaVersion !== 'number' || schemaVersion < 1) {
+    throw new Error('The backup has no valid schema version.');
+  }
+  if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(
+      `The backup uses format version ${schemaVersion}, but this app only reads up to version ${BACKUP_SCHEMA_VERSION}. Update the app and try again.`
+    );
+  }
+  if (typeof databaseVersion === 'number' && databaseVersion > db.verno) {
+    throw new Error('The backup was taken by a newer version of the app. Update the app and try again.');
+  }
+
+  if (
+    !isObject(data) ||
+    !isRowArray(data.expirationRecords, 'id') ||
+    !isRowArray(data.productData, 'barcode') ||
+    !isRowArray(data.settings, 'id') ||
+    !isRowArray(data.locations, 'id') ||
+    (schemaVersion >= 2 && !isRowArray(data.importPresets, 'id')) ||
+    (schemaVersion >= 3 && !isRowArray(data.dispositions, 'id'))
+  ) {
+    throw new Error('The backup is incomplete or damaged.');
+  }
+
+  if (typeof parsed.checksum !== 'string' || parsed.checksum !== await sha256(JSON.stringify(data))) {
+    throw new Error('The backup checksum does not match. The file may be damaged or edited.');
+  }
+
+  // Version 1 backups predate import presets, and versions 1-2 dispositions.
+  const backup = parsed as unknown as BackupFile;
+  return {
+    ...backup,
+    data: {
+      ...backup.data,
+      importPresets: backup.data.importPresets ?? [],
+      dispositions: backup.data.dispositions ?? []
+    }
+  };
+};
+
+export const summarizeBackup = (backup: BackupFile): BackupSummary => ({
+  createdAt: new Date(backup.createdAt),
+  expirationRecords: backup.data.expirationRecords.length,
+  productData: backup.data.productData.length,
+  locations: backup.data.locations.length,
+  hasSettings: backup.data.settings.length > 0
+});
+
+/**
+ * Write a verified backup in one transaction. `replace` wipes the current
+ * data first; `merge` adds or overwrites rows by primary key and keeps the
+ * settings on this device. The selected camera is always kept, since device
+ * IDs differ between phones.
+ */
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode): Promise<RestoreResult> => {
+  const { data } = backup;
+  // Match keys depend on the barcode rules of this app version.
+  const products = data.productData.map(product => ({
+    ...product,
+    matchKey: normalizeBarcodeForMatch(product.barcode)
+  }));
+
+  try {
+    await db.transaction(
+      'rw',
+      [db.expirationRecords, db.productData, db.settings, db.locations, db.importPresets, db.importRuns, db.dispositions],
+      async () => {
+        const currentSettings = await db.settings.get('default');
+
+        if (mode === 'replace') {
+          await Promise.all([
+            db.expirationRecords.clear(),
+            db.productData.clear(),
+            db.settings.clear(),
+            db.locations.clear(),
+            db.importPresets.clear(),
+            db.dispositions.clear(),
+            // The history describes data that is about to be replaced.
+            db.importRuns.clear()
+          ]);
+          await db.settings.bulkPut(
+            data.settings.map(settings =>
+              settings.id === 'default' && settings.scanner
+                ? { ...settings, scanner: { ...settings.scanner, deviceId: currentSettings?.scanner?.deviceId ?? '' } }
+                : settings
+            )
+          );
+          if (!data.settings.some(settings => settings.id === 'default') && currentSettings) {
+            await db.settings.put(currentSettings);
+          }
+        }
+
+        // Every install seeds its own Backroom/Shelf/... with fresh IDs, so on
+        // merge a backup location joins the local one with the same name.
+        const locationIds = new Map<string, string>();
+        if (mode === 'merge') {
+          const local = await db.locations.toArray();
+          for (const location of data.locations) {
+            const match = local.find(entry =>
+              entry.name.trim().toLowerCase() === location.name.trim().toLowerCase()
+            );
+            if (match) locationIds.set(location.id, match.id);
+          }
+        }
+
+        await db.locations.bulkPut(data.locations.filter(location => !locationIds.has(location.id)));
+        await db.importPresets.bulkPut(data.importPresets);
+        await db.productData.bulkPut(products);
+        await db.expirationRecords.bulkPut(
+          data.expirationRecords.map(record => ({
+            ...record,
+            locationId: locationIds.get(record.locationId ?? '') ?? record.locationId
+          }))
+        );
+        await db.dispositions.bulkPut(
+          data.dispositions.map(disposition => ({
+            ...disposition,
+            locationId: locationIds.get(disposition.locationId) ?? disposition.locationId
+          }))
+        );
+      }
+    );
+
+    return {
+      expirationRecords: data.expirationRecords.length,
+      productData: products.length,
+      locations: data.locations.length
+    };
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,9 @@
 "use client";
 
 import type { ProductData } from '@/types';
-import { productDataService } from './db';
+import { expirationRecordsService, productDataService } from './db';
+import { parseGS1, gtinToRetailBarcode } from './gs1';
+import { computeCheckDigit, expandUPCE, getGTINType, hasValidCheckDigit, isValidUPCE } from './gtin';
 
 // Barcode validation patterns
 const BARCODE_PATTERNS = {
@@ -9,18 +11,39 @@ const BARCODE_PATTERNS = {
   UPC_E: /^\d{8}$/,
   EAN_13: /^\d{13}$/,
   EAN_8: /^\d{8}$/,
+  GTIN_14: /^\d{14}$/,
   CODE_128: /^[\x00-\x7F]+$/,
   CODE_39: /^[A-Z0-9\-\.\$\/\+\%\s]+$/
 };
 
+// Explain a failed GS1 check digit. The code is still accepted (it may be a
+// store-internal number) but the user should double-check what they typed.
+const describeChecksumFailure = (code: string): string => {
+  const upca = code.length === 8 ? expandUPCE(code) : null;
+  const data = upca ? upca.slice(0, -1) : code.slice(0, -1);
+  const expected = computeCheckDigit(data);
+  return `Check digit ${code[code.length - 1]} does not match (expected ${expected}). The barcode may be mistyped.`;
+};
+
 // Validate barcode format
-export const validateBarcode = (barcode: string): { valid: boolean; type?: string; error?: string } => {
+export const validateBarcode = (barcode: string): { valid: boolean; type?: string; error?: string; warning?: string } => {
   if (!barcode || barcode.trim().length === 0) {
     return { valid: false, error: 'Barcode cannot be empty' };
   }
 
   const cleanBarcode = barcode.trim();
 
+  // GTIN lengths carry a mod-10 check digit; 8 digits is either UPC-E or EAN-8.
+  const gtinType = /^\d+$/.test(cleanBarcode) ? getGTINType(cleanBarcode) : null;
+  if (gtinType) {
+    const checksumValid = cleanBarcode.length === 8
+      ? isValidUPCE(cleanBarcode) || hasValidCheckDigit(cleanBarcode)
+      : hasValidCheckDigit(cleanBarcode);
+    return checksumValid
+      ? { valid: true, type: gtinType }
+      : { valid: true, type: gtinType, warning: describeChecksumFailure(cleanBarcode) };
+  }
+
   // Check against known patterns
   for (const [type, pattern] of Object.entries(BARCODE_PATTERNS)) {
     if (pattern.test(cleanBarcode)) {
@@ -66,6 +89,41 @@ export const lookupProductByBarcode = async (barcode: string): Promise<{
   }
 };
 
+// Where a hardware scan should land: the soonest-expiring record for the code
+// (same expiry and lot when the code carries them), otherwise the add form
+// prefilled with what the product database and GS1 data know.
+export const resolveScanDestination = async (raw: string): Promise<string> => {
+  const gs1 = parseGS1(raw);
+  const barcode = gs1?.gtin ? gtinToRetailBarcode(gs1.gtin) : parseBarcode(raw);
+  const params = new URLSearchParams({ barcode });
+
+  try {
+    const records = await expirationRecordsService.getByBarcode(barcode);
+    const match = records.find(record =>
+      (!gs1?.expirationDate ||
+        record.expirationDate.toISOString().slice(0, 10) === gs1.expirationDate) &&
+      (!gs1?.lotNumber || record.lotNumber === gs1.lotNumber)
+    );
+    if (match) {
+      return `/item/${match.id}`;
+    }
+
+    const lookup = await lookupProductByBarcode(barcode);
+    if (lookup.product) {
+      params.set('itemName', lookup.product.itemName);
+      params.set('description', lookup.product.description || '');
+    }
+  } catch (error) {
+    console.error('Error resolving scanned barcode:', error);
+  }
+
+  if (gs1?.expirationDate) params.set('expirationDate', gs1.expirationDate);
+  if (gs1?.lotNumber) params.set('lotNumber', gs1.lotNumber);
+  if (gs1?.quantity) params.set('quantity', String(gs1.quantity));
+
+  return `/add-item?${params.toString()}`;
+};
+
 // Generate barcode suggestions based on partial input
 export const generateBarcodeSuggestions = async (partial: string): Promise<ProductData[]> => {
   try {
@@ -170,6 +228,8 @@ export const getBarcodeTypeDescription = (barcode: string): string => {
       return 'EAN-13 (13 digits)';
     case 'EAN_8':
       return 'EAN-8 (8 digits)';
+    case 'GTIN_14':
+      return 'GTIN-14 (14 digits)';
     case 'CODE_128':
       return 'Code 128';
     case 'CODE_39':
@@ -190,5 +250,5 @@ export const formatBarcodeInput = (value: string): string => {
 // Check if barcode is likely a valid product barcode
 export const isLikelyProductBarcode = (barcode: string): boolean => {
   const validation = validateBarcode(barcode);
-  return validation.valid && ['UPC_A', 'UPC_E', 'EAN_13', 'EAN_8'].includes(validation.type || '');
+  return validation.valid && !validation.warning && ['UPC_A', 'UPC_E', 'EAN_13', 'EAN_8'].includes(validation.type || '');
 };
\ No newline at end of file
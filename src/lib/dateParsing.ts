@@ -0,0 +1,170 @@
+"use client";
+
+// Dates as people write them in spreadsheets and on packaging. Everything is
+// returned as a local YYYY-MM-DD day; time of day is dropped. Shared rules:
+// two-digit years are 20YY, and a date with only a month and year ("03/2027",
+// "MAR 27") means the last day of that month.
+
+/** Order of day and month in numeric dates such as 04/05/2026. */
+export type DateOrder = 'DMY' | 'MDY';
+
+/** 'auto' reads the order from the file itself. */
+export type DateOrderSetting = 'auto' | DateOrder;
+
+export const DATE_ORDERS: { id: DateOrder; label: string; example: string }[] = [
+  { id: 'DMY', label: 'Day/Month/Year', example: '31/12/2026' },
+  { id: 'MDY', label: 'Month/Day/Year', example: '12/31/2026' },
+];
+
+export const MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, SEPT: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+export const monthFromName = (name: string): number | undefined => {
+  const upper = name.toUpperCase();
+  return MONTHS[upper.slice(0, upper.startsWith('SEPT') ? 4 : 3)];
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Expiry years are never last century.
+export const toYear = (value: string): number => {
+  const n = Number(value);
+  return value.length === 2 ? 2000 + n : n;
+};
+
+/** YYYY-MM-DD, or null for an impossible date. No day means end of month. */
+export const buildDate = (year: number, month: number, day?: number): string | null => {
+  if (month < 1 || month > 12 || year < 1900 || year > 2099) return null;
+  const lastDay = new Date(year, month, 0).getDate();
+  const d = day ?? lastDay;
+  if (d < 1 || d > lastDay) return null;
+  return `${year}-${pad(month)}-${pad(d)}`;
+};
+
+const formatDay = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * A spreadsheet date serial as a day. Workbooks saved with the 1904 date
+ * system (old Mac Excel) count from 1 Jan 1904 instead of 30 Dec 1899.
+ */
+export const serialToDay = (serial: number, date1904 = false): string =>
+  formatDay(date1904
+    ? new Date(1904, 0, 1 + Math.floor(serial))
+    : new Date(1899, 11, 30 + Math.floor(serial)));
+
+export interface ParsedDate {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Only month and year were given; date is the end of that month. */
+  monthOnly: boolean;
+  /** Day and month could be swapped, e.g. 04/05/2026; the other reading. */
+  alternative?: string;
+}
+
+export interface DateReadOptions {
+  order: DateOrder;
+  date1904?: boolean;
+}
+
+const SEP = '[-/.\\s]';
+const MONTH_NAME = '(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEPT?|OCT|NOV|DEC)[A-Z]*\\.?';
+
+// Anchored patterns, most specific first.
+const ISO = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/;
+const NUMERIC = new RegExp(`^(\\d{1,2})${SEP}(\\d{1,2})${SEP}(\\d{4}|\\d{2})(?:\\s.*)?$`);
+const DAY_MONTH_NAME = new RegExp(`^(\\d{1,2})${SEP}*${MONTH_NAME}[-/.,\\s]*(\\d{4}|\\d{2})$`);
+const MONTH_NAME_DAY = new RegExp(`^${MONTH_NAME}${SEP}*(\\d{1,2})(?:ST|ND|RD|TH)?,?\\s+(\\d{4})$`);
+const MONTH_NAME_YEAR = new RegExp(`^${MONTH_NAME}[-/.,\\s]*(\\d{4}|\\d{2})$`);
+const MONTH_YEAR = /^(\d{1,2})[-/.](\d{4}|\d{2})$/;
+const YEAR_MONTH = /^(\d{4})[-/.](\d{1,2})$/;
+const COMPACT = /^(\d{4})(\d{2})(\d{2})$/;
+const WEEKDAY = /^(MON|TUE|WED|THU|FRI|SAT|SUN)[A-Z]*\.?,?\s+/;
+
+const full = (date: string | null): ParsedDate | null => (date ? { date, monthOnly: false } : null);
+const monthOnly = (date: string | null): ParsedDate | null => (date ? { date, monthOnly: true } : null);
+
+/**
+ * Read one cell as a day. Numbers are date serials (or 20260301); strings are
+ * matched against the written forms above. Returns null when the value is
+ * not a date, rather than guessing like `new Date(string)` does.
+ */
+export const parseDateValue = (value: unknown, { order, date1904 = false }: DateReadOptions): ParsedDate | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : full(formatDay(value));
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value <= 0) return null;
+    const compact = COMPACT.exec(String(value));
+    if (compact) return full(buildDate(Number(compact[1]), Number(compact[2]), Number(compact[3])));
+    return full(serialToDay(value, date1904));
+  }
+
+  const text = String(value ?? '').trim().toUpperCase().replace(WEEKDAY, '');
+  if (!text) return null;
+
+  let m: RegExpExecArray | null;
+  if ((m = ISO.exec(text))) return full(buildDate(Number(m[1]), Number(m[2]), Number(m[3])));
+
+  if ((m = NUMERIC.exec(text))) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    const year = toYear(m[3]);
+    const date = order === 'DMY' ? buildDate(year, b, a) : buildDate(year, a, b);
+    if (!date) return null;
+    const swapped = order === 'DMY' ? buildDate(year, a, b) : buildDate(year, b, a);
+    return swapped && swapped !== date ? { date, monthOnly: false, alternative: swapped } : full(date);
+  }
+
+  if ((m = DAY_MONTH_NAME.exec(text))) return full(buildDate(toYear(m[3]), monthFromName(m[2]) ?? 0, Number(m[1])));
+  if ((m = MONTH_NAME_DAY.exec(text))) return full(buildDate(Number(m[3]), monthFromName(m[1]) ?? 0, Number(m[2])));
+  if ((m = MONTH_NAME_YEAR.exec(text))) return monthOnly(buildDate(toYear(m[2]), monthFromName(m[1]) ?? 0));
+  if ((m = MONTH_YEAR.exec(text))) return monthOnly(buildDate(toYear(m[2]), Number(m[1])));
+  if ((m = YEAR_MONTH.exec(text))) return monthOnly(buildDate(Number(m[1]), Number(m[2])));
+  if ((m = COMPACT.exec(text))) return full(buildDate(Number(m[1]), Number(m[2]), Number(m[3])));
+
+  return null;
+};
+
+/**
+ * The day/month order a column of dates uses, judged by the values that can
+ * only be read one way (13/04/2026 is day first). Null when none of them
+ * decide it.
+ */
+export const detectDateOrder = (values: unknown[]): DateOrder | null => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const m = NUMERIC.exec(value.trim());
+    if (!m) continue;
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    if (a > 12 && b <= 12) dayFirst++;
+    else if (b > 12 && a <= 12) monthFirst++;
+  }
+  if (dayFirst === monthFirst) return null;
+  return dayFirst > monthFirst ? 'DMY' : 'MDY';
+};
+
+/** The order this device writes dates in, e.g. MDY for en-US. */
+export const getDeviceDateOrder = (): DateOrder => {
+  if (typeof Intl === 'undefined') return 'DMY';
+  const parts = new Intl.DateTimeFormat().formatToParts(new Date(2026, 11, 31));
+  const month = parts.findIndex(part => part.type === 'month');
+  const day = parts.findIndex(part => part.type === 'day');
+  return month >= 0 && day >= 0 && month < day ? 'MDY' : 'DMY';
+};
+
+export interface ResolvedDateOrder {
+  order: DateOrder;
+  /** False when neither the user nor the file settled it, so 04/05 style dates are guesses. */
+  confident: boolean;
+}
+
+export const resolveDateOrder = (setting: DateOrderSetting, values: unknown[]): ResolvedDateOrder => {
+  if (setting !== 'auto') return { order: setting, confident: true };
+  const detected = detectDateOrder(values);
+  return detected ? { order: detected, confident: true } : { order: getDeviceDateOrder(), confident: false };
+};
@@ -1,26 +1,119 @@
 "use client";
 
 import Dexie, { Table } from 'dexie';
-import type { ExpirationRecord, ProductData, NotificationSettings } from '@/types';
+import type { AuditAction, AuditEntityType, AuditFieldChange, AuditSource, BarcodeSymbology, BatchCommitResult, BatchScanEntry, Disposition, DispositionReason, ExpirationRecord, DuplicateStrategy, ExportProfile, ImportCommitEntry, ImportCommitResult, ImportDuplicateSettings, ImportKind, ImportMapping, ImportPreset, ProductData, NotificationSettings, ScannerSettings, StatusRules, StorageLocation, TrashedRecord, DisposedRecord } from '@/types';
+import { DEFAULT_STATUS_RULES, evaluateStatus, getRemainingDays, normalizeStatusRules } from './status';
+import { DEFAULT_SCANNER_SETTINGS, normalizeScannerSettings } from './symbology';
+import { toGTIN14 } from './gtin';
+import { DEFAULT_EXPORT_PROFILE, normalizeExportProfile } from './exportProfile';
+import { DEFAULT_IMPORT_DUPLICATES, normalizeImportDuplicates } from './importDuplicates';
+import { getDispositionLabel } from './dispositions';
 
 // Database schema
-export interface DBExpirationRecord extends Omit<ExpirationRecord, 'expirationDate' | 'dateCreated' | 'remainingDays' | 'status'> {
+export interface DBExpirationRecord extends Omit<ExpirationRecord, 'expirationDate' | 'dateCreated' | 'remainingDays' | 'status' | 'statusBand'> {
   expirationDate: string; // ISO string for storage
   dateCreated: string; // ISO string for storage
+  deletedAt?: string; // ISO string while in the trash; '' or missing otherwise
+  disposedAt?: string; // ISO string once all stock was removed with a reason; '' or missing otherwise
 }
 
 export type DBProductData = ProductData & { matchKey: string };
 
+export interface DBDisposition extends Omit<Disposition, 'expirationDate' | 'disposedAt'> {
+  expirationDate: string; // ISO string for storage
+  disposedAt: string; // ISO string for storage
+}
+
+// What the remove-with-reason form collects; quantities are per record.
+export interface DispositionInput {
+  reason: DispositionReason;
+  unitCost: number | null;
+  notes: string;
+}
+
 export interface DBSettings {
   id: string;
   notifications: NotificationSettings;
   theme: 'light' | 'dark' | 'system';
+  statusRules?: StatusRules;
+  scanner?: ScannerSettings;
+  exportProfile?: ExportProfile;
+  storeName?: string;
+  importDuplicates?: ImportDuplicateSettings;
+  trashRetentionDays?: number;
+}
+
+// One import run, kept so it can be rolled back
+export interface DBImportRun {
+  id: string;
+  kind: ImportKind;
+  fileName: string;
+  importedAt: string; // ISO string
+  mapping: ImportMapping;
+  /** Rows the run added: record IDs, or product barcodes. */
+  createdIds: string[];
+  /** Rows the run overwrote, as they were before it. */
+  before: DBExpirationRecord[] | DBProductData[];
+  /** Locations the run added; rollback removes those left unused. */
+  createdLocationIds: string[];
+  rolledBackAt: string; // '' until rolled back
+}
+
+// Identifies the file an import came from, for the import history.
+export interface ImportRunSource {
+  fileName: string;
+  mapping: ImportMapping;
+}
+
+// Older runs are dropped so before-images do not pile up.
+export const IMPORT_HISTORY_LIMIT = 30;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// One change to a record or product. The log is append-only: nothing in the
+// app edits or deletes its entries.
+export interface DBAuditEntry {
+  id: string;
+  timestamp: string; // ISO string
+  entityType: AuditEntityType;
+  /** Record ID or product barcode. */
+  entityId: string;
+  /** Item name at the time, so entries stay readable after a delete. */
+  itemName: string;
+  action: AuditAction;
+  source: AuditSource;
+  /** Extra context, e.g. the imported file name; '' when none. */
+  detail: string;
+  /** Changed fields; every non-empty field for a create or delete. */
+  changes: AuditFieldChange[];
+}
+
+export interface AuditLogFilter {
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  source?: AuditSource;
+  /** Matches the item name, or the record ID / product barcode. */
+  search?: string;
 }
 
+export const DEFAULT_LOCATION_NAMES = ['Backroom', 'Shelf', 'Cooler', 'Freezer'];
+
+const createDefaultLocations = (): StorageLocation[] =>
+  DEFAULT_LOCATION_NAMES.map((name, index) => ({
+    id: crypto.randomUUID(),
+    name,
+    sortOrder: index
+  }));
+
 class ExpirationTrackerDB extends Dexie {
   expirationRecords!: Table<DBExpirationRecord>;
   productData!: Table<DBProductData>;
   settings!: Table<DBSettings>;
+  locations!: Table<StorageLocation>;
+  importPresets!: Table<ImportPreset>;
+  importRuns!: Table<DBImportRun>;
+  auditLog!: Table<DBAuditEntry>;
+  dispositions!: Table<DBDisposition>;
 
   constructor() {
     super('ExpirationTrackerDB');
@@ -40,6 +133,125 @@ class ExpirationTrackerDB extends Dexie {
         product.matchKey = normalizeBarcodeForMatch(product.barcode);
       });
     });
+
+    this.version(3).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder'
+    }).upgrade(async tx => {
+      await tx.table('expirationRecords').toCollection().modify((record: DBExpirationRecord) => {
+        record.locationId = record.locationId ?? '';
+        record.aisle = record.aisle ?? '';
+      });
+      await tx.table('locations').bulkAdd(createDefaultLocations());
+    });
+
+    this.version(4).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder'
+    }).upgrade(async tx => {
+      await tx.table('expirationRecords').toCollection().modify((record: DBExpirationRecord) => {
+        record.lotNumber = record.lotNumber ?? '';
+      });
+    });
+
+    // Match keys became canonical GTIN-14s so UPC-E, UPC-A and EAN-13 forms of
+    // one product share a key.
+    this.version(5).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder'
+    }).upgrade(async tx => {
+      await tx.table('productData').toCollection().modify((product: DBProductData) => {
+        product.matchKey = normalizeBarcodeForMatch(product.barcode);
+      });
+    });
+
+    this.version(6).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder',
+      importPresets: 'id, kind, name'
+    });
+
+    this.version(7).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder',
+      importPresets: 'id, kind, name',
+      importRuns: 'id, importedAt'
+    });
+
+    this.version(8).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder',
+      importPresets: 'id, kind, name',
+      importRuns: 'id, importedAt',
+      auditLog: 'id, timestamp, entityId'
+    });
+
+    // Deleting a record now moves it to the trash.
+    this.version(9).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber, deletedAt',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder',
+      importPresets: 'id, kind, name',
+      importRuns: 'id, importedAt',
+      auditLog: 'id, timestamp, entityId'
+    }).upgrade(async tx => {
+      await tx.table('expirationRecords').toCollection().modify((record: DBExpirationRecord) => {
+        record.deletedAt = record.deletedAt ?? '';
+      });
+    });
+
+    this.version(10).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber, deletedAt',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder',
+      importPresets: 'id, kind, name',
+      importRuns: 'id, importedAt',
+      auditLog: 'id, timestamp, entityId',
+      dispositions: 'id, recordId, disposedAt, reason'
+    });
+
+    // Records with all stock removed with a reason used to go to the trash;
+    // they now keep their own state so the trash cannot restore or purge them.
+    this.version(11).stores({
+      expirationRecords: 'id, barcode, itemName, expirationDate, status, dateCreated, locationId, lotNumber, deletedAt',
+      productData: 'barcode, itemName, matchKey',
+      settings: 'id',
+      locations: 'id, name, sortOrder',
+      importPresets: 'id, kind, name',
+      importRuns: 'id, importedAt',
+      auditLog: 'id, timestamp, entityId',
+      dispositions: 'id, recordId, disposedAt, reason'
+    }).upgrade(async tx => {
+      const records = tx.table('expirationRecords');
+      const dispositions: DBDisposition[] = await tx.table('dispositions')
+        .filter((disposition: DBDisposition) => disposition.remaining === 0)
+        .toArray();
+      for (const disposition of dispositions) {
+        const record: DBExpirationRecord | undefined = await records.get(disposition.recordId);
+        if (record && record.deletedAt === disposition.disposedAt) {
+          await records.update(record.id, { deletedAt: '', disposedAt: disposition.disposedAt });
+        }
+      }
+    });
+
+    // Upgrades only run for existing databases; seed fresh installs here.
+    this.on('populate', async tx => {
+      await tx.table('locations').bulkAdd(createDefaultLocations());
+    });
   }
 }
 
@@ -47,9 +259,10 @@ export const db = new ExpirationTrackerDB();
 
 /**
  * Canonical barcode key used for matching imported product data with
- * expiration records. Handles Excel scientific notation and formatting.
+ * expiration records. Handles Excel scientific notation and formatting, and
+ * resolves valid GTINs (including UPC-E) to their GTIN-14.
  */
-export const normalizeBarcodeForMatch = (value: unknown): string => {
+export const normalizeBarcodeForMatch = (value: unknown, symbology?: BarcodeSymbology | ''): string => {
   let raw = String(value ?? "").trim().replace(/\s+/g, "");
 
   if (!raw) return "";
@@ -69,8 +282,9 @@ export const normalizeBarcodeForMatch = (value: unknown): string => {
   const digits = raw.replace(/\D/g, "");
   if (!digits) return "";
 
-  // Also make a zero-trimmed key useful for files that lost leading zeros.
-  return digits;
+  // Codes that fail their check digit keep their digits so they still match
+  // themselves; getByBarcode falls back to a zero-trimmed key for those.
+  return toGTIN14(digits, symbology) ?? digits;
 };
 
 export const barcodeMatches = (a: unknown, b: unknown): boolean => {
@@ -84,21 +298,14 @@ export const barcodeMatches = (a: unknown, b: unknown): boolean => {
 };
 
 // Utility functions for date conversion
-export const convertToExpirationRecord = (dbRecord: DBExpirationRecord): ExpirationRecord => {
+export const convertToExpirationRecord = (
+  dbRecord: DBExpirationRecord,
+  rules: StatusRules = DEFAULT_STATUS_RULES
+): ExpirationRecord => {
   const expirationDate = new Date(dbRecord.expirationDate);
   const dateCreated = new Date(dbRecord.dateCreated);
-  const today = new Date();
-  const timeDiff = expirationDate.getTime() - today.getTime();
-  const remainingDays = Math.ceil(timeDiff / (1000 * 3600 * 24));
-  
-  let status: 'safe' | 'near-expiration' | 'expired';
-  if (remainingDays < 0) {
-    status = 'expired';
-  } else if (remainingDays <= 7) {
-    status = 'near-expiration';
-  } else {
-    status = 'safe';
-  }
+  const remainingDays = getRemainingDays(expirationDate);
+  const statusBand = evaluateStatus(expirationDate, rules);
 
   const description =
     dbRecord.description?.trim().toLowerCase() === 'created from scan'
@@ -107,26 +314,95 @@ export const convertToExpirationRecord = (dbRecord: DBExpirationRecord): Expirat
 
   return {
     ...dbRecord,
+    barcodeFormat: dbRecord.barcodeFormat ?? '',
+    lotNumber: dbRecord.lotNumber ?? '',
+    locationId: dbRecord.locationId ?? '',
+    aisle: dbRecord.aisle ?? '',
     description,
     expirationDate,
     dateCreated,
     remainingDays,
-    status
+    status: statusBand.id,
+    statusBand
   };
 };
 
-export const convertToDBRecord = (record: Omit<ExpirationRecord, 'remainingDays' | 'status'>): DBExpirationRecord => ({
+// Trashed and fully disposed records are hidden from everything but the
+// trash and the item's own page.
+const isLive = (record: DBExpirationRecord): boolean => !record.deletedAt && !record.disposedAt;
+
+const isTrashed = (record: DBExpirationRecord): boolean => !!record.deletedAt;
+
+export const convertToDBRecord = (record: Omit<ExpirationRecord, 'remainingDays' | 'status' | 'statusBand'>): DBExpirationRecord => ({
   ...record,
   expirationDate: record.expirationDate.toISOString(),
   dateCreated: record.dateCreated.toISOString()
 });
 
+const RECORD_AUDIT_FIELDS = [
+  'itemName', 'barcode', 'description', 'quantity', 'expirationDate',
+  'lotNumber', 'locationId', 'aisle', 'notes', 'dateCreated'
+];
+const PRODUCT_AUDIT_FIELDS = ['barcode', 'itemName', 'description', 'category'];
+
+interface AuditContext {
+  source: AuditSource;
+  detail?: string;
+}
+
+const APP_CHANGE: AuditContext = { source: 'app' };
+
+const toAuditValue = (value: unknown): string | number =>
+  typeof value === 'number' ? value : String(value ?? '');
+
+/**
+ * Describe one row going from `before` to `after`; a missing side makes it a
+ * create or a delete unless `action` says otherwise. Null for an update that
+ * changed nothing.
+ */
+const buildAuditEntry = (
+  entityType: AuditEntityType,
+  entityId: string,
+  before: DBExpirationRecord | DBProductData | undefined,
+  after: DBExpirationRecord | DBProductData | undefined,
+  { source, detail = '' }: AuditContext,
+  action: AuditAction = !before ? 'create' : !after ? 'delete' : 'update'
+): DBAuditEntry | null => {
+  const fields = entityType === 'record' ? RECORD_AUDIT_FIELDS : PRODUCT_AUDIT_FIELDS;
+  const read = (row: typeof before, field: string) =>
+    toAuditValue((row as unknown as Record<string, unknown> | undefined)?.[field]);
+  const changes = fields
+    .map(field => ({ field, before: read(before, field), after: read(after, field) }))
+    .filter(change => change.before !== change.after);
+  if (before && after && !changes.length) return null;
+
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    entityType,
+    entityId,
+    itemName: (after ?? before)?.itemName ?? '',
+    action,
+    source,
+    detail,
+    changes
+  };
+};
+
+const writeAuditEntries = async (entries: (DBAuditEntry | null | undefined)[]): Promise<void> => {
+  const written = entries.filter((entry): entry is DBAuditEntry => !!entry);
+  if (written.length) await db.auditLog.bulkAdd(written);
+};
+
 // CRUD operations for expiration records
 export const expirationRecordsService = {
   async getAll(): Promise<ExpirationRecord[]> {
     try {
-      const records = await db.expirationRecords.orderBy('expirationDate').toArray();
-      return records.map(convertToExpirationRecord);
+      const [records, rules] = await Promise.all([
+        db.expirationRecords.orderBy('expirationDate').filter(isLive).toArray(),
+        settingsService.getStatusRules()
+      ]);
+      return records.map(record => convertToExpirationRecord(record, rules));
     } catch (error) {
       console.error('Error fetching expiration records:', error);
       return [];
@@ -135,19 +411,41 @@ export const expirationRecordsService = {
 
   async getById(id: string): Promise<ExpirationRecord | null> {
     try {
-      const record = await db.expirationRecords.get(id);
-      return record ? convertToExpirationRecord(record) : null;
+      const [record, rules] = await Promise.all([
+        db.expirationRecords.get(id),
+        settingsService.getStatusRules()
+      ]);
+      return record && isLive(record) ? convertToExpirationRecord(record, rules) : null;
     } catch (error) {
       console.error('Error fetching expiration record:', error);
       return null;
     }
   },
 
-  async create(record: Omit<ExpirationRecord, 'id' | 'remainingDays' | 'status'>): Promise<string> {
+  // A record with all of its stock removed with a reason, kept for its history.
+  async getDisposedById(id: string): Promise<DisposedRecord | null> {
+    try {
+      const [record, rules] = await Promise.all([
+        db.expirationRecords.get(id),
+        settingsService.getStatusRules()
+      ]);
+      return record?.disposedAt
+        ? { ...convertToExpirationRecord(record, rules), disposedAt: new Date(record.disposedAt) }
+        : null;
+    } catch (error) {
+      console.error('Error fetching disposed record:', error);
+      return null;
+    }
+  },
+
+  async create(record: Omit<ExpirationRecord, 'id' | 'remainingDays' | 'status' | 'statusBand'>): Promise<string> {
     try {
       const id = crypto.randomUUID();
       const dbRecord = convertToDBRecord({ ...record, id });
-      await db.expirationRecords.add(dbRecord);
+      await db.transaction('rw', db.expirationRecords, db.auditLog, async () => {
+        await db.expirationRecords.add(dbRecord);
+        await writeAuditEntries([buildAuditEntry('record', id, undefined, dbRecord, APP_CHANGE)]);
+      });
       return id;
     } catch (error) {
       console.error('Error creating expiration record:', error);
@@ -155,7 +453,7 @@ export const expirationRecordsService = {
     }
   },
 
-  async update(id: string, updates: Partial<Omit<ExpirationRecord, 'id' | 'remainingDays' | 'status'>>): Promise<void> {
+  async update(id: string, updates: Partial<Omit<ExpirationRecord, 'id' | 'remainingDays' | 'status' | 'statusBand'>>): Promise<void> {
     try {
       const dbUpdates: Partial<DBExpirationRecord> = {};
       
@@ -173,36 +471,291 @@ export const expirationRecordsService = {
         }
       });
 
-      await db.expirationRecords.update(id, dbUpdates);
+      await db.transaction('rw', db.expirationRecords, db.auditLog, async () => {
+        const current = await db.expirationRecords.get(id);
+        await db.expirationRecords.update(id, dbUpdates);
+        if (current) {
+          await writeAuditEntries([buildAuditEntry('record', id, current, { ...current, ...dbUpdates }, APP_CHANGE)]);
+        }
+      });
     } catch (error) {
       console.error('Error updating expiration record:', error);
       throw error;
     }
   },
 
+  // Moves the record to the trash; see restore and deletePermanently.
   async delete(id: string): Promise<void> {
+    await expirationRecordsService.deleteMany([id]);
+  },
+
+  // Moves the records to the trash in one transaction, so a failure leaves
+  // none of them trashed. Returns the IDs moved, for undo.
+  async deleteMany(ids: string[]): Promise<string[]> {
+    try {
+      return await db.transaction('rw', db.expirationRecords, db.auditLog, async () => {
+        const records = (await db.expirationRecords.bulkGet(ids))
+          .filter((record): record is DBExpirationRecord => !!record && isLive(record));
+        const deletedAt = new Date().toISOString();
+        for (const record of records) {
+          await db.expirationRecords.update(record.id, { deletedAt });
+        }
+        await writeAuditEntries(
+          records.map(record => buildAuditEntry('record', record.id, record, undefined, APP_CHANGE))
+        );
+        return records.map(record => record.id);
+      });
+    } catch (error) {
+      console.error('Error deleting expiration records:', error);
+      throw error;
+    }
+  },
+
+  // Trashed records, most recently deleted first.
+  async getDeleted(): Promise<TrashedRecord[]> {
+    try {
+      const [records, rules] = await Promise.all([
+        db.expirationRecords.where('deletedAt').above('').reverse().sortBy('deletedAt'),
+        settingsService.getStatusRules()
+      ]);
+      return records.map(record => ({
+        ...convertToExpirationRecord(record, rules),
+        deletedAt: new Date(record.deletedAt!)
+      }));
+    } catch (error) {
+      console.error('Error fetching deleted records:', error);
+      return [];
+    }
+  },
+
+  async restore(ids: string[]): Promise<void> {
     try {
-      await db.expirationRecords.delete(id);
+      await db.transaction('rw', db.expirationRecords, db.auditLog, async () => {
+        const records = (await db.expirationRecords.bulkGet(ids))
+          .filter((record): record is DBExpirationRecord => !!record && isTrashed(record));
+        for (const record of records) {
+          await db.expirationRecords.update(record.id, { deletedAt: '' });
+        }
+        await writeAuditEntries(
+          records.map(record => buildAuditEntry('record', record.id, undefined, record, APP_CHANGE, 'restore'))
+        );
+      });
     } catch (error) {
-      console.error('Error deleting expiration record:', error);
+      console.error('Error restoring expiration records:', error);
       throw error;
     }
   },
 
+  // Only records already in the trash can be removed for good.
+  async deletePermanently(ids: string[], context: AuditContext = APP_CHANGE): Promise<void> {
+    try {
+      await db.transaction('rw', db.expirationRecords, db.auditLog, async () => {
+        const records = (await db.expirationRecords.bulkGet(ids))
+          .filter((record): record is DBExpirationRecord => !!record && isTrashed(record));
+        await db.expirationRecords.bulkDelete(records.map(record => record.id));
+        await writeAuditEntries(
+          records.map(record => buildAuditEntry('record', record.id, record, undefined, context, 'purge'))
+        );
+      });
+    } catch (error) {
+      console.error('Error permanently deleting expiration records:', error);
+      throw error;
+    }
+  },
+
+  // Permanently delete records trashed more than `retentionDays` ago.
+  // Returns how many were removed; 0 retention keeps everything.
+  async purgeTrash(retentionDays: number): Promise<number> {
+    if (retentionDays <= 0) return 0;
+    try {
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+      const ids = await db.expirationRecords.where('deletedAt').between('', cutoff, false, false).primaryKeys();
+      if (ids.length) {
+        await expirationRecordsService.deletePermanently(ids as string[], {
+          source: 'app',
+          detail: `In the trash for over ${retentionDays} days`
+        });
+      }
+      return ids.length;
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      return 0;
+    }
+  },
+
   async search(query: string): Promise<ExpirationRecord[]> {
     try {
       const records = await db.expirationRecords
-        .filter(record => 
+        .filter(record => isLive(record) && (
           record.itemName.toLowerCase().includes(query.toLowerCase()) ||
           record.description.toLowerCase().includes(query.toLowerCase()) ||
+          (record.aisle ?? '').toLowerCase().includes(query.toLowerCase()) ||
+          (record.lotNumber ?? '').toLowerCase().includes(query.toLowerCase()) ||
           record.barcode.includes(query)
-        )
+        ))
         .toArray();
-      return records.map(convertToExpirationRecord);
+      const rules = await settingsService.getStatusRules();
+      return records.map(record => convertToExpirationRecord(record, rules));
     } catch (error) {
       console.error('Error searching expiration records:', error);
       return [];
     }
+  },
+
+  // All records for a product, soonest expiry first.
+  async getByBarcode(barcode: string): Promise<ExpirationRecord[]> {
+    try {
+      const [records, rules] = await Promise.all([
+        db.expirationRecords
+          .orderBy('expirationDate')
+          .filter(record => isLive(record) && barcodeMatches(record.barcode, barcode))
+          .toArray(),
+        settingsService.getStatusRules()
+      ]);
+      return records.map(record => convertToExpirationRecord(record, rules));
+    } catch (error) {
+      console.error('Error fetching records by barcode:', error);
+      return [];
+    }
+  },
+
+  // Write a batch scan session in one transaction. A line joins an existing
+  // record for the same product, expiry day, lot and location by adding its
+  // count; otherwise it becomes a new record.
+  async commitBatch(
+    entries: BatchScanEntry[],
+    placement: { locationId: string; aisle: string }
+  ): Promise<BatchCommitResult> {
+    try {
+      return await db.transaction('rw', db.expirationRecords, db.auditLog, async () => {
+        const existing = (await db.expirationRecords.toArray()).filter(isLive);
+        const result: BatchCommitResult = { created: 0, merged: 0 };
+        const audit: (DBAuditEntry | null)[] = [];
+        const context: AuditContext = { source: 'batch-scan' };
+
+        for (const entry of entries) {
+          const day = entry.expirationDate.toISOString().slice(0, 10);
+          const match = existing.find(record =>
+            barcodeMatches(record.barcode, entry.barcode) &&
+            record.expirationDate.slice(0, 10) === day &&
+            (record.lotNumber ?? '') === entry.lotNumber &&
+            (record.locationId ?? '') === placement.locationId
+          );
+
+          if (match) {
+            const before = { ...match };
+            match.quantity += entry.quantity;
+            await db.expirationRecords.update(match.id, { quantity: match.quantity });
+            audit.push(buildAuditEntry('record', match.id, before, { ...match }, context));
+            result.merged++;
+          } else {
+            const record = convertToDBRecord({
+              ...entry,
+              id: crypto.randomUUID(),
+              notes: '',
+              locationId: placement.locationId,
+              aisle: placement.aisle,
+              dateCreated: new Date()
+            });
+            await db.expirationRecords.add(record);
+            audit.push(buildAuditEntry('record', record.id, undefined, record, context));
+            existing.push(record);
+            result.created++;
+          }
+        }
+
+        await writeAuditEntries(audit);
+        return result;
+      });
+    } catch (error) {
+      console.error('Error committing batch scan:', error);
+      throw error;
+    }
+  },
+
+  // Write the rows accepted in an import preview in one transaction, so a
+  // failure part way leaves the records as they were. The run is added to the
+  // import history in the same transaction.
+  async commitImport(entries: ImportCommitEntry[], source: ImportRunSource): Promise<ImportCommitResult> {
+    try {
+      return await db.transaction('rw', [db.expirationRecords, db.locations, db.importRuns, db.auditLog], async () => {
+        const result: ImportCommitResult = { created: 0, updated: 0 };
+        const createdIds: string[] = [];
+        const before: DBExpirationRecord[] = [];
+        const audit: (DBAuditEntry | null)[] = [];
+        const context: AuditContext = { source: 'import', detail: source.fileName };
+        const knownLocationIds = new Set(await db.locations.toCollection().primaryKeys());
+        const locationIds = new Map<string, string>();
+        const resolveLocation = async (name: string): Promise<string> => {
+          const key = name.trim().toLowerCase();
+          if (!locationIds.has(key)) locationIds.set(key, await locationsService.findOrCreate(name));
+          return locationIds.get(key)!;
+        };
+
+        for (const entry of entries) {
+          if (entry.action === 'create') {
+            const locationId = entry.locationName ? await resolveLocation(entry.locationName) : '';
+            const id = entry.id ?? crypto.randomUUID();
+            const record = convertToDBRecord({ ...entry.record, id, locationId });
+            await db.expirationRecords.add(record);
+            audit.push(buildAuditEntry('record', id, undefined, record, context));
+            createdIds.push(id);
+            result.created++;
+            continue;
+          }
+
+          const { expirationDate, dateCreated, ...rest } = entry.updates;
+          const updates: Partial<DBExpirationRecord> = { ...rest };
+          if (expirationDate) updates.expirationDate = expirationDate.toISOString();
+          if (dateCreated) updates.dateCreated = dateCreated.toISOString();
+          if (entry.locationName) updates.locationId = await resolveLocation(entry.locationName);
+          // A record deleted since the preview was built is left alone.
+          const current = await db.expirationRecords.get(entry.id);
+          if (!current || !isLive(current)) continue;
+          // Records this run created are removed by a rollback anyway.
+          if (!createdIds.includes(current.id) && !before.some(record => record.id === current.id)) {
+            before.push(current);
+          }
+          await db.expirationRecords.update(entry.id, updates);
+          audit.push(buildAuditEntry('record', entry.id, current, { ...current, ...updates }, context));
+          result.updated++;
+        }
+
+        await writeAuditEntries(audit);
+        await addImportRun({
+          kind: 'records',
+          ...source,
+          createdIds,
+          before,
+          createdLocationIds: Array.from(new Set(locationIds.values()))
+            .filter(id => id && !knownLocationIds.has(id))
+        });
+        return result;
+      });
+    } catch (error) {
+      console.error('Error committing import:', error);
+      throw error;
+    }
+  },
+
+  // Every record for a lot, optionally narrowed to one product. Used to pull
+  // a recalled lot in one step.
+  async getByLot(lotNumber: string, barcode?: string): Promise<ExpirationRecord[]> {
+    try {
+      const lot = lotNumber.trim();
+      if (!lot) return [];
+      const [records, rules] = await Promise.all([
+        db.expirationRecords.where('lotNumber').equalsIgnoreCase(lot).toArray(),
+        settingsService.getStatusRules()
+      ]);
+      return records
+        .filter(record => isLive(record) && (!barcode || barcodeMatches(record.barcode, barcode)))
+        .map(record => convertToExpirationRecord(record, rules))
+        .sort((a, b) => a.expirationDate.getTime() - b.expirationDate.getTime());
+    } catch (error) {
+      console.error('Error fetching records by lot:', error);
+      return [];
+    }
   }
 };
 
@@ -235,9 +788,9 @@ export const productDataService = {
     }
   },
 
-  async getByBarcode(barcode: string): Promise<ProductData | null> {
+  async getByBarcode(barcode: string, symbology?: BarcodeSymbology | ''): Promise<ProductData | null> {
     try {
-      const matchKey = normalizeBarcodeForMatch(barcode);
+      const matchKey = normalizeBarcodeForMatch(barcode, symbology);
       if (!matchKey) return null;
       const exact = await db.productData.where('matchKey').equals(matchKey).first();
       if (exact) return exact;
@@ -254,7 +807,7 @@ export const productDataService = {
 
   async getDescriptionsByBarcodes(barcodes: string[]): Promise<Map<string, string>> {
     const result = new Map<string, string>();
-    const keys = Array.from(new Set(barcodes.map(normalizeBarcodeForMatch).filter(Boolean)));
+    const keys = Array.from(new Set(barcodes.map(barcode => normalizeBarcodeForMatch(barcode)).filter(Boolean)));
     if (!keys.length) return result;
     try {
       const products = await db.productData.where('matchKey').anyOf(keys).toArray();
@@ -271,11 +824,34 @@ export const productDataService = {
     }
   },
 
+  // Category per barcode match key, for products that have one.
+  async getCategoriesByBarcodes(barcodes: string[]): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+    const keys = Array.from(new Set(barcodes.map(barcode => normalizeBarcodeForMatch(barcode)).filter(Boolean)));
+    if (!keys.length) return result;
+    try {
+      const products = await db.productData.where('matchKey').anyOf(keys).toArray();
+      for (const product of products) {
+        const category = product.category?.trim();
+        if (category) result.set(product.matchKey, category);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error fetching product categories:', error);
+      return result;
+    }
+  },
+
   async create(product: ProductData): Promise<void> {
     try {
       const normalized = normalizeBarcodeForMatch(product.barcode);
       if (!normalized) throw new Error('Barcode is required');
-      await db.productData.put({ ...product, barcode: product.barcode.trim(), matchKey: normalized });
+      const row: DBProductData = { ...product, barcode: product.barcode.trim(), matchKey: normalized };
+      await db.transaction('rw', db.productData, db.auditLog, async () => {
+        const current = await db.productData.get(row.barcode);
+        await db.productData.put(row);
+        await writeAuditEntries([buildAuditEntry('product', row.barcode, current, row, APP_CHANGE)]);
+      });
     } catch (error) {
       console.error('Error creating product data:', error);
       throw error;
@@ -284,7 +860,13 @@ export const productDataService = {
 
   async update(barcode: string, updates: Partial<Omit<ProductData, 'barcode'>>): Promise<void> {
     try {
-      await db.productData.update(barcode, updates);
+      await db.transaction('rw', db.productData, db.auditLog, async () => {
+        const current = await db.productData.get(barcode);
+        await db.productData.update(barcode, updates);
+        if (current) {
+          await writeAuditEntries([buildAuditEntry('product', barcode, current, { ...current, ...updates }, APP_CHANGE)]);
+        }
+      });
     } catch (error) {
       console.error('Error updating product data:', error);
       throw error;
@@ -293,21 +875,39 @@ export const productDataService = {
 
   async delete(barcode: string): Promise<void> {
     try {
-      await db.productData.delete(barcode);
+      await db.transaction('rw', db.productData, db.auditLog, async () => {
+        const current = await db.productData.get(barcode);
+        await db.productData.delete(barcode);
+        if (current) {
+          await writeAuditEntries([buildAuditEntry('product', barcode, current, undefined, APP_CHANGE)]);
+        }
+      });
     } catch (error) {
       console.error('Error deleting product data:', error);
       throw error;
     }
   },
 
+  // Batches keep large files responsive, so this is not one transaction.
+  // With a source, the rows written are recorded in the import history so
+  // the run can still be rolled back as a whole. A product matching a stored
+  // one (or an earlier row) by barcode is skipped or overwrites it, as the
+  // strategy says.
   async bulkCreate(
     products: ProductData[],
-    onProgress?: (processed: number, total: number) => void
-  ): Promise<{ success: number; errors: string[]; skipped: number }> {
+    onProgress?: (processed: number, total: number) => void,
+    { source, strategy = 'overwrite' }: { source?: ImportRunSource; strategy?: DuplicateStrategy } = {}
+  ): Promise<{ success: number; errors: string[]; skipped: number; duplicates: number }> {
     const errors: string[] = [];
     let success = 0;
     let skipped = 0;
+    let duplicates = 0;
     const batchSize = 250;
+    const createdIds = new Set<string>();
+    const before = new Map<string, DBProductData>();
+    const seen = new Set<string>();
+    const context: AuditContext = { source: 'import', detail: source?.fileName ?? '' };
+    let auditFailed = false;
 
     for (let start = 0; start < products.length; start += batchSize) {
       const batch = products.slice(start, start + batchSize);
@@ -325,34 +925,102 @@ export const productDataService = {
           return true;
         });
 
+      // A product saved from a scan keeps the barcode as scanned, so match on
+      // the key and write back under the stored barcode.
+      const stored = new Map(
+        (await db.productData.where('matchKey').anyOf(valid.map(product => product.matchKey)).toArray())
+          .map(product => [product.matchKey, product])
+      );
+      const pending: DBProductData[] = [];
+      for (const product of valid) {
+        const match = stored.get(product.matchKey);
+        if (strategy === 'skip' && (match || seen.has(product.matchKey))) {
+          duplicates++;
+          continue;
+        }
+        seen.add(product.matchKey);
+        pending.push(match ? { ...product, barcode: match.barcode } : product);
+      }
+      const written: DBProductData[] = [];
+
       try {
-        await db.productData.bulkPut(valid);
-        success += valid.length;
+        await db.productData.bulkPut(pending);
+        success += pending.length;
+        written.push(...pending);
       } catch (error) {
         // Fall back to individual writes only for a failed batch so one bad row
         // cannot abort the entire import.
-        for (const product of valid) {
+        for (const product of pending) {
           try {
             await db.productData.put(product);
             success++;
+            written.push(product);
           } catch (rowError) {
             errors.push(`Failed to import ${product.barcode}: ${rowError}`);
           }
         }
       }
 
+      // A repeat in the same batch changes the row this batch already wrote.
+      const latest = new Map<string, DBProductData>();
+      const audit = written.map(product => {
+        const previous = latest.get(product.matchKey) ?? stored.get(product.matchKey);
+        latest.set(product.matchKey, product);
+        return buildAuditEntry('product', product.barcode, previous, product, context);
+      });
+      try {
+        await writeAuditEntries(audit);
+      } catch (error) {
+        console.error('Error writing audit log:', error);
+        auditFailed = true;
+      }
+
+      if (source) {
+        for (const product of written) {
+          // Only the first sighting of a barcode counts; a repeat in a later
+          // batch would otherwise see this run's own row as the previous one.
+          if (createdIds.has(product.barcode) || before.has(product.barcode)) continue;
+          const old = stored.get(product.matchKey);
+          if (old) before.set(product.barcode, old);
+          else createdIds.add(product.barcode);
+        }
+      }
+
       onProgress?.(Math.min(start + batch.length, products.length), products.length);
       // Yield to Safari/iOS between batches so the browser can repaint and
       // handle input instead of appearing frozen during a large import.
       await new Promise(resolve => setTimeout(resolve, 0));
     }
 
-    return { success, errors, skipped };
+    if (source && success > 0) {
+      try {
+        await addImportRun({
+          kind: 'products',
+          ...source,
+          createdIds: Array.from(createdIds),
+          before: Array.from(before.values()),
+          createdLocationIds: []
+        });
+      } catch (error) {
+        console.error('Error recording import history:', error);
+        errors.push('The import worked, but it could not be added to the import history.');
+      }
+    }
+
+    if (auditFailed) errors.push('Some imported products could not be added to the change log.');
+
+    return { success, errors, skipped, duplicates };
   },
 
   async clear(): Promise<void> {
     try {
-      await db.productData.clear();
+      await db.transaction('rw', db.productData, db.auditLog, async () => {
+        const current = await db.productData.toArray();
+        await db.productData.clear();
+        await writeAuditEntries(
+          current.map(product => buildAuditEntry('product', product.barcode, product, undefined, APP_CHANGE))
+        );
+      });
     } catch (error) {
       console.error('Error clearing product data:', error);
       throw error;
@@ -360,37 +1028,541 @@ export const productDataService = {
   }
 };
 
+// CRUD operations for storage locations
+export const locationsService = {
+  async getAll(): Promise<StorageLocation[]> {
+    try {
+      return await db.locations.orderBy('sortOrder').toArray();
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      return [];
+    }
+  },
+
+  async create(name: string): Promise<StorageLocation> {
+    try {
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error('Location name is required');
+      const last = await db.locations.orderBy('sortOrder').last();
+      const location: StorageLocation = {
+        id: crypto.randomUUID(),
+        name: trimmed,
+        sortOrder: (last?.sortOrder ?? -1) + 1
+      };
+      await db.locations.add(location);
+      return location;
+    } catch (error) {
+      console.error('Error creating location:', error);
+      throw error;
+    }
+  },
+
+  async update(id: string, updates: Partial<Omit<StorageLocation, 'id'>>): Promise<void> {
+    try {
+      await db.locations.update(id, updates);
+    } catch (error) {
+      console.error('Error updating location:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await db.transaction('rw', db.locations, db.expirationRecords, db.auditLog, async () => {
+        const location = await db.locations.get(id);
+        const affected = await db.expirationRecords.where('locationId').equals(id).toArray();
+        await db.expirationRecords.where('locationId').equals(id).modify({ locationId: '' });
+        await db.locations.delete(id);
+        const context: AuditContext = { source: 'app', detail: `Location "${location?.name ?? ''}" deleted` };
+        await writeAuditEntries(
+          affected.map(record => buildAuditEntry('record', record.id, record, { ...record, locationId: '' }, context))
+        );
+      });
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      throw error;
+    }
+  },
+
+  // Resolve a location by name (case-insensitive), creating it when missing.
+  // Used by imports so a file can introduce new locations.
+  async findOrCreate(name: string): Promise<string> {
+    const trimmed = name.trim();
+    if (!trimmed) return '';
+    const existing = await db.locations
+      .filter(location => location.name.toLowerCase() === trimmed.toLowerCase())
+      .first();
+    if (existing) return existing.id;
+    return (await locationsService.create(trimmed)).id;
+  }
+};
+
+// Saved column mappings for import files, one per supplier layout
+export const importPresetsService = {
+  async getAll(kind: ImportKind): Promise<ImportPreset[]> {
+    try {
+      const presets = await db.importPresets.where('kind').equals(kind).toArray();
+      return presets.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching import presets:', error);
+      return [];
+    }
+  },
+
+  // Saving under an existing name for the same kind replaces that preset.
+  async save(preset: Omit<ImportPreset, 'id'>): Promise<ImportPreset> {
+    try {
+      const name = preset.name.trim();
+      if (!name) throw new Error('Preset name is required');
+      const existing = await db.importPresets
+        .where('kind').equals(preset.kind)
+        .filter(entry => entry.name.toLowerCase() === name.toLowerCase())
+        .first();
+      const saved: ImportPreset = { ...preset, name, id: existing?.id ?? crypto.randomUUID() };
+      await db.importPresets.put(saved);
+      return saved;
+    } catch (error) {
+      console.error('Error saving import preset:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await db.importPresets.delete(id);
+    } catch (error) {
+      console.error('Error deleting import preset:', error);
+      throw error;
+    }
+  }
+};
+
+const addImportRun = async (
+  run: Omit<DBImportRun, 'id' | 'importedAt' | 'rolledBackAt'>
+): Promise<void> => {
+  await db.importRuns.add({
+    ...run,
+    id: crypto.randomUUID(),
+    importedAt: new Date().toISOString(),
+    rolledBackAt: ''
+  });
+  const stale = await db.importRuns.orderBy('importedAt').reverse().offset(IMPORT_HISTORY_LIMIT).primaryKeys();
+  await db.importRuns.bulkDelete(stale);
+};
+
+// Past imports, newest first, and their rollback
+export const importHistoryService = {
+  async getAll(): Promise<DBImportRun[]> {
+    try {
+      return await db.importRuns.orderBy('importedAt').reverse().toArray();
+    } catch (error) {
+      console.error('Error fetching import history:', error);
+      return [];
+    }
+  },
+
+  // Undo a run in one transaction: rows it added are deleted and rows it
+  // overwrote get their earlier version back. Later edits to those rows are
+  // lost, which is the point when the file was bad; whether a record is in
+  // the trash is not. Records with units removed since the import are left
+  // as they are, so their dispositions still add up.
+  // Returns how many records were left that way.
+  async rollback(id: string): Promise<number> {
+    try {
+      return await db.transaction(
+        'rw',
+        [db.importRuns, db.expirationRecords, db.productData, db.locations, db.dispositions, db.auditLog],
+        async () => {
+          const run = await db.importRuns.get(id);
+          if (!run) throw new Error('Import not found');
+          if (run.rolledBackAt) throw new Error('This import was already rolled back');
+          const context: AuditContext = { source: 'rollback', detail: run.fileName };
+          let kept = 0;
+
+          if (run.kind === 'records') {
+            const removedSince = new Set(
+              (await db.dispositions.where('disposedAt').above(run.importedAt).toArray()).map(
+                disposition => disposition.recordId
+              )
+            );
+            const keep = (record: DBExpirationRecord) => {
+              const hasDispositions = !!record.disposedAt || removedSince.has(record.id);
+              if (hasDispositions) kept++;
+              return hasDispositions;
+            };
+
+            // Trashed rows stay in the trash: added ones are purged like any
+            // trashed record, overwritten ones get their earlier values but
+            // keep their deletedAt. Rows deleted for good since stay gone.
+            const created = (await db.expirationRecords.bulkGet(run.createdIds)).filter(
+              (record): record is DBExpirationRecord => !!record && !keep(record)
+            );
+            const before = run.before as DBExpirationRecord[];
+            const current = await db.expirationRecords.bulkGet(before.map(record => record.id));
+            const overwritten = before.flatMap((record, index) => {
+              const row = current[index];
+              return row && !keep(row) ? [{ row, restored: { ...record, deletedAt: row.deletedAt } }] : [];
+            });
+            await writeAuditEntries([
+              ...created.map(record =>
+                buildAuditEntry('record', record.id, record, undefined, context, isTrashed(record) ? 'purge' : 'delete')
+              ),
+              ...overwritten.map(({ row, restored }) => buildAuditEntry('record', row.id, row, restored, context))
+            ]);
+            await db.expirationRecords.bulkDelete(created.map(record => record.id));
+            await db.expirationRecords.bulkPut(overwritten.map(({ restored }) => restored));
+            for (const locationId of run.createdLocationIds) {
+              if (await db.expirationRecords.where('locationId').equals(locationId).count() === 0) {
+                await db.locations.delete(locationId);
+              }
+            }
+          } else {
+            const before = run.before as DBProductData[];
+            const created = await db.productData.bulkGet(run.createdIds);
+            const overwritten = await db.productData.bulkGet(before.map(product => product.barcode));
+            await writeAuditEntries([
+              ...created.map(product => product && buildAuditEntry('product', product.barcode, product, undefined, context)),
+              ...before.map((product, index) => buildAuditEntry('product', product.barcode, overwritten[index], product, context))
+            ]);
+            await db.productData.bulkDelete(run.createdIds);
+            await db.productData.bulkPut(run.before as DBProductData[]);
+          }
+
+          await db.importRuns.update(id, { rolledBackAt: new Date().toISOString() });
+          return kept;
+        }
+      );
+    } catch (error) {
+      console.error('Error rolling back import:', error);
+      throw error;
+    }
+  }
+};
+
+const convertToDisposition = (disposition: DBDisposition): Disposition => ({
+  ...disposition,
+  expirationDate: new Date(disposition.expirationDate),
+  disposedAt: new Date(disposition.disposedAt)
+});
+
+// Stock taken off the shelf with a reason: sold, discarded and so on
+export const dispositionsService = {
+  // Take `quantity` units off each record in one transaction. A record with
+  // nothing left is marked disposed rather than deleted, so its history and
+  // dispositions stay and the trash leaves it alone.
+  // Returns the new disposition IDs, for undo.
+  async dispose(items: { recordId: string; quantity: number }[], input: DispositionInput): Promise<string[]> {
+    try {
+      if (input.unitCost !== null && !(input.unitCost >= 0)) throw new Error('Cost must be zero or more');
+      return await db.transaction('rw', [db.expirationRecords, db.dispositions, db.auditLog], async () => {
+        const ids: string[] = [];
+        const audit: (DBAuditEntry | null)[] = [];
+        const disposedAt = new Date().toISOString();
+
+        for (const { recordId, quantity } of items) {
+          const record = await db.expirationRecords.get(recordId);
+          if (!record || !isLive(record)) throw new Error('Item not found');
+          if (!Number.isInteger(quantity) || quantity < 0 || quantity > record.quantity || (quantity === 0 && record.quantity > 0)) {
+            throw new Error(`Quantity for "${record.itemName}" must be between 1 and ${record.quantity}`);
+          }
+
+          const remaining = record.quantity - quantity;
+          const disposition: DBDisposition = {
+            id: crypto.randomUUID(),
+            recordId,
+            barcode: record.barcode,
+            itemName: record.itemName,
+            lotNumber: record.lotNumber ?? '',
+            locationId: record.locationId ?? '',
+            expirationDate: record.expirationDate,
+            reason: input.reason,
+            quantity,
+            unitCost: input.unitCost,
+            notes: input.notes.trim(),
+            disposedAt,
+            remaining
+          };
+          await db.dispositions.add(disposition);
+          ids.push(disposition.id);
+
+          const context: AuditContext = {
+            source: 'disposition',
+            detail: `${getDispositionLabel(input.reason)}: ${quantity} of ${record.quantity}`
+          };
+          if (remaining > 0) {
+            await db.expirationRecords.update(recordId, { quantity: remaining });
+            audit.push(buildAuditEntry('record', recordId, record, { ...record, quantity: remaining }, context));
+          } else {
+            await db.expirationRecords.update(recordId, { disposedAt });
+            audit.push(buildAuditEntry('record', recordId, record, undefined, context));
+          }
+        }
+
+        await writeAuditEntries(audit);
+        return ids;
+      });
+    } catch (error) {
+      console.error('Error recording disposition:', error);
+      throw error;
+    }
+  },
+
+  // Put the units back and forget the dispositions. A record removed from the
+  // database since (e.g. by restoring a backup) cannot come back, but its
+  // disposition is still removed.
+  async undo(ids: string[]): Promise<void> {
+    try {
+      await db.transaction('rw', [db.expirationRecords, db.dispositions, db.auditLog], async () => {
+        const dispositions = (await db.dispositions.bulkGet(ids))
+          .filter((disposition): disposition is DBDisposition => !!disposition);
+        const audit: (DBAuditEntry | null)[] = [];
+
+        for (const disposition of dispositions.reverse()) {
+          const record = await db.expirationRecords.get(disposition.recordId);
+          const context: AuditContext = {
+            source: 'disposition',
+            detail: `Undo ${getDispositionLabel(disposition.reason).toLowerCase()}: ${disposition.quantity}`
+          };
+          if (record && disposition.remaining === 0 && record.disposedAt) {
+            await db.expirationRecords.update(record.id, { disposedAt: '' });
+            audit.push(buildAuditEntry('record', record.id, undefined, record, context, 'restore'));
+          } else if (record && disposition.remaining > 0) {
+            const quantity = record.quantity + disposition.quantity;
+            await db.expirationRecords.update(record.id, { quantity });
+            audit.push(buildAuditEntry('record', record.id, record, { ...record, quantity }, context));
+          }
+        }
+
+        await db.dispositions.bulkDelete(dispositions.map(disposition => disposition.id));
+        await writeAuditEntries(audit);
+      });
+    } catch (error) {
+      console.error('Error undoing disposition:', error);
+      throw error;
+    }
+  },
+
+  // Newest first.
+  async getForRecord(recordId: string): Promise<Disposition[]> {
+    try {
+      const dispositions = await db.dispositions.where('recordId').equals(recordId).toArray();
+      return dispositions
+        .map(convertToDisposition)
+        .sort((a, b) => b.disposedAt.getTime() - a.disposedAt.getTime());
+    } catch (error) {
+      console.error('Error fetching dispositions:', error);
+      return [];
+    }
+  },
+
+  // Oldest first.
+  async getAll(): Promise<Disposition[]> {
+    try {
+      return (await db.dispositions.orderBy('disposedAt').toArray()).map(convertToDisposition);
+    } catch (error) {
+      console.error('Error fetching dispositions:', error);
+      return [];
+    }
+  }
+};
+
+// Read side of the append-only change log
+export const auditLogService = {
+  // Newest first. Filtering walks the log from the newest entry and stops
+  // once `limit` entries match.
+  async query(filter: AuditLogFilter = {}, limit = 100): Promise<DBAuditEntry[]> {
+    try {
+      const search = filter.search?.trim().toLowerCase() ?? '';
+      return await db.auditLog
+        .orderBy('timestamp')
+        .reverse()
+        .filter(entry =>
+          (!filter.entityType || entry.entityType === filter.entityType) &&
+          (!filter.action || entry.action === filter.action) &&
+          (!filter.source || entry.source === filter.source) &&
+          (!search ||
+            entry.itemName.toLowerCase().includes(search) ||
+            entry.entityId.toLowerCase().includes(search))
+        )
+        .limit(limit)
+        .toArray();
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      return [];
+    }
+  },
+
+  // One record's or product's history, newest first.
+  async getForEntity(entityType: AuditEntityType, entityId: string): Promise<DBAuditEntry[]> {
+    try {
+      const entries = await db.auditLog
+        .where('entityId').equals(entityId)
+        .filter(entry => entry.entityType === entityType)
+        .toArray();
+      return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    } catch (error) {
+      console.error('Error fetching item history:', error);
+      return [];
+    }
+  }
+};
+
+export const getLocationName = (locations: StorageLocation[], locationId: string): string =>
+  locations.find(location => location.id === locationId)?.name || '';
+
+const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  notifyOnExpirationDay: true,
+  quantityThreshold: 2
+};
+
+// All settings share one row. Read, merge and write it in one transaction so
+// two saves at once cannot drop each other's fields.
+const patchSettings = (patch: Partial<Omit<DBSettings, 'id'>>): Promise<void> =>
+  db.transaction('rw', db.settings, async () => {
+    const existing = await db.settings.get('default');
+    await db.settings.put({
+      notifications: DEFAULT_NOTIFICATION_SETTINGS,
+      theme: 'system',
+      ...existing,
+      ...patch,
+      id: 'default'
+    });
+  });
+
 // Settings operations
 export const settingsService = {
   async get(): Promise<NotificationSettings> {
     try {
       const settings = await db.settings.get('default');
-      return settings?.notifications || {
-        daysBeforeExpiration: 7,
-        notifyOnExpirationDay: true,
-        quantityThreshold: 2
-      };
+      return settings?.notifications || DEFAULT_NOTIFICATION_SETTINGS;
     } catch (error) {
       console.error('Error fetching settings:', error);
-      return {
-        daysBeforeExpiration: 7,
-        notifyOnExpirationDay: true,
-        quantityThreshold: 2
-      };
+      return DEFAULT_NOTIFICATION_SETTINGS;
     }
   },
 
   async update(notifications: NotificationSettings): Promise<void> {
     try {
-      await db.settings.put({
-        id: 'default',
-        notifications,
-        theme: 'system'
-      });
+      await patchSettings({ notifications });
     } catch (error) {
       console.error('Error updating settings:', error);
       throw error;
     }
+  },
+
+  async getStatusRules(): Promise<StatusRules> {
+    try {
+      const settings = await db.settings.get('default');
+      return normalizeStatusRules(settings?.statusRules);
+    } catch (error) {
+      console.error('Error fetching status rules:', error);
+      return DEFAULT_STATUS_RULES;
+    }
+  },
+
+  async updateStatusRules(statusRules: StatusRules): Promise<void> {
+    try {
+      await patchSettings({ statusRules });
+    } catch (error) {
+      console.error('Error updating status rules:', error);
+      throw error;
+    }
+  },
+
+  async getScannerSettings(): Promise<ScannerSettings> {
+    try {
+      const settings = await db.settings.get('default');
+      return normalizeScannerSettings(settings?.scanner);
+    } catch (error) {
+      console.error('Error fetching scanner settings:', error);
+      return DEFAULT_SCANNER_SETTINGS;
+    }
+  },
+
+  async updateScannerSettings(scanner: ScannerSettings): Promise<void> {
+    try {
+      await patchSettings({ scanner });
+    } catch (error) {
+      console.error('Error updating scanner settings:', error);
+      throw error;
+    }
+  },
+
+  async getExportProfile(): Promise<ExportProfile> {
+    try {
+      const settings = await db.settings.get('default');
+      return normalizeExportProfile(settings?.exportProfile);
+    } catch (error) {
+      console.error('Error fetching export profile:', error);
+      return DEFAULT_EXPORT_PROFILE;
+    }
+  },
+
+  async updateExportProfile(exportProfile: ExportProfile): Promise<void> {
+    try {
+      await patchSettings({ exportProfile });
+    } catch (error) {
+      console.error('Error updating export profile:', error);
+      throw error;
+    }
+  },
+
+  async getStoreName(): Promise<string> {
+    try {
+      const settings = await db.settings.get('default');
+      return typeof settings?.storeName === 'string' ? settings.storeName : '';
+    } catch (error) {
+      console.error('Error fetching store name:', error);
+      return '';
+    }
+  },
+
+  async getTrashRetentionDays(): Promise<number> {
+    try {
+      const settings = await db.settings.get('default');
+      const days = settings?.trashRetentionDays;
+      return typeof days === 'number' && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+    } catch (error) {
+      console.error('Error fetching trash retention:', error);
+      return DEFAULT_TRASH_RETENTION_DAYS;
+    }
+  },
+
+  async updateTrashRetentionDays(trashRetentionDays: number): Promise<void> {
+    try {
+      await patchSettings({ trashRetentionDays: Math.max(0, Math.round(trashRetentionDays)) });
+    } catch (error) {
+      console.error('Error updating trash retention:', error);
+      throw error;
+    }
+  },
+
+  async updateStoreName(storeName: string): Promise<void> {
+    try {
+      await patchSettings({ storeName: storeName.trim() });
+    } catch (error) {
+      console.error('Error updating store name:', error);
+      throw error;
+    }
+  },
+
+  async getImportDuplicates(): Promise<ImportDuplicateSettings> {
+    try {
+      const settings = await db.settings.get('default');
+      return normalizeImportDuplicates(settings?.importDuplicates);
+    } catch (error) {
+      console.error('Error fetching import duplicate settings:', error);
+      return DEFAULT_IMPORT_DUPLICATES;
+    }
+  },
+
+  async updateImportDuplicates(importDuplicates: ImportDuplicateSettings): Promise<void> {
+    try {
+      await patchSettings({ importDuplicates });
+    } catch (error) {
+      console.error('Error updating import duplicate settings:', error);
+      throw error;
+    }
   }
 };
 
@@ -402,12 +1574,10 @@ export const initializeDatabase = async (): Promise<void> => {
     // Check if settings exist, if not create default
     const existingSettings = await db.settings.get('default');
     if (!existingSettings) {
-      await settingsService.update({
-        daysBeforeExpiration: 7,
-        notifyOnExpirationDay: true,
-        quantityThreshold: 2
-      });
+      await settingsService.update(DEFAULT_NOTIFICATION_SETTINGS);
     }
+
+    await expirationRecordsService.purgeTrash(await settingsService.getTrashRetentionDays());
   } catch (error) {
     console.error('Error initializing database:', error);
   }
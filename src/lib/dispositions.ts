@@ -0,0 +1,27 @@
+"use client";
+
+import type { Disposition, DispositionReason } from '@/types';
+
+export const DISPOSITION_REASONS: {
+  id: DispositionReason;
+  label: string;
+  description: string;
+  /** Counts as waste in reports. */
+  waste: boolean;
+}[] = [
+  { id: 'sold', label: 'Sold through', description: 'Sold at full price before expiry', waste: false },
+  { id: 'markedDown', label: 'Marked down', description: 'Sold at a reduced price', waste: false },
+  { id: 'donated', label: 'Donated', description: 'Given to a food bank or charity', waste: false },
+  { id: 'returned', label: 'Returned to vendor', description: 'Sent back for credit', waste: false },
+  { id: 'discarded', label: 'Discarded', description: 'Thrown away', waste: true },
+];
+
+export const getDispositionLabel = (reason: DispositionReason): string =>
+  DISPOSITION_REASONS.find(info => info.id === reason)?.label ?? reason;
+
+/** Total cost of the units, or null when no unit cost was given. */
+export const getDispositionValue = (disposition: Pick<Disposition, 'quantity' | 'unitCost'>): number | null =>
+  disposition.unitCost === null ? null : disposition.unitCost * disposition.quantity;
+
+export const formatCost = (value: number): string =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
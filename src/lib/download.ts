@@ -0,0 +1,15 @@
+"use client";
+
+// Save generated content through a temporary link. Works for files built in
+// memory (backups, CSV, JSON) where there is no server URL to point at.
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking in the same tick cancels the download on iOS Safari.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -1,238 +1,117 @@
 "use client";
 
 import * as XLSX from 'xlsx';
-import type { ExpirationRecord, ProductData, ExcelImportResult, ExcelExportData } from '@/types';
+import { format } from 'date-fns';
+import type { ExpirationRecord, ProductData, ExcelImportResult, ExportColumn, ExportProfile, StorageLocation } from '@/types';
 import { normalizeBarcodeForMatch } from '@/lib/db';
-
-// Excel import for product data
-export const importProductDataFromExcel = async (file: File): Promise<ExcelImportResult> => {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, {
-      type: 'array',
-      dense: true,
-      cellStyles: false,
-      cellFormula: false,
-      cellHTML: false,
-      cellNF: false,
-    });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    
-    // Convert to JSON
-    const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-      header: 1,
-      raw: false,
-      defval: '',
-    }) as string[][];
-    
-    if (jsonData.length < 2) {
-      return {
-        success: false,
-        imported: 0,
-        errors: ['File must contain at least a header row and one data row']
-      };
-    }
-
-    const headers = jsonData[0].map(h => h?.toString().toLowerCase().trim());
-    
-    // Find column indices with flexible matching
-    const barcodeIndex = headers.findIndex(h => 
-      h.includes('barcode') || h.includes('upc') || h.includes('ean') || h.includes('code')
-    );
-    
-    const itemNameIndex = headers.findIndex(h => 
-      h.includes('item') || h.includes('name') || h.includes('product') || h.includes('title')
-    );
-    
-    const descriptionIndex = headers.findIndex(h => 
-      h.includes('description') || h.includes('desc') || h.includes('detail')
-    );
-
-    // Check for required columns
-    if (barcodeIndex === -1) {
-      return {
-        success: false,
-        imported: 0,
-        errors: ['Barcode column not found. Expected column names: Barcode, UPC, EAN, or Code']
-      };
-    }
-    
-    if (itemNameIndex === -1) {
-      return {
-        success: false,
-        imported: 0,
-        errors: ['Item name column not found. Expected column names: Item Name, Name, Product, or Title']
-      };
-    }
-
-    const products: ProductData[] = [];
-    const errors: string[] = [];
-
-    // Process data rows
-    for (let i = 1; i < jsonData.length; i++) {
-      const row = jsonData[i];
-      
-      if (!row || row.length === 0) continue;
-
-      const rawBarcode = row[barcodeIndex]?.toString().trim();
-      const barcodeKey = normalizeBarcodeForMatch(rawBarcode);
-      const barcode = barcodeKey || rawBarcode;
-      const itemName = row[itemNameIndex]?.toString().trim();
-      const description = row[descriptionIndex]?.toString().trim();
-
-      if (!barcodeKey || !itemName) {
-        errors.push(`Row ${i + 1}: Missing barcode or item name`);
-        continue;
-      }
-
-      products.push({
-        barcode,
-        itemName,
-        description: description || '',
-        matchKey: barcodeKey
-      });
+import { downloadBlob } from '@/lib/download';
+import { EXPORT_COLUMNS, getExportColumnInfo, getExportFormatInfo, toExportRow } from '@/lib/exportProfile';
+import type { MappedRow } from '@/lib/importMapping';
+
+// Product data from mapped import rows (see importMapping.ts)
+export const importProductData = (rows: MappedRow[]): ExcelImportResult => {
+  const products: ProductData[] = [];
+  const errors: string[] = [];
+
+  for (const row of rows) {
+    const rawBarcode = String(row.values.barcode ?? '').trim();
+    const barcodeKey = normalizeBarcodeForMatch(rawBarcode);
+    const barcode = barcodeKey || rawBarcode;
+    const itemName = String(row.values.itemName ?? '').trim();
+    const description = String(row.values.description ?? '').trim();
+    const category = String(row.values.category ?? '').trim();
+
+    if (!barcodeKey || !itemName) {
+      errors.push(`Row ${row.rowNumber}: Missing barcode or item name`);
+      continue;
     }
 
-    return {
-      success: true,
-      imported: products.length,
-      errors,
-      data: products
-    };
+    products.push({
+      barcode,
+      itemName,
+      description,
+      category,
+      matchKey: barcodeKey
+    });
+  }
 
-  } catch (error) {
+  if (products.length === 0) {
     return {
       success: false,
       imported: 0,
-      errors: [`Failed to parse Excel file: ${error}`]
+      errors: errors.length ? errors : ['No data rows found below the header row']
     };
   }
+
+  return {
+    success: true,
+    imported: products.length,
+    errors,
+    data: products
+  };
 };
 
-// Excel export for expiration records with column filtering
-export const exportExpirationRecordsToExcel = (
-  records: ExpirationRecord[], 
-  columnOptions?: {
-    barcode?: boolean;
-    itemName?: boolean;
-    description?: boolean;
-    quantity?: boolean;
-    expirationDate?: boolean;
-    remainingDays?: boolean;
-    status?: boolean;
-    notes?: boolean;
-    dateCreated?: boolean;
-  }
-): void => {
-  try {
-    // Default to include all columns if no options provided
-    const options = {
-      barcode: true,
-      itemName: true,
-      description: true,
-      quantity: true,
-      expirationDate: true,
-      remainingDays: true,
-      status: true,
-      notes: true,
-      dateCreated: true,
-      ...columnOptions
-    };
+export type ExportFileOptions = Pick<ExportProfile, 'format' | 'csvDelimiter' | 'csvBom'>;
 
-    // Prepare full data for export
-    const fullExportData: ExcelExportData[] = records.map(record => ({
-      barcode: record.barcode,
-      itemName: record.itemName,
-      description: record.description,
-      quantity: record.quantity,
-      expirationDate: record.expirationDate.toLocaleDateString(),
-      remainingDays: record.remainingDays,
-      status: record.status.replace('-', ' '),
-      notes: record.notes,
-      dateCreated: record.dateCreated.toLocaleDateString()
-    }));
+const XLSX_EXPORT_OPTIONS: ExportFileOptions = { format: 'xlsx', csvDelimiter: ',', csvBom: false };
 
-    // Filter data based on selected columns
-    const filteredData = fullExportData.map(row => {
-      const filtered: Partial<ExcelExportData> = {};
-      
-      if (options.barcode) filtered.barcode = row.barcode;
-      if (options.itemName) filtered.itemName = row.itemName;
-      if (options.description) filtered.description = row.description;
-      if (options.quantity) filtered.quantity = row.quantity;
-      if (options.expirationDate) filtered.expirationDate = row.expirationDate;
-      if (options.remainingDays) filtered.remainingDays = row.remainingDays;
-      if (options.status) filtered.status = row.status;
-      if (options.notes) filtered.notes = row.notes;
-      if (options.dateCreated) filtered.dateCreated = row.dateCreated;
-      
-      return filtered;
-    });
+const toISODay = (date: Date): string => format(date, 'yyyy-MM-dd');
 
-    // Create dynamic headers based on selected columns
-    const headerMapping: Record<string, string> = {
-      barcode: 'Barcode',
-      itemName: 'Item Name',
-      description: 'Description',
-      quantity: 'Quantity',
-      expirationDate: 'Expiration Date',
-      remainingDays: 'Remaining Days',
-      status: 'Status',
-      notes: 'Notes',
-      dateCreated: 'Date Created'
-    };
-
-    const selectedHeaders = Object.keys(options)
-      .filter(key => options[key as keyof typeof options])
-      .map(key => headerMapping[key]);
-
-    // Create workbook and worksheet
-    const workbook = XLSX.utils.book_new();
-    const worksheet = XLSX.utils.json_to_sheet(filteredData);
+// Export expiration records as xlsx, ods, csv or json. Every format writes the
+// same records and columns; `columns` sets both which are written and their
+// order.
+export const exportExpirationRecords = (
+  records: ExpirationRecord[],
+  columns: ExportColumn[] = EXPORT_COLUMNS.map(column => column.id),
+  locations: StorageLocation[] = [],
+  options: ExportFileOptions = XLSX_EXPORT_OPTIONS
+): void => {
+  try {
+    // Generate filename with current date and column count
+    const now = new Date();
+    const dateStr = now.toISOString().split('T')[0];
+    const extension = getExportFormatInfo(options.format).extension;
+    const filename = `expiration-records-${dateStr}-${columns.length}cols.${extension}`;
+
+    // JSON feeds other tools, so it keeps column ids as keys, numbers as
+    // numbers and dates as YYYY-MM-DD.
+    if (options.format === 'json') {
+      const rows = records.map(record => {
+        const row = toExportRow(record, locations, toISODay);
+        return Object.fromEntries(columns.map(column => [column, row[column]]));
+      });
+      downloadBlob(new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' }), filename);
+      return;
+    }
 
-    // Set custom headers
-    selectedHeaders.forEach((header, index) => {
-      const cellAddress = XLSX.utils.encode_cell({ r: 0, c: index });
-      if (worksheet[cellAddress]) {
-        worksheet[cellAddress].v = header;
-      }
+    const rows = records.map(record => {
+      const row = toExportRow(record, locations);
+      return columns.map(column => row[column]);
     });
 
-    // Set dynamic column widths based on selected columns
-    const columnWidthMapping: Record<string, number> = {
-      barcode: 15,
-      itemName: 25,
-      description: 30,
-      quantity: 10,
-      expirationDate: 15,
-      remainingDays: 15,
-      status: 15,
-      notes: 30,
-      dateCreated: 15
-    };
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      columns.map(column => getExportColumnInfo(column).header),
+      ...rows
+    ]);
 
-    const columnWidths = Object.keys(options)
-      .filter(key => options[key as keyof typeof options])
-      .map(key => ({ wch: columnWidthMapping[key] || 15 }));
+    if (options.format === 'csv') {
+      const csv = XLSX.utils.sheet_to_csv(worksheet, { FS: options.csvDelimiter });
+      const bom = options.csvBom ? '\uFEFF' : '';
+      downloadBlob(new Blob([bom + csv], { type: 'text/csv;charset=utf-8' }), filename);
+      return;
+    }
 
-    worksheet['!cols'] = columnWidths;
+    worksheet['!cols'] = columns.map(column => ({ wch: getExportColumnInfo(column).width }));
 
-    // Add worksheet to workbook
+    const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Expiration Records');
 
-    // Generate filename with current date and column count
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0];
-    const columnCount = Object.values(options).filter(Boolean).length;
-    const filename = `expiration-records-${dateStr}-${columnCount}cols.xlsx`;
-
     // Write and download file
-    XLSX.writeFile(workbook, filename);
+    XLSX.writeFile(workbook, filename, { bookType: options.format });
 
   } catch (error) {
-    console.error('Error exporting to Excel:', error);
-    throw new Error('Failed to export data to Excel');
+    console.error('Error exporting records:', error);
+    throw new Error('Failed to export records');
   }
 };
 
@@ -243,12 +122,14 @@ export const downloadProductDataTemplate = (): void => {
       {
         'Barcode': '0123456789',
         'Item Name': 'Sample Product',
-        'Description': 'Sample product description'
+        'Description': 'Sample product description',
+        'Category': 'Dairy'
       },
       {
         'Barcode': '9876543210', 
         'Item Name': 'Another Product',
-        'Description': 'Another product description'
+        'Description': 'Another product description',
+        'Category': 'Dry Goods'
       }
     ];
 
@@ -259,7 +140,8 @@ export const downloadProductDataTemplate = (): void => {
     worksheet['!cols'] = [
       { wch: 15 }, // Barcode
       { wch: 25 }, // Item Name
-      { wch: 30 }  // Description
+      { wch: 30 }, // Description
+      { wch: 15 }  // Category
     ];
 
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Product Data Template');
@@ -298,91 +180,3 @@ export const validateExcelFile = (file: File): { valid: boolean; error?: string
 
   return { valid: true };
 };
-
-// CSV import support
-export const importProductDataFromCSV = async (file: File): Promise<ExcelImportResult> => {
-  try {
-    const text = await file.text();
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    if (lines.length < 2) {
-      return {
-        success: false,
-        imported: 0,
-        errors: ['CSV file must contain at least a header row and one data row']
-      };
-    }
-
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/"/g, ''));
-    
-    // Find column indices with flexible matching
-    const barcodeIndex = headers.findIndex(h => 
-      h.includes('barcode') || h.includes('upc') || h.includes('ean') || h.includes('code')
-    );
-    
-    const itemNameIndex = headers.findIndex(h => 
-      h.includes('item') || h.includes('name') || h.includes('product') || h.includes('title')
-    );
-    
-    const descriptionIndex = headers.findIndex(h => 
-      h.includes('description') || h.includes('desc') || h.includes('detail')
-    );
-
-    // Check for required columns
-    if (barcodeIndex === -1) {
-      return {
-        success: false,
-        imported: 0,
-        errors: ['Barcode column not found. Expected column names: Barcode, UPC, EAN, or Code']
-      };
-    }
-    
-    if (itemNameIndex === -1) {
-      return {
-        success: false,
-        imported: 0,
-        errors: ['Item name column not found. Expected column names: Item Name, Name, Product, or Title']
-      };
-    }
-
-    const products: ProductData[] = [];
-    const errors: string[] = [];
-
-    // Process data rows
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-      
-      const rawBarcode = values[barcodeIndex]?.trim();
-      const barcodeKey = normalizeBarcodeForMatch(rawBarcode);
-      const barcode = barcodeKey || rawBarcode;
-      const itemName = values[itemNameIndex]?.trim();
-      const description = values[descriptionIndex]?.trim();
-
-      if (!barcodeKey || !itemName) {
-        errors.push(`Row ${i + 1}: Missing barcode or item name`);
-        continue;
-      }
-
-      products.push({
-        barcode,
-        itemName,
-        description: description || '',
-        matchKey: barcodeKey
-      });
-    }
-
-    return {
-      success: true,
-      imported: products.length,
-      errors,
-      data: products
-    };
-
-  } catch (error) {
-    return {
-      success: false,
-      imported: 0,
-      errors: [`Failed to parse CSV file: ${error}`]
-    };
-  }
-};
\ No newline at end of file
@@ -0,0 +1,164 @@
+"use client";
+
+import type { Worker } from 'tesseract.js';
+import { buildDate, monthFromName, toYear } from './dateParsing';
+
+// Reading printed expiry dates ("BB 12/2026", "EXP 2026-03-01",
+// "BEST BEFORE 03 MAR 26", "BB 03OCT26") from a camera frame. OCR runs in a Tesseract
+// worker loaded from /ocr (see scripts/copy-ocr-assets.mjs), never a CDN.
+
+export interface ExpiryDateCandidate {
+  /** YYYY-MM-DD */
+  date: string;
+  /** The text the date was read from, as recognized. */
+  source: string;
+  /** True when the date follows a keyword such as EXP or BEST BEFORE. */
+  labelled: boolean;
+  /** Set when day and month could be swapped, e.g. 04/05/2026. */
+  ambiguous: boolean;
+}
+
+export interface ExpiryOcrResult {
+  text: string;
+  candidates: ExpiryDateCandidate[];
+}
+
+const KEYWORD = /(BEST\s*BEFORE(?:\s*END)?|BEST\s*BY|USE\s*BY|SELL\s*BY|EXPIRY|EXPIRES|EXP(?:\.|\s*DATE)?|BBE|BB)\s*[:.]?\s*$/;
+
+// OCR often reads O for 0 and I/l for 1 inside numbers. A letter is only
+// replaced when it touches a digit and no other letter, so month names run
+// into digits ("03OCT26", "12JUL26") are left alone.
+const cleanOcrText = (text: string): string =>
+  text
+    .toUpperCase()
+    .replace(/(?<=\d)O(?![A-Z])|(?<![A-Z])O(?=\d)/g, '0')
+    .replace(/(?<=\d)[IL|](?![A-Z])|(?<![A-Z])[IL|](?=\d)/g, '1');
+
+interface Pattern {
+  regex: RegExp;
+  parse: (match: RegExpExecArray) => { dates: string[]; ambiguous: boolean };
+}
+
+const single = (date: string | null) => ({ dates: date ? [date] : [], ambiguous: false });
+
+// Month-only dates ("12/2026", "MAR 26") mean the end of that month; see
+// buildDate in dateParsing.ts.
+const month = (name: string) => monthFromName(name) ?? 0;
+
+const PATTERNS: Pattern[] = [
+  // 2026-03-01, 2026/03/01, 2026.03.01
+  {
+    regex: /(?<!\d)(20\d{2})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/g,
+    parse: m => single(buildDate(Number(m[1]), Number(m[2]), Number(m[3]))),
+  },
+  // 01/03/2026, 01.03.26 — day/month order decided by value when possible
+  {
+    regex: /(?<!\d)(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/g,
+    parse: m => {
+      const a = Number(m[1]);
+      const b = Number(m[2]);
+      const year = toYear(m[3]);
+      const dayFirst = buildDate(year, b, a);
+      const monthFirst = buildDate(year, a, b);
+      if (dayFirst && monthFirst && dayFirst !== monthFirst) {
+        return { dates: [dayFirst, monthFirst], ambiguous: true };
+      }
+      return single(dayFirst ?? monthFirst);
+    },
+  },
+  // 03 MAR 26, 03MAR2026, 3-MAR-26
+  {
+    regex: /(?<!\d)(\d{1,2})[\s\-/.]*(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEPT?|OCT|NOV|DEC)[A-Z]*[\s\-/.,]*(\d{4}|\d{2})(?!\d)/g,
+    parse: m => single(buildDate(toYear(m[3]), month(m[2]), Number(m[1]))),
+  },
+  // MAR 03 2026
+  {
+    regex: /(?<![A-Z])(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEPT?|OCT|NOV|DEC)[A-Z]*[\s\-/.]*(\d{1,2})[\s,]+(\d{4})(?!\d)/g,
+    parse: m => single(buildDate(Number(m[3]), month(m[1]), Number(m[2]))),
+  },
+  // MAR 2026, MAR 26
+  {
+    regex: /(?<![A-Z])(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEPT?|OCT|NOV|DEC)[A-Z]*[\s\-/.]*(\d{4}|\d{2})(?!\d)/g,
+    parse: m => single(buildDate(toYear(m[2]), month(m[1]))),
+  },
+  // 12/2026, 12/26, 2026/12
+  {
+    regex: /(?<!\d)(\d{1,2})[-/.](\d{4}|\d{2})(?!\d)|(?<!\d)(20\d{2})[-/.](\d{1,2})(?!\d)/g,
+    parse: m => m[3]
+      ? single(buildDate(Number(m[3]), Number(m[4])))
+      : single(buildDate(toYear(m[2]), Number(m[1]))),
+  },
+];
+
+/**
+ * Find expiry dates in OCR text. Labelled dates come first; unlabelled ones
+ * (a production date, say) are kept but ranked after them.
+ */
+export const parseExpiryText = (rawText: string, today: Date = new Date()): ExpiryDateCandidate[] => {
+  const text = cleanOcrText(rawText);
+  // Anything older than last year is a production or packing date.
+  const earliestYear = today.getFullYear() - 1;
+  const candidates: ExpiryDateCandidate[] = [];
+  // Characters already claimed by a more specific pattern.
+  const claimed: [number, number][] = [];
+
+  for (const pattern of PATTERNS) {
+    pattern.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.regex.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (claimed.some(([s, e]) => start < e && end > s)) continue;
+
+      const { dates, ambiguous } = pattern.parse(match);
+      if (dates.length === 0) continue;
+      claimed.push([start, end]);
+
+      const labelled = KEYWORD.test(text.slice(Math.max(0, start - 20), start));
+      for (const date of dates) {
+        if (Number(date.slice(0, 4)) < earliestYear) continue;
+        if (!candidates.some(candidate => candidate.date === date)) {
+          candidates.push({ date, source: match[0].trim(), labelled, ambiguous });
+        }
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => Number(b.labelled) - Number(a.labelled));
+};
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  workerPromise ??= (async () => {
+    const { createWorker, OEM, PSM } = await import('tesseract.js');
+    const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath: '/ocr/worker.min.js',
+      corePath: '/ocr/core',
+      langPath: '/ocr/lang',
+    });
+    await worker.setParameters({
+      // Labels are short scattered lines, not paragraphs.
+      tessedit_pageseg_mode: PSM.SPARSE_TEXT,
+    });
+    return worker;
+  })().catch(error => {
+    workerPromise = null;
+    throw error;
+  });
+  return workerPromise;
+};
+
+/** Run OCR over an image and return every expiry date found in it. */
+export const recognizeExpiryDate = async (
+  image: HTMLCanvasElement | Blob
+): Promise<ExpiryOcrResult> => {
+  try {
+    const worker = await getWorker();
+    const { data } = await worker.recognize(image);
+    return { text: data.text, candidates: parseExpiryText(data.text) };
+  } catch (error) {
+    console.error('Error reading expiry date:', error);
+    throw error;
+  }
+};
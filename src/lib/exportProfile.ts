@@ -0,0 +1,217 @@
+"use client";
+
+import { format } from 'date-fns';
+import type { CsvDelimiter, ExcelExportData, ExpirationRecord, ExportColumn, ExportFormat, ExportProfile, ExportSortField, StatusRules, StorageLocation } from '@/types';
+import { getLocationName } from './db';
+
+export const ALL_LOCATIONS = '__all__';
+export const UNASSIGNED_LOCATION = '__none__';
+
+export interface ExportColumnInfo {
+  id: ExportColumn;
+  header: string;
+  description: string;
+  /** Spreadsheet column width in characters. */
+  width: number;
+}
+
+export const EXPORT_COLUMNS: ExportColumnInfo[] = [
+  { id: 'barcode', header: 'Barcode', description: 'Product identifier', width: 15 },
+  { id: 'itemName', header: 'Item Name', description: 'Product name', width: 25 },
+  { id: 'description', header: 'Description', description: 'Product details', width: 30 },
+  { id: 'quantity', header: 'Quantity', description: 'Current quantity', width: 10 },
+  { id: 'expirationDate', header: 'Expiration Date', description: 'Expiry date', width: 15 },
+  { id: 'lotNumber', header: 'Lot Number', description: 'Lot / batch', width: 15 },
+  { id: 'remainingDays', header: 'Remaining Days', description: 'Days until expiry', width: 15 },
+  { id: 'status', header: 'Status', description: 'Current status', width: 15 },
+  { id: 'location', header: 'Location', description: 'Storage location', width: 15 },
+  { id: 'aisle', header: 'Aisle', description: 'Aisle or bay', width: 10 },
+  { id: 'notes', header: 'Notes', description: 'Additional notes', width: 30 },
+  { id: 'dateCreated', header: 'Date Created', description: 'Date added', width: 15 },
+];
+
+export const EXPORT_SORT_FIELDS: { id: ExportSortField; label: string }[] = [
+  { id: 'expirationDate', label: 'Expiration date' },
+  { id: 'itemName', label: 'Item name' },
+  { id: 'location', label: 'Location' },
+  { id: 'quantity', label: 'Quantity' },
+  { id: 'dateCreated', label: 'Date added' },
+  { id: 'barcode', label: 'Barcode' },
+];
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: 'xlsx', label: 'Excel', extension: 'xlsx' },
+  { id: 'ods', label: 'OpenDocument', extension: 'ods' },
+  { id: 'csv', label: 'CSV', extension: 'csv' },
+  { id: 'json', label: 'JSON', extension: 'json' },
+];
+
+export const CSV_DELIMITERS: { id: CsvDelimiter; label: string }[] = [
+  { id: ',', label: 'Comma (,)' },
+  { id: ';', label: 'Semicolon (;)' },
+  { id: '\t', label: 'Tab' },
+];
+
+const COLUMN_IDS = EXPORT_COLUMNS.map(column => column.id);
+
+export const DEFAULT_EXPORT_PROFILE: ExportProfile = {
+  columnOrder: COLUMN_IDS,
+  selectedColumns: COLUMN_IDS,
+  statusBands: [],
+  dateFrom: '',
+  dateTo: '',
+  locationId: ALL_LOCATIONS,
+  search: '',
+  sortBy: 'expirationDate',
+  sortDirection: 'asc',
+  format: 'xlsx',
+  csvDelimiter: ',',
+  csvBom: true,
+};
+
+export const getExportColumnInfo = (column: ExportColumn): ExportColumnInfo =>
+  EXPORT_COLUMNS.find(info => info.id === column)!;
+
+/** Selected columns in the order the user arranged them. */
+export const getExportColumns = (profile: ExportProfile): ExportColumn[] =>
+  profile.columnOrder.filter(column => profile.selectedColumns.includes(column));
+
+export const getExportFormatInfo = (format: ExportFormat) =>
+  EXPORT_FORMATS.find(info => info.id === format)!;
+
+const toLocalDate = (date: Date): string => date.toLocaleDateString();
+
+/** One record as export cells. Dates default to the device's locale format. */
+export const toExportRow = (
+  record: ExpirationRecord,
+  locations: StorageLocation[],
+  formatDate: (date: Date) => string = toLocalDate
+): ExcelExportData => ({
+  barcode: record.barcode,
+  itemName: record.itemName,
+  description: record.description,
+  quantity: record.quantity,
+  expirationDate: formatDate(record.expirationDate),
+  lotNumber: record.lotNumber,
+  remainingDays: record.remainingDays,
+  status: record.statusBand.label,
+  location: getLocationName(locations, record.locationId),
+  aisle: record.aisle,
+  notes: record.notes,
+  dateCreated: formatDate(record.dateCreated)
+});
+
+const isDay = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Guard the saved profile: unknown columns are dropped and columns added
+// since it was saved go to the end of the order.
+export const normalizeExportProfile = (value: unknown): ExportProfile => {
+  const candidate = value as Partial<ExportProfile> | null | undefined;
+  if (!candidate) return DEFAULT_EXPORT_PROFILE;
+
+  const savedOrder = Array.isArray(candidate.columnOrder)
+    ? candidate.columnOrder.filter((column, index, list) =>
+        COLUMN_IDS.includes(column) && list.indexOf(column) === index
+      )
+    : [];
+  const columnOrder = [...savedOrder, ...COLUMN_IDS.filter(column => !savedOrder.includes(column))];
+  const selectedColumns = Array.isArray(candidate.selectedColumns)
+    ? candidate.selectedColumns.filter(column => COLUMN_IDS.includes(column))
+    : DEFAULT_EXPORT_PROFILE.selectedColumns;
+
+  return {
+    columnOrder,
+    selectedColumns: selectedColumns.length ? selectedColumns : DEFAULT_EXPORT_PROFILE.selectedColumns,
+    statusBands: Array.isArray(candidate.statusBands)
+      ? candidate.statusBands.filter((id): id is string => typeof id === 'string')
+      : [],
+    dateFrom: isDay(candidate.dateFrom) ? candidate.dateFrom : '',
+    dateTo: isDay(candidate.dateTo) ? candidate.dateTo : '',
+    locationId: typeof candidate.locationId === 'string' && candidate.locationId
+      ? candidate.locationId
+      : ALL_LOCATIONS,
+    search: typeof candidate.search === 'string' ? candidate.search : '',
+    sortBy: EXPORT_SORT_FIELDS.some(field => field.id === candidate.sortBy)
+      ? candidate.sortBy as ExportSortField
+      : DEFAULT_EXPORT_PROFILE.sortBy,
+    sortDirection: candidate.sortDirection === 'desc' ? 'desc' : 'asc',
+    format: EXPORT_FORMATS.some(info => info.id === candidate.format)
+      ? candidate.format as ExportFormat
+      : DEFAULT_EXPORT_PROFILE.format,
+    csvDelimiter: CSV_DELIMITERS.some(info => info.id === candidate.csvDelimiter)
+      ? candidate.csvDelimiter as CsvDelimiter
+      : DEFAULT_EXPORT_PROFILE.csvDelimiter,
+    csvBom: candidate.csvBom ?? DEFAULT_EXPORT_PROFILE.csvBom,
+  };
+};
+
+const matchesSearch = (record: ExpirationRecord, locationName: string, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [record.itemName, record.description, record.barcode, record.lotNumber, record.aisle, record.notes, locationName]
+    .some(value => (value ?? '').toLowerCase().includes(q));
+};
+
+// Drop saved status bands and locations that were since removed, so a stale
+// profile falls back to "all" instead of exporting nothing.
+export const pruneExportProfile = (
+  profile: ExportProfile,
+  rules: StatusRules,
+  locations: StorageLocation[]
+): ExportProfile => ({
+  ...profile,
+  statusBands: profile.statusBands.filter(id => rules.bands.some(band => band.id === id)),
+  locationId:
+    profile.locationId === UNASSIGNED_LOCATION || locations.some(location => location.id === profile.locationId)
+      ? profile.locationId
+      : ALL_LOCATIONS,
+});
+
+/** Records the profile selects, sorted as it asks. */
+export const applyExportProfile = (
+  records: ExpirationRecord[],
+  profile: ExportProfile,
+  locations: StorageLocation[]
+): ExpirationRecord[] => {
+  const activeBands = profile.statusBands.length ? new Set(profile.statusBands) : null;
+
+  const filtered = records.filter(record => {
+    const day = format(record.expirationDate, 'yyyy-MM-dd');
+    if (activeBands && !activeBands.has(record.status)) return false;
+    if (profile.dateFrom && day < profile.dateFrom) return false;
+    if (profile.dateTo && day > profile.dateTo) return false;
+    if (profile.locationId === UNASSIGNED_LOCATION && record.locationId) return false;
+    if (
+      profile.locationId !== ALL_LOCATIONS &&
+      profile.locationId !== UNASSIGNED_LOCATION &&
+      record.locationId !== profile.locationId
+    ) {
+      return false;
+    }
+    return matchesSearch(record, getLocationName(locations, record.locationId), profile.search);
+  });
+
+  const compare = (a: ExpirationRecord, b: ExpirationRecord): number => {
+    switch (profile.sortBy) {
+      case 'itemName':
+        return a.itemName.localeCompare(b.itemName);
+      case 'location':
+        return getLocationName(locations, a.locationId).localeCompare(getLocationName(locations, b.locationId));
+      case 'quantity':
+        return a.quantity - b.quantity;
+      case 'dateCreated':
+        return a.dateCreated.getTime() - b.dateCreated.getTime();
+      case 'barcode':
+        return a.barcode.localeCompare(b.barcode);
+      default:
+        return a.expirationDate.getTime() - b.expirationDate.getTime();
+    }
+  };
+  const direction = profile.sortDirection === 'desc' ? -1 : 1;
+
+  // Ties fall back to soonest expiry so the order is stable between exports.
+  return filtered.sort((a, b) =>
+    direction * compare(a, b) || a.expirationDate.getTime() - b.expirationDate.getTime()
+  );
+};
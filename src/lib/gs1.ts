@@ -0,0 +1,220 @@
+"use client";
+
+// GS1 Application Identifier (AI) parsing for GS1-128, GS1 DataMatrix and
+// GS1 QR payloads. Scanners deliver FNC1 as the ASCII group separator (GS).
+
+const GS = '\x1d';
+
+// Symbology identifiers some scanners prepend: ]C1 GS1-128, ]d2 DataMatrix,
+// ]Q3 QR, ]e0 DataBar, ]J1 DotCode.
+const SYMBOLOGY_PREFIX = /^\][CdQeJ][0-9]/;
+
+interface AIDefinition {
+  label: string;
+  /** Fixed data length (excluding the AI digits); undefined = variable. */
+  length?: number;
+  /** Maximum length for variable-length data. */
+  maxLength?: number;
+  numeric?: boolean;
+}
+
+// AIs keyed by their full code. 4-digit measure AIs (31xx-36xx) are matched by
+// their first three digits below.
+const AI_DEFINITIONS: Record<string, AIDefinition> = {
+  '00': { label: 'SSCC', length: 18, numeric: true },
+  '01': { label: 'GTIN', length: 14, numeric: true },
+  '02': { label: 'Content GTIN', length: 14, numeric: true },
+  '10': { label: 'Batch/Lot', maxLength: 20 },
+  '11': { label: 'Production Date', length: 6, numeric: true },
+  '12': { label: 'Due Date', length: 6, numeric: true },
+  '13': { label: 'Packaging Date', length: 6, numeric: true },
+  '15': { label: 'Best Before', length: 6, numeric: true },
+  '16': { label: 'Sell By', length: 6, numeric: true },
+  '17': { label: 'Expiration Date', length: 6, numeric: true },
+  '20': { label: 'Variant', length: 2, numeric: true },
+  '21': { label: 'Serial Number', maxLength: 20 },
+  '22': { label: 'Consumer Product Variant', maxLength: 20 },
+  '30': { label: 'Count', maxLength: 8, numeric: true },
+  '37': { label: 'Count of Trade Items', maxLength: 8, numeric: true },
+  '240': { label: 'Additional Product ID', maxLength: 30 },
+  '241': { label: 'Customer Part Number', maxLength: 30 },
+  '250': { label: 'Secondary Serial Number', maxLength: 30 },
+  '251': { label: 'Reference to Source Entity', maxLength: 30 },
+  '400': { label: 'Customer Order Number', maxLength: 30 },
+  '401': { label: 'Consignment Number', maxLength: 30 },
+  '410': { label: 'Ship To GLN', length: 13, numeric: true },
+  '414': { label: 'Location GLN', length: 13, numeric: true },
+  '420': { label: 'Ship To Postal Code', maxLength: 20 },
+};
+
+// Prefixes of 4-digit AIs with 6-digit data, e.g. 3103 net weight (kg, 3 decimals).
+const MEASURE_AI_PREFIXES = ['31', '32', '33', '34', '35', '36'];
+
+export interface GS1Element {
+  ai: string;
+  label: string;
+  value: string;
+}
+
+export interface GS1ParseResult {
+  elements: GS1Element[];
+  /** GTIN-14 from AI 01 (or AI 02 for logistic units). */
+  gtin?: string;
+  /** YYYY-MM-DD from AI 17, falling back to best-before (15) and sell-by (16). */
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+  /** Count from AI 30 or AI 37. */
+  quantity?: number;
+}
+
+const resolveAI = (data: string): { ai: string; definition: AIDefinition } | null => {
+  const two = data.slice(0, 2);
+  if (MEASURE_AI_PREFIXES.includes(two) && /^\d{4}/.test(data)) {
+    return { ai: data.slice(0, 4), definition: { label: 'Measure', length: 6, numeric: true } };
+  }
+
+  for (const length of [2, 3, 4]) {
+    const ai = data.slice(0, length);
+    if (AI_DEFINITIONS[ai]) {
+      return { ai, definition: AI_DEFINITIONS[ai] };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Convert a GS1 YYMMDD date into YYYY-MM-DD. A day of 00 means the last day
+ * of the month. The century is chosen so the date lies within 50 years of
+ * today, per the GS1 General Specifications.
+ */
+export const parseGS1Date = (value: string, today: Date = new Date()): string | undefined => {
+  if (!/^\d{6}$/.test(value)) return undefined;
+
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return undefined;
+
+  const currentYear = today.getFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (year - currentYear > 50) year -= 100;
+  else if (currentYear - year >= 50) year += 100;
+
+  const lastDay = new Date(year, month, 0).getDate();
+  if (day === 0) day = lastDay;
+  if (day > lastDay) return undefined;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Normalize the human-readable "(01)0950...(17)2602..." form into an element
+// string with GS separators after variable-length fields.
+const fromBracketedForm = (input: string): string | null => {
+  const parts = input.match(/\((\d{2,4})\)([^(]*)/g);
+  if (!parts || parts.join('') !== input) return null;
+
+  return parts
+    .map(part => {
+      const [, ai, value] = part.match(/\((\d{2,4})\)(.*)/) || [];
+      const resolved = resolveAI(ai);
+      const isVariable = !resolved || resolved.definition.length === undefined;
+      return `${ai}${value}${isVariable ? GS : ''}`;
+    })
+    .join('');
+};
+
+const cleanPayload = (raw: string): string =>
+  raw
+    .trim()
+    .replace(SYMBOLOGY_PREFIX, '')
+    // Some keyboard-wedge scanners send FNC1 as a visible placeholder.
+    .replace(/<GS>|\{GS\}|\\x1d|␝/gi, GS)
+    .replace(new RegExp(`^${GS}+`), '');
+
+const parseElementString = (data: string): GS1Element[] | null => {
+  const elements: GS1Element[] = [];
+  let rest = data;
+
+  while (rest.length > 0) {
+    if (rest.startsWith(GS)) {
+      rest = rest.slice(1);
+      continue;
+    }
+
+    const resolved = resolveAI(rest);
+    if (!resolved) return null;
+
+    const { ai, definition } = resolved;
+    rest = rest.slice(ai.length);
+
+    let value: string;
+    if (definition.length !== undefined) {
+      value = rest.slice(0, definition.length);
+      if (value.length !== definition.length) return null;
+      rest = rest.slice(definition.length);
+    } else {
+      const end = rest.indexOf(GS);
+      value = end === -1 ? rest : rest.slice(0, end);
+      if (definition.maxLength && value.length > definition.maxLength) return null;
+      rest = end === -1 ? '' : rest.slice(end + 1);
+    }
+
+    if (!value || (definition.numeric && !/^\d+$/.test(value))) return null;
+    elements.push({ ai, label: definition.label, value });
+  }
+
+  return elements;
+};
+
+/**
+ * Parse a GS1 element string. Returns null when the payload is not a GS1
+ * element string (for example a plain EAN-13), so callers can fall back to
+ * treating it as an ordinary barcode.
+ */
+export const parseGS1 = (raw: string): GS1ParseResult | null => {
+  if (!raw) return null;
+
+  const trimmed = raw.trim();
+  const hasPrefix = SYMBOLOGY_PREFIX.test(trimmed);
+  const bracketed = trimmed.startsWith('(') ? fromBracketedForm(trimmed) : null;
+  const payload = bracketed ?? cleanPayload(trimmed);
+
+  // Without an explicit marker only accept payloads that start with a GTIN and
+  // carry more than the GTIN itself; otherwise plain digits would match.
+  const hasMarker = hasPrefix || bracketed !== null || trimmed.includes(GS);
+  if (!hasMarker && !(/^01\d{14}./.test(payload))) return null;
+
+  const elements = parseElementString(payload);
+  if (!elements || elements.length === 0) return null;
+
+  const find = (ai: string) => elements.find(element => element.ai === ai)?.value;
+  const result: GS1ParseResult = { elements };
+
+  result.gtin = find('01') ?? find('02');
+  result.expirationDate =
+    parseGS1Date(find('17') ?? '') ??
+    parseGS1Date(find('15') ?? '') ??
+    parseGS1Date(find('16') ?? '');
+  result.lotNumber = find('10');
+  result.serialNumber = find('21');
+
+  const count = find('30') ?? find('37');
+  if (count) result.quantity = Number(count);
+
+  return result;
+};
+
+export const isGS1Payload = (raw: string): boolean => parseGS1(raw) !== null;
+
+/**
+ * Convert a GTIN-14 to the retail barcode printed on the unit: UPC-A when the
+ * GTIN has two leading zeros, EAN-13 when it has one, GTIN-14 otherwise.
+ */
+export const gtinToRetailBarcode = (gtin: string): string => {
+  if (!/^\d{14}$/.test(gtin)) return gtin;
+  if (gtin.startsWith('00')) return gtin.slice(2);
+  if (gtin.startsWith('0')) return gtin.slice(1);
+  return gtin;
+};
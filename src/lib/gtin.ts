@@ -0,0 +1,103 @@
+"use client";
+
+// GTIN helpers: GS1 mod-10 check digits, UPC-E expansion and canonical
+// GTIN-14 keys. A GTIN-8, UPC-A (GTIN-12) and EAN-13 all pad to the same
+// GTIN-14, which is what lets one product row match every way it is printed.
+
+import type { BarcodeSymbology } from '@/types';
+
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+/**
+ * GS1 mod-10 check digit for the data digits (everything but the check digit).
+ * Weights alternate 3,1,3,... starting from the rightmost data digit, so
+ * leading zeros never change the result.
+ */
+export const computeCheckDigit = (data: string): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    const digit = Number(data[data.length - 1 - i]);
+    sum += digit * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const hasValidCheckDigit = (code: string): boolean =>
+  /^\d{2,}$/.test(code) &&
+  computeCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+
+export const isValidGTIN = (code: string): boolean =>
+  GTIN_LENGTHS.includes(code.length) && hasValidCheckDigit(code);
+
+/**
+ * Expand an 8-digit UPC-E (number system, six data digits, check digit) to
+ * its 12-digit UPC-A. Returns null when the input is not UPC-E shaped.
+ */
+export const expandUPCE = (upce: string): string | null => {
+  if (!/^[01]\d{7}$/.test(upce)) return null;
+
+  const numberSystem = upce[0];
+  const d = upce.slice(1, 7);
+  const check = upce[7];
+  const last = Number(d[5]);
+
+  let body: string;
+  if (last <= 2) {
+    body = `${d[0]}${d[1]}${d[5]}0000${d[2]}${d[3]}${d[4]}`;
+  } else if (last === 3) {
+    body = `${d[0]}${d[1]}${d[2]}00000${d[3]}${d[4]}`;
+  } else if (last === 4) {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}00000${d[4]}`;
+  } else {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}${d[4]}0000${d[5]}`;
+  }
+
+  return `${numberSystem}${body}${check}`;
+};
+
+export const isValidUPCE = (code: string): boolean => {
+  const upca = expandUPCE(code);
+  return !!upca && hasValidCheckDigit(upca);
+};
+
+/**
+ * Canonical GTIN-14 for a numeric barcode, or null when the digits do not
+ * form a GTIN with a valid check digit.
+ *
+ * 8-digit codes are ambiguous: without a symbology hint a code is read as
+ * UPC-E when it starts with 0 or 1 and its expansion checks out, otherwise as
+ * EAN-8. Codes shorter than 14 digits that lost their leading zeros (a common
+ * spreadsheet artefact) still resolve, because padding keeps the check digit.
+ */
+export const toGTIN14 = (code: string, symbology?: BarcodeSymbology | ''): string | null => {
+  const digits = code.trim();
+  if (!/^\d{1,14}$/.test(digits)) return null;
+
+  if (digits.length === 8 && symbology !== 'EAN_8') {
+    const upca = expandUPCE(digits);
+    if (upca && hasValidCheckDigit(upca)) return upca.padStart(14, '0');
+    if (symbology === 'UPC_E') return null;
+  }
+
+  // Anything shorter than EAN-8 cannot be a GTIN, even with lost zeros.
+  if (digits.replace(/^0+/, '').length < 7) return null;
+
+  const gtin14 = digits.padStart(14, '0');
+  return hasValidCheckDigit(gtin14) ? gtin14 : null;
+};
+
+/** Name of the GTIN type a numeric code looks like, by length. */
+export const getGTINType = (code: string): BarcodeSymbology | 'GTIN_14' | null => {
+  switch (code.length) {
+    case 8:
+      return isValidUPCE(code) ? 'UPC_E' : 'EAN_8';
+    case 12:
+      return 'UPC_A';
+    case 13:
+      return 'EAN_13';
+    case 14:
+      return 'GTIN_14';
+    default:
+      return null;
+  }
+};
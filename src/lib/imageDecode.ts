@@ -0,0 +1,160 @@
+"use client";
+
+import {
+  BinaryBitmap,
+  ChecksumException,
+  DecodeHintType,
+  FormatException,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+  RGBLuminanceSource,
+  type LuminanceSource,
+} from '@zxing/library';
+import { isGS1Payload } from './gs1';
+import { acceptScanResult, fromZXingFormat, toZXingFormats } from './symbology';
+import type { BarcodeSymbology } from '@/types';
+
+export interface ImageScanResult {
+  text: string;
+  format: BarcodeSymbology;
+}
+
+// Phone photos are often 4000px+; decoding at this size keeps memory and time
+// reasonable while leaving enough pixels per bar.
+const MAX_IMAGE_DIMENSION = 2000;
+// ZXing's GenericMultipleBarcodeReader stops at the same depth.
+const MAX_SEARCH_DEPTH = 4;
+const MIN_REGION_SIZE = 40;
+
+const loadImageToCanvas = async (image: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return canvas;
+};
+
+/**
+ * Grayscale copy of RGBA pixels. RGBLuminanceSource is used because it supports
+ * crop(); HTMLCanvasElementLuminanceSource throws on it. Transparent pixels
+ * count as white, as on a label.
+ */
+const toLuminanceSource = ({ data, width, height }: ImageData): LuminanceSource => {
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let offset = 0; offset < luminances.length; offset++) {
+    const i = offset * 4;
+    const alpha = data[i + 3];
+    const gray = (306 * data[i] + 601 * data[i + 1] + 117 * data[i + 2] + 0x200) >> 10;
+    luminances[offset] = (gray * alpha + 255 * (255 - alpha)) / 255;
+  }
+  return new RGBLuminanceSource(luminances, width, height);
+};
+
+/**
+ * Decode one region, then search the areas left of, right of, above and below
+ * the barcode that was found. This is how ZXing's GenericMultipleBarcodeReader
+ * finds several codes in one image; the JavaScript port does not ship it.
+ * A region whose code was already seen is not searched further: the areas
+ * above and below a 1D barcode still hold most of its bars, so searching them
+ * again would read the same code over and over.
+ */
+const decodeRegion = (
+  reader: MultiFormatReader,
+  source: LuminanceSource,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  depth: number,
+  seen: Set<string>,
+  found: Map<string, ImageScanResult>,
+  enabled: BarcodeSymbology[]
+): void => {
+  if (width < MIN_REGION_SIZE || height < MIN_REGION_SIZE) return;
+
+  let result;
+  try {
+    const region = depth === 0 ? source : source.crop(left, top, width, height);
+    result = reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(region)));
+  } catch (error) {
+    // Nothing readable in this region.
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ChecksumException ||
+      error instanceof FormatException
+    ) {
+      return;
+    }
+    throw error;
+  }
+
+  const rawText = result.getText();
+  const key = `${result.getBarcodeFormat()}:${rawText}`;
+  if (seen.has(key)) return;
+  seen.add(key);
+
+  const format = fromZXingFormat(result.getBarcodeFormat());
+  if (format && enabled.includes(format)) {
+    const text = isGS1Payload(rawText) ? rawText : acceptScanResult(rawText, format);
+    if (text) found.set(`${format}:${text}`, { text, format });
+  }
+
+  const points = result.getResultPoints().filter(Boolean);
+  if (depth >= MAX_SEARCH_DEPTH || points.length === 0) return;
+
+  const xs = points.map(point => point.getX());
+  const ys = points.map(point => point.getY());
+  const minX = left + Math.max(0, Math.floor(Math.min(...xs)));
+  const maxX = left + Math.min(width, Math.ceil(Math.max(...xs)));
+  const minY = top + Math.max(0, Math.floor(Math.min(...ys)));
+  const maxY = top + Math.min(height, Math.ceil(Math.max(...ys)));
+
+  const next = depth + 1;
+  decodeRegion(reader, source, left, top, minX - left, height, next, seen, found, enabled);
+  decodeRegion(reader, source, left, top, width, minY - top, next, seen, found, enabled);
+  decodeRegion(reader, source, maxX, top, left + width - maxX, height, next, seen, found, enabled);
+  decodeRegion(reader, source, left, maxY, width, top + height - maxY, next, seen, found, enabled);
+};
+
+/**
+ * Decode every barcode of the enabled symbologies found in decoded pixels.
+ * Returns an empty list when none is found.
+ */
+export const decodeBarcodesFromPixels = (
+  pixels: ImageData,
+  enabled: BarcodeSymbology[]
+): ImageScanResult[] => {
+  const source = toLuminanceSource(pixels);
+
+  const reader = new MultiFormatReader();
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, toZXingFormats(enabled));
+  hints.set(DecodeHintType.TRY_HARDER, true);
+  reader.setHints(hints);
+
+  const found = new Map<string, ImageScanResult>();
+  decodeRegion(reader, source, 0, 0, pixels.width, pixels.height, 0, new Set(), found, enabled);
+
+  return Array.from(found.values());
+};
+
+/**
+ * Decode every barcode of the enabled symbologies found in an image file,
+ * e.g. a photo of a delivery label. Returns an empty list when none is found.
+ */
+export const decodeBarcodesFromImage = async (
+  image: Blob,
+  enabled: BarcodeSymbology[]
+): Promise<ImageScanResult[]> => {
+  const canvas = await loadImageToCanvas(image);
+  const context = canvas.getContext('2d');
+  if (!context) return [];
+
+  return decodeBarcodesFromPixels(context.getImageData(0, 0, canvas.width, canvas.height), enabled);
+};
@@ -0,0 +1,79 @@
+"use client";
+
+import type { DuplicateKeyField, DuplicateOptions, DuplicateStrategy, ImportDuplicateSettings, ImportKind } from '@/types';
+
+// How imports treat rows that match an item already stored, or an earlier
+// row of the same file. Products are always matched on their barcode, the
+// primary key of the product table.
+
+export const DUPLICATE_STRATEGIES: {
+  id: DuplicateStrategy;
+  label: string;
+  description: string;
+  kinds: ImportKind[];
+}[] = [
+  {
+    id: 'skip',
+    label: 'Skip',
+    description: 'Keep what is stored and leave the row out',
+    kinds: ['records', 'products'],
+  },
+  {
+    id: 'overwrite',
+    label: 'Overwrite',
+    description: 'Replace stored values with the ones in the file',
+    kinds: ['records', 'products'],
+  },
+  {
+    id: 'sum',
+    label: 'Sum quantities',
+    description: 'Add the row quantity to the stored quantity',
+    kinds: ['records'],
+  },
+  {
+    id: 'newest',
+    label: 'Keep newest',
+    description: 'Keep the version with the later Date Created; rows without one count as new',
+    kinds: ['records'],
+  },
+];
+
+export const DUPLICATE_KEY_FIELDS: { id: DuplicateKeyField; label: string }[] = [
+  { id: 'barcode', label: 'Barcode' },
+  { id: 'itemName', label: 'Item name' },
+  { id: 'expirationDate', label: 'Expiration date' },
+  { id: 'lotNumber', label: 'Lot number' },
+  { id: 'location', label: 'Location' },
+];
+
+export const DEFAULT_IMPORT_DUPLICATES: ImportDuplicateSettings = {
+  records: { strategy: 'skip', keyFields: ['barcode', 'expirationDate', 'lotNumber'] },
+  products: { strategy: 'overwrite', keyFields: ['barcode'] },
+};
+
+export const getDuplicateStrategies = (kind: ImportKind) =>
+  DUPLICATE_STRATEGIES.filter(strategy => strategy.kinds.includes(kind));
+
+const normalizeOptions = (value: unknown, kind: ImportKind): DuplicateOptions => {
+  const fallback = DEFAULT_IMPORT_DUPLICATES[kind];
+  const candidate = value as Partial<DuplicateOptions> | null | undefined;
+  if (!candidate) return fallback;
+
+  const strategy = getDuplicateStrategies(kind).some(info => info.id === candidate.strategy)
+    ? candidate.strategy as DuplicateStrategy
+    : fallback.strategy;
+  if (kind === 'products') return { strategy, keyFields: fallback.keyFields };
+
+  const keyFields = Array.isArray(candidate.keyFields)
+    ? DUPLICATE_KEY_FIELDS.map(field => field.id).filter(id => candidate.keyFields!.includes(id))
+    : [];
+  return { strategy, keyFields: keyFields.length ? keyFields : fallback.keyFields };
+};
+
+export const normalizeImportDuplicates = (value: unknown): ImportDuplicateSettings => {
+  const candidate = value as Partial<ImportDuplicateSettings> | null | undefined;
+  return {
+    records: normalizeOptions(candidate?.records, 'records'),
+    products: normalizeOptions(candidate?.products, 'products'),
+  };
+};
@@ -1,71 +1,350 @@
-import * as XLSX from "xlsx";
-import { expirationRecordsService } from "@/lib/db";
-import type { ExpirationRecord } from "@/types";
+import { format, isValid, parseISO } from "date-fns";
+import { barcodeMatches, getLocationName } from "@/lib/db";
+import { parseDateValue, resolveDateOrder, type DateOrderSetting, type DateReadOptions } from "@/lib/dateParsing";
+import { getFieldValues, type MappedRow } from "@/lib/importMapping";
+import type { DuplicateKeyField, DuplicateOptions, DuplicateStrategy, ExpirationRecord, ImportCommitEntry, StorageLocation } from "@/types";
+
+export type ImportRowStatus = "new" | "duplicate" | "updated" | "invalid";
+
+/**
+ * One parsed row as text, so the preview can edit it like a form. Blank
+ * optional fields mean the file did not give a value: a new record gets the
+ * default and an existing record keeps what it has. Readable dates are held
+ * as yyyy-MM-dd.
+ */
+export interface ImportDraft {
+  barcode: string;
+  itemName: string;
+  description: string;
+  quantity: string;
+  expirationDate: string;
+  lotNumber: string;
+  location: string;
+  aisle: string;
+  notes: string;
+  dateCreated: string;
+}
+
+export interface ImportDraftRow {
+  rowNumber: number;
+  draft: ImportDraft;
+  /** How dates were read when that was a guess or needs a second look. */
+  warnings: string[];
+}
+
+type ChangeField = "itemName" | "description" | "quantity" | "location" | "aisle" | "notes" | "dateCreated";
+
+export interface ImportFieldChange {
+  field: ChangeField;
+  label: string;
+  from: string;
+  /** The value written, e.g. the summed quantity. */
+  to: string;
+}
+
+export interface ImportPreviewRow extends ImportDraftRow {
+  status: ImportRowStatus;
+  reason: string;
+  /**
+   * What a duplicate or updated row matched: a record ID, or `row:N` for an
+   * item an earlier row of the file creates.
+   */
+  matchId?: string;
+  changes: ImportFieldChange[];
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const text = (value: unknown): string => String(value ?? "").trim();
+
+const describeDay = (day: string): string => format(parseISO(day), "d MMM yyyy");
+
+export interface ImportDateOptions {
+  dateOrder: DateOrderSetting;
+  date1904: boolean;
+}
 
 /**
- * Convert Excel date OR string into JS Date
+ * Mapped rows (see importMapping.ts) as editable drafts. Dates are read with
+ * the day/month order from the mapping or, on 'auto', from the file; when
+ * nothing in the file settles it, rows that could be read either way are
+ * flagged.
  */
-function parseExcelDate(value: any): Date | null {
+export function parseImportRows(rows: MappedRow[], { dateOrder, date1904 }: ImportDateOptions): ImportDraftRow[] {
+  const { order, confident } = resolveDateOrder(
+    dateOrder,
+    getFieldValues(rows, ["expirationDate", "dateCreated"])
+  );
+  const dateOptions: DateReadOptions = { order, date1904 };
+
+  return rows.map(({ rowNumber, values }) => {
+    const warnings: string[] = [];
+    const readDay = (value: unknown, label: string): string => {
+      if (value === undefined) return "";
+      const parsed = parseDateValue(value, dateOptions);
+      if (!parsed) return text(value);
+      if (parsed.monthOnly) {
+        warnings.push(`${label} "${text(value)}" has no day; read as the end of the month, ${describeDay(parsed.date)}`);
+      } else if (parsed.alternative && !confident) {
+        warnings.push(
+          `${label} "${text(value)}" is ambiguous; read as ${describeDay(parsed.date)}, could be ${describeDay(parsed.alternative)}`
+        );
+      }
+      return parsed.date;
+    };
+
+    return {
+      rowNumber,
+      draft: {
+        barcode: text(values.barcode),
+        itemName: text(values.itemName),
+        description: text(values.description),
+        quantity: text(values.quantity),
+        expirationDate: readDay(values.expirationDate, "Expiration date"),
+        lotNumber: text(values.lotNumber),
+        location: text(values.location),
+        aisle: text(values.aisle),
+        notes: text(values.notes),
+        dateCreated: readDay(values.dateCreated, "Date created"),
+      },
+      warnings,
+    };
+  });
+}
+
+const parseDay = (value: string): Date | null => {
+  if (!DAY.test(value)) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+const parseQuantity = (value: string): number | null => {
   if (!value) return null;
+  const quantity = Number(value);
+  return Number.isFinite(quantity) && quantity >= 0 ? quantity : NaN;
+};
 
-  // Excel numeric date
-  if (typeof value === "number") {
-    const epoch = new Date(1899, 11, 30);
-    epoch.setDate(epoch.getDate() + value);
-    return epoch;
-  }
+const findProblem = (draft: ImportDraft): string => {
+  if (!draft.itemName) return "Missing item name";
+  if (!draft.expirationDate) return "Missing expiration date";
+  if (!parseDay(draft.expirationDate)) return `Unreadable expiration date "${draft.expirationDate}"`;
+  if (Number.isNaN(parseQuantity(draft.quantity))) return `Quantity "${draft.quantity}" is not a number`;
+  if (draft.dateCreated && !parseDay(draft.dateCreated)) return `Unreadable date created "${draft.dateCreated}"`;
+  return "";
+};
 
-  // String date (MM/DD/YYYY or similar)
-  const d = new Date(value);
-  return isNaN(d.getTime()) ? null : d;
+// An item as the import sees it while walking the file: a stored record, or
+// one that an earlier included row creates. Dates are yyyy-MM-dd.
+interface StockItem {
+  id: string;
+  rowNumber?: number;
+  barcode: string;
+  itemName: string;
+  description: string;
+  quantity: number;
+  expirationDate: string;
+  lotNumber: string;
+  location: string;
+  aisle: string;
+  notes: string;
+  dateCreated: string;
 }
 
-export async function importExpirationRecords(file: File) {
-  const buffer = await file.arrayBuffer();
-  const workbook = XLSX.read(buffer, { type: "array" });
-  const sheet = workbook.Sheets[workbook.SheetNames[0]];
-  const rows = XLSX.utils.sheet_to_json<any>(sheet);
-
-  const importedRecords: Array<Omit<ExpirationRecord, "id" | "remainingDays" | "status">> = [];
-
-  for (const raw of rows) {
-    // 🔑 MAP EXCEL HEADERS HERE
-    const barcode = raw.Barcode ?? raw.barcode ?? "";
-    const itemName = raw["Item Name"] ?? raw.itemName ?? "";
-    const description = raw.Description ?? "";
-    const quantity = Number(raw.Quantity ?? raw.quantity ?? 1);
-    const expirationDate = parseExcelDate(
-      raw["Expiration Date"] ?? raw.expirationDate
-    );
-
-    if (!itemName || !expirationDate) {
-      console.warn("Skipped row:", raw);
-      continue;
+const same = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Every key field has to agree. Barcodes compare as GTINs; when neither side
+// has one, the item name stands in so unrelated unlabelled items stay apart.
+const isSameItem = (keyFields: DuplicateKeyField[], draft: ImportDraft, item: StockItem): boolean =>
+  keyFields.every(field => {
+    switch (field) {
+      case "barcode":
+        if (!draft.barcode && !item.barcode) return same(draft.itemName, item.itemName);
+        return barcodeMatches(draft.barcode, item.barcode);
+      case "expirationDate":
+        return draft.expirationDate === item.expirationDate;
+      default:
+        return same(draft[field], item[field]);
     }
+  });
 
-    const record = {
-      barcode: barcode.toString(),
-      itemName: itemName.toString(),
-      description: description.toString(),
-      quantity,
-      expirationDate,
-      dateCreated: new Date(),
-      notes: String(
-        raw.Notes ??
-        raw.Note ??
-        raw.Remarks ??
-        raw.Remark ??
-        raw.notes ??
-        raw.note ??
-        raw.remarks ??
-        raw.remark ??
-        ""
-      ).trim(),
+const CHANGE_LABELS: Record<ChangeField, string> = {
+  itemName: "Item name",
+  description: "Description",
+  quantity: "Quantity",
+  location: "Location",
+  aisle: "Aisle",
+  notes: "Notes",
+  dateCreated: "Date created",
+};
+
+// Fields the row gives that differ from the item. Blank fields are not
+// changes; the file simply had no value.
+const describeChanges = (draft: ImportDraft, item: StockItem): ImportFieldChange[] => {
+  const quantity = parseQuantity(draft.quantity);
+  const candidates: [ChangeField, string, boolean][] = [
+    ["itemName", item.itemName, draft.itemName !== item.itemName],
+    ["description", item.description, draft.description !== item.description],
+    ["quantity", String(item.quantity), quantity !== null && quantity !== item.quantity],
+    ["location", item.location, !same(draft.location, item.location)],
+    ["aisle", item.aisle, draft.aisle !== item.aisle],
+    ["notes", item.notes, draft.notes !== item.notes],
+    ["dateCreated", item.dateCreated, draft.dateCreated !== item.dateCreated],
+  ];
+  return candidates
+    .filter(([field, , differs]) => draft[field] !== "" && differs)
+    .map(([field, from]) => ({ field, label: CHANGE_LABELS[field], from, to: draft[field] }));
+};
+
+type Resolution = Pick<ImportPreviewRow, "status" | "reason" | "changes">;
+
+const resolveDuplicate = (draft: ImportDraft, item: StockItem, strategy: DuplicateStrategy): Resolution => {
+  const target = item.rowNumber ? `row ${item.rowNumber}` : "the stored item";
+  const duplicate = (reason: string): Resolution => ({ status: "duplicate", reason, changes: [] });
+
+  if (strategy === "skip") {
+    return duplicate(item.rowNumber ? `Same item as row ${item.rowNumber}` : "Already in your records");
+  }
+
+  if (strategy === "sum") {
+    const added = parseQuantity(draft.quantity) ?? 1;
+    const total = item.quantity + added;
+    return {
+      status: "updated",
+      reason: `Adds ${added} to ${target}`,
+      changes: [{ field: "quantity", label: CHANGE_LABELS.quantity, from: String(item.quantity), to: String(total) }],
     };
+  }
 
-    importedRecords.push(record);
+  // A row without a date counts as entered now, so it is the newer one.
+  if (strategy === "newest" && draft.dateCreated && draft.dateCreated < item.dateCreated) {
+    return duplicate(`${item.rowNumber ? `Row ${item.rowNumber}` : "The stored item"} is newer`);
   }
 
-  console.log(`Imported ${importedRecords.length} records`);
-  return importedRecords;
+  const changes = describeChanges(draft, item);
+  return changes.length > 0
+    ? { status: "updated", reason: `Overwrites ${target}`, changes }
+    : duplicate(item.rowNumber ? `Same as row ${item.rowNumber}` : "Already in your records, unchanged");
+};
+
+/** Whether a row is imported: the user's choice, else its default. */
+export const isRowIncluded = (row: ImportPreviewRow, overrides: Map<number, boolean>): boolean =>
+  row.status !== "invalid" && (overrides.get(row.rowNumber) ?? isIncludedByDefault(row));
+
+/** Rows the preview ticks before the user changes anything. */
+export const isIncludedByDefault = (row: ImportPreviewRow): boolean =>
+  row.status === "new" || row.status === "updated";
+
+/**
+ * Walk the rows in file order and say what each would do, against the stored
+ * records and the rows above it that are included. Excluding a row can
+ * therefore change the rows below it.
+ */
+export function classifyImportRows(
+  rows: ImportDraftRow[],
+  records: ExpirationRecord[],
+  locations: StorageLocation[],
+  options: DuplicateOptions,
+  overrides: Map<number, boolean> = new Map()
+): ImportPreviewRow[] {
+  const stock: StockItem[] = records.map(record => ({
+    id: record.id,
+    barcode: record.barcode,
+    itemName: record.itemName,
+    description: record.description,
+    quantity: record.quantity,
+    expirationDate: format(record.expirationDate, "yyyy-MM-dd"),
+    lotNumber: record.lotNumber,
+    location: record.locationId ? getLocationName(locations, record.locationId) : "",
+    aisle: record.aisle,
+    notes: record.notes,
+    dateCreated: format(record.dateCreated, "yyyy-MM-dd"),
+  }));
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return rows.map(row => {
+    const { draft } = row;
+    const problem = findProblem(draft);
+    if (problem) return { ...row, status: "invalid", reason: problem, changes: [] };
+
+    const match = stock.find(item => isSameItem(options.keyFields, draft, item));
+    let preview: ImportPreviewRow;
+    if (match) {
+      preview = { ...row, ...resolveDuplicate(draft, match, options.strategy), matchId: match.id };
+    } else {
+      const newLocation =
+        draft.location &&
+        !locations.some(location => same(location.name, draft.location));
+      preview = {
+        ...row,
+        status: "new",
+        reason: newLocation ? `New item; creates location "${draft.location}"` : "New item",
+        changes: [],
+      };
+    }
+
+    if (isRowIncluded(preview, overrides)) {
+      if (preview.status === "updated" && match) {
+        for (const change of preview.changes) {
+          if (change.field === "quantity") match.quantity = Number(change.to);
+          else match[change.field] = change.to;
+        }
+      } else {
+        stock.push({
+          ...draft,
+          id: `row:${row.rowNumber}`,
+          rowNumber: row.rowNumber,
+          quantity: parseQuantity(draft.quantity) ?? 1,
+          dateCreated: draft.dateCreated || today,
+        });
+      }
+    }
+    return preview;
+  });
+}
+
+/**
+ * The writes for the included rows, in file order. Updated rows change only
+ * the fields listed in their changes; any other included row, duplicates
+ * too, becomes a new record.
+ */
+export function toImportCommitEntries(rows: ImportPreviewRow[]): ImportCommitEntry[] {
+  // Records created by this import get their IDs here, so later rows that
+  // merge into them can refer to them.
+  const createdIds = new Map<string, string>();
+
+  return rows.map(row => {
+    const { draft } = row;
+    if (row.status === "updated" && row.matchId) {
+      const updates: Extract<ImportCommitEntry, { action: "update" }>["updates"] = {};
+      let locationName = "";
+      for (const change of row.changes) {
+        if (change.field === "quantity") updates.quantity = Number(change.to);
+        else if (change.field === "dateCreated") updates.dateCreated = parseDay(change.to) ?? undefined;
+        else if (change.field === "location") locationName = change.to;
+        else updates[change.field] = change.to;
+      }
+      const id = createdIds.get(row.matchId) ?? row.matchId;
+      return { action: "update", id, updates, locationName };
+    }
+
+    const id = crypto.randomUUID();
+    createdIds.set(`row:${row.rowNumber}`, id);
+    return {
+      action: "create",
+      id,
+      record: {
+        barcode: draft.barcode,
+        barcodeFormat: "",
+        itemName: draft.itemName,
+        description: draft.description,
+        quantity: parseQuantity(draft.quantity) ?? 1,
+        expirationDate: parseDay(draft.expirationDate)!,
+        dateCreated: parseDay(draft.dateCreated) ?? new Date(),
+        lotNumber: draft.lotNumber,
+        aisle: draft.aisle,
+        notes: draft.notes,
+      },
+      locationName: draft.location,
+    };
+  });
 }
@@ -0,0 +1,313 @@
+"use client";
+
+import * as XLSX from 'xlsx';
+import type { ImportField, ImportKind, ImportMapping, ImportPreset } from '@/types';
+
+// Reading spreadsheets whose layout we do not control. The user picks the
+// sheet, the header row and which column fills which field; guessMapping
+// only pre-fills that choice.
+
+export interface ImportFieldInfo {
+  id: ImportField;
+  label: string;
+  /** Import kinds the field belongs to, and whether each requires it. */
+  kinds: Partial<Record<ImportKind, { required: boolean }>>;
+  /** Header spellings, lowercase with punctuation collapsed to spaces. */
+  synonyms: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldInfo[] = [
+  {
+    id: 'barcode',
+    label: 'Barcode',
+    kinds: { records: { required: false }, products: { required: true } },
+    synonyms: ['barcode', 'bar code', 'upc', 'upc code', 'ean', 'ean code', 'ean13', 'gtin', 'product code', 'item code', 'code'],
+  },
+  {
+    id: 'itemName',
+    label: 'Item Name',
+    kinds: { records: { required: true }, products: { required: true } },
+    synonyms: ['item name', 'item', 'name', 'product name', 'product', 'title', 'article'],
+  },
+  {
+    id: 'description',
+    label: 'Description',
+    kinds: { records: { required: false }, products: { required: false } },
+    synonyms: ['description', 'desc', 'details', 'detail', 'product description', 'item description'],
+  },
+  {
+    id: 'category',
+    label: 'Category',
+    kinds: { products: { required: false } },
+    synonyms: ['category', 'product category', 'department', 'dept', 'group', 'product group', 'family'],
+  },
+  {
+    id: 'quantity',
+    label: 'Quantity',
+    kinds: { records: { required: false } },
+    synonyms: ['quantity', 'qty', 'count', 'units', 'on hand'],
+  },
+  {
+    id: 'expirationDate',
+    label: 'Expiration Date',
+    kinds: { records: { required: true } },
+    synonyms: ['expiration date', 'expiry date', 'expiration', 'expiry', 'exp date', 'exp', 'expires', 'best before', 'best by', 'use by', 'sell by', 'bbe'],
+  },
+  {
+    id: 'lotNumber',
+    label: 'Lot Number',
+    kinds: { records: { required: false } },
+    synonyms: ['lot number', 'lot', 'lot no', 'batch', 'batch number', 'batch no'],
+  },
+  {
+    id: 'location',
+    label: 'Location',
+    kinds: { records: { required: false } },
+    synonyms: ['location', 'storage location', 'area', 'zone'],
+  },
+  {
+    id: 'aisle',
+    label: 'Aisle',
+    kinds: { records: { required: false } },
+    synonyms: ['aisle', 'bay'],
+  },
+  {
+    id: 'notes',
+    label: 'Notes',
+    kinds: { records: { required: false } },
+    synonyms: ['notes', 'note', 'remarks', 'remark', 'comments', 'comment'],
+  },
+  {
+    id: 'dateCreated',
+    label: 'Date Created',
+    kinds: { records: { required: false } },
+    synonyms: ['date created', 'created', 'created at', 'date added', 'added', 'entered', 'last updated', 'updated'],
+  },
+];
+
+export type ImportCell = string | number | boolean;
+
+export interface ImportSheet {
+  name: string;
+  /** Raw cells by sheet row; rows[0] is spreadsheet row 1. Dates are serials. */
+  rows: ImportCell[][];
+  /** Kept for the formatted text of sample cells. */
+  worksheet: XLSX.WorkSheet;
+}
+
+export interface ImportWorkbook {
+  fileName: string;
+  sheets: ImportSheet[];
+  /** Date serials count from 1904 (old Mac Excel files). */
+  date1904: boolean;
+}
+
+export interface ImportColumn {
+  index: number;
+  /** Header text, or "Column C" when the header cell is blank. */
+  header: string;
+  samples: string[];
+}
+
+export interface MappedRow {
+  /** Spreadsheet row number, for messages. */
+  rowNumber: number;
+  values: Partial<Record<ImportField, ImportCell>>;
+}
+
+export const getImportFields = (kind: ImportKind): ImportFieldInfo[] =>
+  IMPORT_FIELDS.filter(field => field.kinds[kind]);
+
+const normalizeHeader = (value: unknown): string =>
+  String(value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const isBlank = (value: unknown): boolean => String(value ?? '').trim() === '';
+
+export const readImportWorkbook = async (file: File): Promise<ImportWorkbook> => {
+  try {
+    // CSV goes through text() so UTF-8 names survive; SheetJS handles quoting.
+    const workbook = /\.csv$/i.test(file.name) || file.type === 'text/csv'
+      ? XLSX.read(await file.text(), { type: 'string', raw: true })
+      : XLSX.read(await file.arrayBuffer(), { type: 'array', cellStyles: false, cellFormula: false, cellHTML: false });
+
+    const sheets = workbook.SheetNames.map(name => {
+      const worksheet = workbook.Sheets[name];
+      const rows = XLSX.utils.sheet_to_json<ImportCell[]>(worksheet, {
+        header: 1,
+        raw: true,
+        defval: '',
+        blankrows: true,
+      });
+      // sheet_to_json starts at the used range; pad so indexes match A1.
+      const start = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s : { r: 0, c: 0 };
+      const padding: ImportCell[] = Array(start.c).fill('');
+      return {
+        name,
+        rows: [
+          ...Array.from({ length: start.r }, () => []),
+          ...rows.map(row => (start.c ? [...padding, ...row] : row)),
+        ],
+        worksheet,
+      };
+    });
+
+    return { fileName: file.name, sheets, date1904: Boolean(workbook.Workbook?.WBProps?.date1904) };
+  } catch (error) {
+    console.error('Error reading import file:', error);
+    throw new Error('Could not read this file. Check that it is a valid Excel or CSV file.');
+  }
+};
+
+export const getImportSheet = (workbook: ImportWorkbook, sheetName: string): ImportSheet =>
+  workbook.sheets.find(sheet => sheet.name === sheetName) ?? workbook.sheets[0];
+
+// Title rows above the table are common in supplier files. Prefer the row
+// with the most recognizable headers, else the first row with two labels.
+export const detectHeaderRow = (sheet: ImportSheet): number => {
+  const candidates = sheet.rows.slice(0, 20);
+  let best = -1;
+  let bestScore = 0;
+  candidates.forEach((row, index) => {
+    const score = row.filter(cell =>
+      IMPORT_FIELDS.some(field => field.synonyms.includes(normalizeHeader(cell)))
+    ).length;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  if (best >= 0) return best + 1;
+
+  const labelled = candidates.findIndex(row => row.filter(cell => typeof cell === 'string' && !isBlank(cell)).length >= 2);
+  return labelled >= 0 ? labelled + 1 : 1;
+};
+
+const columnLetter = (index: number): string => XLSX.utils.encode_col(index);
+
+// Show what the spreadsheet shows, e.g. "3/1/26" rather than the serial 46082.
+const formatSample = (sheet: ImportSheet, row: number, column: number, value: ImportCell): string => {
+  const cell = sheet.worksheet[XLSX.utils.encode_cell({ r: row, c: column })] as XLSX.CellObject | undefined;
+  return (cell?.w ?? String(value)).trim();
+};
+
+/** Columns under the header row, with a few sample values each. */
+export const getImportColumns = (sheet: ImportSheet, headerRow: number): ImportColumn[] => {
+  const headerCells = sheet.rows[headerRow - 1] ?? [];
+  const dataRows = sheet.rows.slice(headerRow);
+  const width = Math.max(headerCells.length, ...dataRows.slice(0, 50).map(row => row.length), 0);
+  const seen = new Map<string, number>();
+
+  return Array.from({ length: width }, (_, index) => {
+    let header = isBlank(headerCells[index]) ? `Column ${columnLetter(index)}` : String(headerCells[index]).trim();
+    // Repeated headers get a suffix so each column keeps its own mapping.
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    if (count > 1) header = `${header} (${count})`;
+
+    const samples: string[] = [];
+    for (let row = 0; row < dataRows.length && samples.length < 3; row++) {
+      const value = dataRows[row][index];
+      if (!isBlank(value)) samples.push(formatSample(sheet, headerRow + row, index, value));
+    }
+    return { index, header, samples };
+  }).filter(column => !column.header.startsWith('Column ') || column.samples.length > 0);
+};
+
+/**
+ * Pre-fill a mapping from header names. Exact spellings win; otherwise the
+ * longest synonym whose words all appear in the header ("Expiry Date
+ * (DD/MM)" → expiration date). A field is assigned to at most one column.
+ */
+export const guessMapping = (columns: ImportColumn[], kind: ImportKind): Record<string, ImportField> => {
+  const fields = getImportFields(kind);
+  const result: Record<string, ImportField> = {};
+  const taken = new Set<ImportField>();
+
+  for (const column of columns) {
+    const header = normalizeHeader(column.header);
+    const field = fields.find(info => !taken.has(info.id) && info.synonyms.includes(header));
+    if (field) {
+      result[column.header] = field.id;
+      taken.add(field.id);
+    }
+  }
+
+  for (const column of columns) {
+    if (result[column.header]) continue;
+    const words = normalizeHeader(column.header).split(' ');
+    let best: { field: ImportField; length: number } | null = null;
+    for (const info of fields) {
+      if (taken.has(info.id)) continue;
+      for (const synonym of info.synonyms) {
+        const synonymWords = synonym.split(' ');
+        if (synonymWords.every(word => words.includes(word)) && (!best || synonym.length > best.length)) {
+          best = { field: info.id, length: synonym.length };
+        }
+      }
+    }
+    if (best) {
+      result[column.header] = best.field;
+      taken.add(best.field);
+    }
+  }
+
+  return result;
+};
+
+/** Build the starting mapping for a file: detected header row and guessed columns. */
+export const createInitialMapping = (workbook: ImportWorkbook, kind: ImportKind, sheetName?: string): ImportMapping => {
+  const sheet = getImportSheet(workbook, sheetName ?? workbook.sheets[0]?.name ?? '');
+  const headerRow = detectHeaderRow(sheet);
+  return {
+    sheetName: sheet.name,
+    headerRow,
+    columns: guessMapping(getImportColumns(sheet, headerRow), kind),
+  };
+};
+
+/**
+ * A preset fits a file when every column it maps exists under its header row.
+ * Its sheet is used when present, otherwise the first sheet.
+ */
+export const presetFitsWorkbook = (preset: ImportPreset, workbook: ImportWorkbook): boolean => {
+  const sheet = getImportSheet(workbook, preset.mapping.sheetName);
+  const headers = new Set(getImportColumns(sheet, preset.mapping.headerRow).map(column => column.header));
+  const mapped = Object.keys(preset.mapping.columns);
+  return mapped.length > 0 && mapped.every(header => headers.has(header));
+};
+
+export const applyPreset = (preset: ImportPreset, workbook: ImportWorkbook): ImportMapping => ({
+  ...preset.mapping,
+  sheetName: getImportSheet(workbook, preset.mapping.sheetName).name,
+});
+
+/** Required fields of the kind that no column fills. */
+export const getMissingFields = (mapping: ImportMapping, kind: ImportKind): ImportFieldInfo[] => {
+  const mapped = new Set(Object.values(mapping.columns));
+  return getImportFields(kind).filter(field => field.kinds[kind]?.required && !mapped.has(field.id));
+};
+
+/** Every non-blank value mapped to one of the fields, in row order. */
+export const getFieldValues = (rows: MappedRow[], fields: ImportField[]): ImportCell[] =>
+  rows.flatMap(row => fields.map(field => row.values[field]).filter((value): value is ImportCell => value !== undefined));
+
+/** Data rows as field values; blank rows are dropped. */
+export const applyMapping = (workbook: ImportWorkbook, mapping: ImportMapping): MappedRow[] => {
+  const sheet = getImportSheet(workbook, mapping.sheetName);
+  const columns = getImportColumns(sheet, mapping.headerRow)
+    .filter(column => mapping.columns[column.header])
+    .map(column => ({ index: column.index, field: mapping.columns[column.header] }));
+
+  const rows: MappedRow[] = [];
+  sheet.rows.slice(mapping.headerRow).forEach((row, offset) => {
+    const values: MappedRow['values'] = {};
+    for (const { index, field } of columns) {
+      const cell = row[index];
+      if (!isBlank(cell)) values[field] = typeof cell === 'string' ? cell.trim() : cell;
+    }
+    if (Object.keys(values).length > 0) {
+      rows.push({ rowNumber: mapping.headerRow + offset + 1, values });
+    }
+  });
+  return rows;
+};
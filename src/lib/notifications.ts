@@ -1,6 +1,7 @@
 "use client";
 
-import type { ExpirationRecord, NotificationSettings } from '@/types';
+import type { ExpirationRecord, NotificationSettings, StatusRules } from '@/types';
+import { getAlertBands } from './status';
 
 // Check if notifications are supported
 export const isNotificationSupported = (): boolean => {
@@ -48,28 +49,35 @@ export const showNotification = (title: string, options?: NotificationOptions):
   }
 };
 
-// Check for items that need notifications
+// Check for items that need notifications. Advance warnings come from the
+// status rules: one notification per band marked as an alert, matching the
+// alerts panel on the home screen.
 export const checkExpirationNotifications = (
   records: ExpirationRecord[],
-  settings: NotificationSettings
+  settings: NotificationSettings,
+  rules: StatusRules
 ): void => {
   if (getNotificationPermission() !== 'granted') {
     return;
   }
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  getAlertBands(rules).forEach(band => {
+    const items = records.filter(record => record.status === band.id);
+    if (items.length === 0) return;
 
-  records.forEach(record => {
-    const expirationDate = new Date(record.expirationDate);
-    expirationDate.setHours(0, 0, 0, 0);
-    
-    const daysUntilExpiration = Math.ceil(
-      (expirationDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
+    const names = items.slice(0, 3).map(record => record.itemName).join(', ');
+    showNotification(
+      `${band.label}: ${items.length} item${items.length === 1 ? '' : 's'}`,
+      {
+        body: items.length > 3 ? `${names} and ${items.length - 3} more` : names,
+        tag: `expiry-band-${band.id}`
+      }
     );
+  });
 
+  records.forEach(record => {
     // Check for expiration day notification
-    if (settings.notifyOnExpirationDay && daysUntilExpiration === 0) {
+    if (settings.notifyOnExpirationDay && record.remainingDays === 0) {
       showNotification(
         `${record.itemName} expires today!`,
         {
@@ -80,17 +88,6 @@ export const checkExpirationNotifications = (
       );
     }
 
-    // Check for advance notification
-    if (daysUntilExpiration === settings.daysBeforeExpiration && daysUntilExpiration > 0) {
-      showNotification(
-        `${record.itemName} expires in ${settings.daysBeforeExpiration} days`,
-        {
-          body: `${record.itemName} (Qty: ${record.quantity}) will expire on ${record.expirationDate.toLocaleDateString()}`,
-          tag: `expiry-warning-${record.id}`
-        }
-      );
-    }
-
     // Check for low quantity notification
     if (record.quantity <= settings.quantityThreshold) {
       showNotification(
@@ -107,10 +104,11 @@ export const checkExpirationNotifications = (
 // Schedule daily notification check
 export const scheduleDailyNotificationCheck = (
   getRecords: () => Promise<ExpirationRecord[]>,
-  getSettings: () => Promise<NotificationSettings>
+  getSettings: () => Promise<NotificationSettings>,
+  getRules: () => Promise<StatusRules>
 ): void => {
   // Check immediately
-  checkNotificationsNow(getRecords, getSettings);
+  checkNotificationsNow(getRecords, getSettings, getRules);
 
   // Schedule daily checks at 9 AM
   const scheduleNextCheck = () => {
@@ -122,7 +120,7 @@ export const scheduleDailyNotificationCheck = (
     const timeUntilNext = tomorrow9AM.getTime() - now.getTime();
     
     setTimeout(() => {
-      checkNotificationsNow(getRecords, getSettings);
+      checkNotificationsNow(getRecords, getSettings, getRules);
       scheduleNextCheck(); // Schedule the next day
     }, timeUntilNext);
   };
@@ -133,15 +131,17 @@ export const scheduleDailyNotificationCheck = (
 // Check notifications immediately
 const checkNotificationsNow = async (
   getRecords: () => Promise<ExpirationRecord[]>,
-  getSettings: () => Promise<NotificationSettings>
+  getSettings: () => Promise<NotificationSettings>,
+  getRules: () => Promise<StatusRules>
 ): Promise<void> => {
   try {
-    const [records, settings] = await Promise.all([
+    const [records, settings, rules] = await Promise.all([
       getRecords(),
-      getSettings()
+      getSettings(),
+      getRules()
     ]);
     
-    checkExpirationNotifications(records, settings);
+    checkExpirationNotifications(records, settings, rules);
   } catch (error) {
     console.error('Error checking notifications:', error);
   }
@@ -180,55 +180,3 @@ export const clearNotifications = (tag: string): void => {
   // This is a placeholder for future implementation if the API becomes available
   console.log(`Clearing notifications with tag: ${tag}`);
 };
-
-// Get notification summary for dashboard
-export const getNotificationSummary = (
-  records: ExpirationRecord[],
-  settings: NotificationSettings
-): {
-  expiredCount: number;
-  expiringTodayCount: number;
-  expiringThisWeekCount: number;
-  lowQuantityCount: number;
-} => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  const oneWeekFromNow = new Date(today);
-  oneWeekFromNow.setDate(today.getDate() + 7);
-
-  let expiredCount = 0;
-  let expiringTodayCount = 0;
-  let expiringThisWeekCount = 0;
-  let lowQuantityCount = 0;
-
-  records.forEach(record => {
-    const expirationDate = new Date(record.expirationDate);
-    expirationDate.setHours(0, 0, 0, 0);
-
-    // Count expired items
-    if (expirationDate < today) {
-      expiredCount++;
-    }
-    // Count items expiring today
-    else if (expirationDate.getTime() === today.getTime()) {
-      expiringTodayCount++;
-    }
-    // Count items expiring this week
-    else if (expirationDate <= oneWeekFromNow) {
-      expiringThisWeekCount++;
-    }
-
-    // Count low quantity items
-    if (record.quantity <= settings.quantityThreshold) {
-      lowQuantityCount++;
-    }
-  });
-
-  return {
-    expiredCount,
-    expiringTodayCount,
-    expiringThisWeekCount,
-    lowQuantityCount
-  };
-};
\ No newline at end of file
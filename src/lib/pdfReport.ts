@@ -0,0 +1,220 @@
+"use client";
+
+import { format } from 'date-fns';
+import type { jsPDF } from 'jspdf';
+import type { ExpirationRecord, StatusColor, StatusRules, StorageLocation } from '@/types';
+
+// Printable expiration report for the morning walk: a summary page, then one
+// section per status band, split by location, each band starting on a new
+// page. Built entirely in the browser; jsPDF is loaded on first use.
+
+export interface PdfReportOptions {
+  statusRules: StatusRules;
+  locations: StorageLocation[];
+  storeName: string;
+  generatedAt?: Date;
+}
+
+type RGB = [number, number, number];
+
+// Print-safe equivalents of the Tailwind 600 shades used on screen.
+const BAND_COLORS: Record<StatusColor, RGB> = {
+  red: [220, 38, 38],
+  orange: [234, 88, 12],
+  yellow: [202, 138, 4],
+  blue: [37, 99, 235],
+  purple: [147, 51, 234],
+  green: [22, 163, 74],
+  gray: [75, 85, 99],
+};
+
+const MARGIN = 14;
+const HEADER_HEIGHT = 26;
+const FOOTER_HEIGHT = 12;
+const TABLE_HEAD = ['Item', 'Barcode', 'Lot', 'Qty', 'Expires', 'Days', 'Aisle', 'Done'];
+
+interface LocationGroup {
+  name: string;
+  records: ExpirationRecord[];
+}
+
+const countUnits = (records: ExpirationRecord[]): number =>
+  records.reduce((total, record) => total + record.quantity, 0);
+
+const describeCount = (records: ExpirationRecord[]): string => {
+  const units = countUnits(records);
+  return `${records.length} item${records.length === 1 ? '' : 's'}, ${units} unit${units === 1 ? '' : 's'}`;
+};
+
+// Locations in their configured order, unassigned items last. Records keep
+// the order they were passed in.
+const groupByLocation = (records: ExpirationRecord[], locations: StorageLocation[]): LocationGroup[] => {
+  const groups: LocationGroup[] = locations
+    .map(location => ({
+      name: location.name,
+      records: records.filter(record => record.locationId === location.id),
+    }));
+  groups.push({
+    name: 'No location',
+    records: records.filter(record => !locations.some(location => location.id === record.locationId)),
+  });
+  return groups.filter(group => group.records.length > 0);
+};
+
+const lastTableY = (doc: jsPDF): number =>
+  (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+// Header and footer go on last, once the page count is known.
+const drawPageChrome = (doc: jsPDF, storeName: string, generatedAt: Date) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(17, 24, 39);
+    doc.text(storeName || 'Expiration Report', MARGIN, 14);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(75, 85, 99);
+    if (storeName) doc.text('Expiration Report', MARGIN, 19);
+    doc.text(format(generatedAt, 'EEEE d MMMM yyyy, HH:mm'), pageWidth - MARGIN, 14, { align: 'right' });
+
+    doc.setDrawColor(209, 213, 219);
+    doc.line(MARGIN, 22, pageWidth - MARGIN, 22);
+
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 6, { align: 'right' });
+  }
+};
+
+/** Build the report as a jsPDF document. */
+export const createExpirationReportPdf = async (
+  records: ExpirationRecord[],
+  { statusRules, locations, storeName, generatedAt = new Date() }: PdfReportOptions
+): Promise<jsPDF> => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([
+    import('jspdf'),
+    import('jspdf-autotable'),
+  ]);
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const tableMargin = { top: HEADER_HEIGHT + 4, bottom: FOOTER_HEIGHT + 4, left: MARGIN, right: MARGIN };
+
+  const bands = statusRules.bands.map(band => ({
+    band,
+    records: records.filter(record => record.status === band.id),
+  }));
+
+  // Summary page
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(17, 24, 39);
+  doc.text('Summary', MARGIN, HEADER_HEIGHT + 8);
+
+  autoTable(doc, {
+    startY: HEADER_HEIGHT + 12,
+    margin: tableMargin,
+    theme: 'grid',
+    head: [['Status', 'Items', 'Units']],
+    body: [
+      ...bands.map(({ band, records: bandRecords }) => [
+        band.label,
+        bandRecords.length,
+        countUnits(bandRecords),
+      ]),
+      [
+        { content: 'Total', styles: { fontStyle: 'bold' } },
+        { content: records.length, styles: { fontStyle: 'bold' } },
+        { content: countUnits(records), styles: { fontStyle: 'bold' } },
+      ],
+    ],
+    headStyles: { fillColor: [55, 65, 81] },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+    didParseCell: data => {
+      const entry = bands[data.row.index];
+      if (data.section === 'body' && data.column.index === 0 && entry) {
+        data.cell.styles.textColor = BAND_COLORS[entry.band.color];
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  // One section per band that has items, each on a fresh page
+  for (const { band, records: bandRecords } of bands) {
+    if (bandRecords.length === 0) continue;
+
+    doc.addPage();
+    let y = HEADER_HEIGHT + 6;
+
+    doc.setFillColor(...BAND_COLORS[band.color]);
+    doc.rect(MARGIN, y - 5, doc.internal.pageSize.getWidth() - MARGIN * 2, 8, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(255, 255, 255);
+    doc.text(`${band.label} (${describeCount(bandRecords)})`, MARGIN + 2, y);
+    y += 8;
+
+    for (const group of groupByLocation(bandRecords, locations)) {
+      // Keep a location title together with at least a few rows.
+      if (y > pageHeight - FOOTER_HEIGHT - 30) {
+        doc.addPage();
+        y = HEADER_HEIGHT + 6;
+      }
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(10);
+      doc.setTextColor(17, 24, 39);
+      doc.text(`${group.name} (${describeCount(group.records)})`, MARGIN, y);
+
+      autoTable(doc, {
+        startY: y + 2,
+        margin: tableMargin,
+        theme: 'striped',
+        head: [TABLE_HEAD],
+        body: group.records.map(record => [
+          record.description ? `${record.itemName}\n${record.description}` : record.itemName,
+          record.barcode,
+          record.lotNumber,
+          record.quantity,
+          format(record.expirationDate, 'd MMM yyyy'),
+          record.remainingDays,
+          record.aisle,
+          '',
+        ]),
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        headStyles: { fillColor: [55, 65, 81] },
+        columnStyles: {
+          0: { cellWidth: 'auto' },
+          3: { halign: 'right' },
+          5: { halign: 'right' },
+          7: { cellWidth: 12 },
+        },
+        rowPageBreak: 'avoid',
+      });
+
+      y = lastTableY(doc) + 8;
+    }
+  }
+
+  drawPageChrome(doc, storeName, generatedAt);
+  return doc;
+};
+
+/** Build the report and download it as expiration-report-YYYY-MM-DD.pdf. */
+export const exportExpirationReportToPdf = async (
+  records: ExpirationRecord[],
+  options: PdfReportOptions
+): Promise<void> => {
+  try {
+    const doc = await createExpirationReportPdf(records, options);
+    doc.save(`expiration-report-${format(options.generatedAt ?? new Date(), 'yyyy-MM-dd')}.pdf`);
+  } catch (error) {
+    console.error('Error creating PDF report:', error);
+    throw new Error('Failed to create PDF report');
+  }
+};
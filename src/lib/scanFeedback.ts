@@ -0,0 +1,34 @@
+"use client";
+
+import type { ScannerSettings } from '@/types';
+
+let audioContext: AudioContext | null = null;
+
+// A short 1.2 kHz tone, like a handheld scanner. Browsers only allow audio
+// after a user gesture; tapping "Start Camera" counts as one.
+const playBeep = () => {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = 'square';
+    oscillator.frequency.value = 1200;
+    gain.gain.value = 0.1;
+
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.12);
+  } catch (error) {
+    console.error('Error playing scan beep:', error);
+  }
+};
+
+export const signalScanSuccess = (settings: Pick<ScannerSettings, 'beepOnScan' | 'vibrateOnScan'>) => {
+  if (settings.beepOnScan) playBeep();
+  // iOS Safari has no Vibration API.
+  if (settings.vibrateOnScan && typeof navigator.vibrate === 'function') {
+    navigator.vibrate(80);
+  }
+};
@@ -0,0 +1,213 @@
+"use client";
+
+import { differenceInCalendarDays, differenceInCalendarMonths } from 'date-fns';
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Info,
+  RotateCcw,
+  type LucideIcon,
+} from 'lucide-react';
+import type { StatusBand, StatusColor, StatusIconName, StatusRules, StatusUnit } from '@/types';
+
+// Default rules mirror the month-based scheme the home list has always used.
+export const DEFAULT_STATUS_RULES: StatusRules = {
+  unit: 'months',
+  bands: [
+    { id: 'expired', label: 'Expired', maxRemaining: 1, color: 'red', icon: 'alert-circle', alert: true },
+    { id: 'push', label: 'For Push Item/Items', maxRemaining: 3, color: 'yellow', icon: 'alert-triangle', alert: true },
+    { id: 'return', label: 'For Return this Month', maxRemaining: 4, color: 'blue', icon: 'rotate-ccw', alert: false },
+    { id: 'good', label: 'Good', maxRemaining: null, color: 'green', icon: 'check-circle', alert: false },
+  ],
+};
+
+export const DAILY_STATUS_RULES: StatusRules = {
+  unit: 'days',
+  bands: [
+    { id: 'expired', label: 'Expired', maxRemaining: -1, color: 'red', icon: 'alert-circle', alert: true },
+    { id: 'near-expiration', label: 'Near Expiration', maxRemaining: 7, color: 'yellow', icon: 'alert-triangle', alert: true },
+    { id: 'safe', label: 'Safe', maxRemaining: null, color: 'green', icon: 'check-circle', alert: false },
+  ],
+};
+
+export const STATUS_RULE_PRESETS: { id: string; label: string; rules: StatusRules }[] = [
+  { id: 'monthly', label: 'Monthly (Push / Return)', rules: DEFAULT_STATUS_RULES },
+  { id: 'daily', label: 'Daily (7-day window)', rules: DAILY_STATUS_RULES },
+];
+
+// Tailwind only ships classes it can see literally, so every color is spelled out.
+export const STATUS_COLORS: Record<StatusColor, {
+  label: string;
+  emoji: string;
+  badge: string;
+  text: string;
+  border: string;
+}> = {
+  red: {
+    label: 'Red',
+    emoji: '🔴',
+    badge: 'bg-red-100 text-red-800 border-red-200',
+    text: 'text-red-600',
+    border: 'border-2 border-red-400 shadow-[0_0_12px_rgba(239,68,68,0.35)]',
+  },
+  orange: {
+    label: 'Orange',
+    emoji: '🟠',
+    badge: 'bg-orange-100 text-orange-800 border-orange-200',
+    text: 'text-orange-600',
+    border: 'border-2 border-orange-400 shadow-[0_0_12px_rgba(249,115,22,0.35)]',
+  },
+  yellow: {
+    label: 'Yellow',
+    emoji: '🟡',
+    badge: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+    text: 'text-yellow-600',
+    border: 'border-2 border-yellow-400 shadow-[0_0_12px_rgba(234,179,8,0.35)]',
+  },
+  blue: {
+    label: 'Blue',
+    emoji: '🔵',
+    badge: 'bg-blue-100 text-blue-800 border-blue-200',
+    text: 'text-blue-600',
+    border: 'border-2 border-blue-400 shadow-[0_0_12px_rgba(59,130,246,0.35)]',
+  },
+  purple: {
+    label: 'Purple',
+    emoji: '🟣',
+    badge: 'bg-purple-100 text-purple-800 border-purple-200',
+    text: 'text-purple-600',
+    border: 'border-2 border-purple-400 shadow-[0_0_12px_rgba(168,85,247,0.35)]',
+  },
+  green: {
+    label: 'Green',
+    emoji: '🟢',
+    badge: 'bg-green-100 text-green-800 border-green-200',
+    text: 'text-green-600',
+    border: 'border border-green-300',
+  },
+  gray: {
+    label: 'Gray',
+    emoji: '⚪',
+    badge: 'bg-gray-100 text-gray-800 border-gray-200',
+    text: 'text-gray-600',
+    border: 'border border-gray-300',
+  },
+};
+
+export const STATUS_ICONS: Record<StatusIconName, LucideIcon> = {
+  'alert-circle': AlertCircle,
+  'alert-triangle': AlertTriangle,
+  'rotate-ccw': RotateCcw,
+  clock: Clock,
+  info: Info,
+  'check-circle': CheckCircle,
+};
+
+export const getRemainingDays = (expirationDate: Date, today: Date = new Date()): number =>
+  differenceInCalendarDays(expirationDate, today);
+
+export const getRemainingMonths = (expirationDate: Date, today: Date = new Date()): number =>
+  differenceInCalendarMonths(expirationDate, today);
+
+export const getRemaining = (expirationDate: Date, unit: StatusUnit, today: Date = new Date()): number =>
+  unit === 'months' ? getRemainingMonths(expirationDate, today) : getRemainingDays(expirationDate, today);
+
+// Resolve the band an expiration date falls into. Bands are checked in order and
+// the first one whose threshold is not exceeded wins.
+export const evaluateStatus = (
+  expirationDate: Date,
+  rules: StatusRules = DEFAULT_STATUS_RULES,
+  today: Date = new Date()
+): StatusBand => {
+  const bands = rules.bands.length ? rules.bands : DEFAULT_STATUS_RULES.bands;
+  const remaining = getRemaining(expirationDate, rules.unit, today);
+
+  return (
+    bands.find(band => band.maxRemaining === null || remaining <= band.maxRemaining) ||
+    bands[bands.length - 1]
+  );
+};
+
+export const getAlertBands = (rules: StatusRules): StatusBand[] =>
+  rules.bands.filter(band => band.alert);
+
+// Human-readable description of a band's range, e.g. "2-3 months remaining".
+export const describeBandRange = (rules: StatusRules, index: number): string => {
+  const band = rules.bands[index];
+  const previous = index > 0 ? rules.bands[index - 1].maxRemaining : null;
+  const unit = rules.unit === 'months' ? 'month' : 'day';
+  const plural = (n: number) => `${n} ${unit}${Math.abs(n) === 1 ? '' : 's'}`;
+
+  if (!band) return '';
+  if (band.maxRemaining === null) {
+    return previous === null ? 'Any date' : `More than ${plural(previous)}`;
+  }
+  if (previous === null) {
+    return band.maxRemaining < 0 ? 'Past expiration' : `Up to ${plural(band.maxRemaining)}`;
+  }
+  const from = previous + 1;
+  return from === band.maxRemaining
+    ? `Exactly ${plural(from)}`
+    : `${from} to ${plural(band.maxRemaining)}`;
+};
+
+export const validateStatusRules = (rules: StatusRules): string[] => {
+  const errors: string[] = [];
+
+  if (rules.bands.length === 0) {
+    errors.push('At least one status band is required');
+    return errors;
+  }
+
+  rules.bands.forEach((band, index) => {
+    const isLast = index === rules.bands.length - 1;
+
+    if (!band.label.trim()) {
+      errors.push(`Band ${index + 1} needs a name`);
+    }
+    if (isLast && band.maxRemaining !== null) {
+      errors.push(`The last band ("${band.label}") must cover all remaining dates`);
+    }
+    if (!isLast && band.maxRemaining === null) {
+      errors.push(`Only the last band can be open-ended ("${band.label}")`);
+    }
+    if (!isLast && band.maxRemaining !== null && !Number.isInteger(band.maxRemaining)) {
+      errors.push(`Threshold for "${band.label}" must be a whole number`);
+    }
+
+    const previous = index > 0 ? rules.bands[index - 1].maxRemaining : null;
+    if (band.maxRemaining !== null && previous !== null && band.maxRemaining <= previous) {
+      errors.push(`Threshold for "${band.label}" must be greater than the band above it`);
+    }
+  });
+
+  return errors;
+};
+
+// Guard persisted rules so a malformed settings row can never break every screen.
+export const normalizeStatusRules = (value: unknown): StatusRules => {
+  const candidate = value as Partial<StatusRules> | null | undefined;
+  if (
+    !candidate ||
+    (candidate.unit !== 'days' && candidate.unit !== 'months') ||
+    !Array.isArray(candidate.bands)
+  ) {
+    return DEFAULT_STATUS_RULES;
+  }
+
+  const bands = candidate.bands
+    .filter((band): band is StatusBand => !!band && typeof band.id === 'string')
+    .map(band => ({
+      id: band.id,
+      label: String(band.label ?? ''),
+      maxRemaining: typeof band.maxRemaining === 'number' ? band.maxRemaining : null,
+      color: band.color in STATUS_COLORS ? band.color : 'gray',
+      icon: band.icon in STATUS_ICONS ? band.icon : 'info',
+      alert: !!band.alert,
+    }));
+
+  const rules: StatusRules = { unit: candidate.unit, bands };
+  return validateStatusRules(rules).length ? DEFAULT_STATUS_RULES : rules;
+};
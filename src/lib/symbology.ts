@@ -0,0 +1,101 @@
+"use client";
+
+import { BarcodeFormat } from '@zxing/library';
+import type { BarcodeSymbology, ScannerSettings } from '@/types';
+
+export interface SymbologyInfo {
+  id: BarcodeSymbology;
+  label: string;
+  description: string;
+  /** Pattern the decoded text must match; undefined accepts any text. */
+  pattern?: RegExp;
+}
+
+// Retail linear codes first, then industrial linear, then 2D.
+export const SYMBOLOGIES: SymbologyInfo[] = [
+  { id: 'EAN_13', label: 'EAN-13', description: '13 digits, international retail', pattern: /^\d{13}$/ },
+  { id: 'EAN_8', label: 'EAN-8', description: '8 digits, small packages', pattern: /^\d{8}$/ },
+  { id: 'UPC_A', label: 'UPC-A', description: '12 digits, North American retail', pattern: /^\d{12}$/ },
+  { id: 'UPC_E', label: 'UPC-E', description: '8 digits, zero-suppressed UPC', pattern: /^\d{8}$/ },
+  { id: 'ITF', label: 'ITF-14', description: 'Interleaved 2 of 5, cases and cartons', pattern: /^(?:\d{2})+$/ },
+  { id: 'CODE_128', label: 'Code 128', description: 'Alphanumeric, includes GS1-128' },
+  { id: 'CODE_39', label: 'Code 39', description: 'Alphanumeric, internal labels' },
+  { id: 'CODE_93', label: 'Code 93', description: 'Alphanumeric, compact Code 39' },
+  { id: 'CODABAR', label: 'Codabar', description: 'Digits, libraries and labs' },
+  { id: 'RSS_14', label: 'GS1 DataBar', description: 'GTIN on fresh produce', pattern: /^\d{14}$/ },
+  { id: 'RSS_EXPANDED', label: 'GS1 DataBar Expanded', description: 'GTIN with expiry, weight or lot' },
+  { id: 'QR_CODE', label: 'QR Code', description: '2D, includes GS1 QR' },
+  { id: 'DATA_MATRIX', label: 'Data Matrix', description: '2D, includes GS1 DataMatrix' },
+  { id: 'PDF_417', label: 'PDF417', description: '2D stacked, shipping labels' },
+  { id: 'AZTEC', label: 'Aztec', description: '2D, tickets and coupons' },
+];
+
+export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
+  enabledSymbologies: [
+    'EAN_13',
+    'EAN_8',
+    'UPC_A',
+    'UPC_E',
+    'ITF',
+    'CODE_128',
+    'CODE_39',
+    'RSS_14',
+    'RSS_EXPANDED',
+    'QR_CODE',
+    'DATA_MATRIX',
+  ],
+  deviceId: '',
+  beepOnScan: true,
+  vibrateOnScan: true,
+};
+
+const SYMBOLOGY_IDS = new Set<string>(SYMBOLOGIES.map(symbology => symbology.id));
+
+export const isBarcodeSymbology = (value: unknown): value is BarcodeSymbology =>
+  typeof value === 'string' && SYMBOLOGY_IDS.has(value);
+
+export const getSymbologyLabel = (symbology: BarcodeSymbology | ''): string =>
+  SYMBOLOGIES.find(info => info.id === symbology)?.label || '';
+
+/** Map a ZXing BarcodeFormat value to our symbology name, if we track it. */
+export const fromZXingFormat = (format: BarcodeFormat): BarcodeSymbology | null => {
+  const name = BarcodeFormat[format];
+  return isBarcodeSymbology(name) ? name : null;
+};
+
+export const toZXingFormats = (symbologies: BarcodeSymbology[]): BarcodeFormat[] =>
+  symbologies.map(symbology => BarcodeFormat[symbology]);
+
+/**
+ * Check decoded text against the rules of the symbology it was read from.
+ * Returns the text to keep (trimmed, never truncated) or null to reject the
+ * read, e.g. a partial EAN-13 that ZXing misreported.
+ */
+export const acceptScanResult = (text: string, symbology: BarcodeSymbology): string | null => {
+  const value = text.trim();
+  if (!value) return null;
+
+  const info = SYMBOLOGIES.find(entry => entry.id === symbology);
+  if (info?.pattern && !info.pattern.test(value)) return null;
+
+  return value;
+};
+
+// Guard persisted settings so an unknown or empty list falls back to defaults.
+export const normalizeScannerSettings = (value: unknown): ScannerSettings => {
+  const candidate = value as Partial<ScannerSettings> | null | undefined;
+  if (!candidate) return DEFAULT_SCANNER_SETTINGS;
+
+  const enabled = Array.isArray(candidate.enabledSymbologies)
+    ? SYMBOLOGIES
+        .map(info => info.id)
+        .filter(id => candidate.enabledSymbologies!.includes(id))
+    : [];
+
+  return {
+    enabledSymbologies: enabled.length ? enabled : DEFAULT_SCANNER_SETTINGS.enabledSymbologies,
+    deviceId: typeof candidate.deviceId === 'string' ? candidate.deviceId : '',
+    beepOnScan: candidate.beepOnScan ?? DEFAULT_SCANNER_SETTINGS.beepOnScan,
+    vibrateOnScan: candidate.vibrateOnScan ?? DEFAULT_SCANNER_SETTINGS.vibrateOnScan,
+  };
+};
@@ -0,0 +1,35 @@
+"use client";
+
+import { toast } from 'sonner';
+import { expirationRecordsService } from './db';
+
+export const TRASH_RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Until emptied' },
+];
+
+/** When a trashed record will be purged, or null when retention is off. */
+export const getPurgeDate = (deletedAt: Date, retentionDays: number): Date | null =>
+  retentionDays > 0 ? new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000) : null;
+
+// Shown right after records are moved to the trash. Undo restores them and
+// then calls `onRestored` so the caller can reload or navigate back.
+export const showDeletedToast = (ids: string[], onRestored?: () => void): void => {
+  if (ids.length === 0) return;
+  toast(ids.length === 1 ? 'Item moved to the trash' : `${ids.length} items moved to the trash`, {
+    duration: 8000,
+    action: {
+      label: 'Undo',
+      onClick: async () => {
+        try {
+          await expirationRecordsService.restore(ids);
+          onRestored?.();
+        } catch {
+          toast.error('Could not restore. The items are still in the trash.');
+        }
+      }
+    }
+  });
+};
@@ -1,35 +1,114 @@
 // Core data models for the Expiration Tracker application
 
+// Barcode symbologies, named after the ZXing BarcodeFormat values.
+export type BarcodeSymbology =
+  | 'EAN_13'
+  | 'EAN_8'
+  | 'UPC_A'
+  | 'UPC_E'
+  | 'ITF'
+  | 'CODE_128'
+  | 'CODE_39'
+  | 'CODE_93'
+  | 'CODABAR'
+  | 'RSS_14'
+  | 'RSS_EXPANDED'
+  | 'QR_CODE'
+  | 'DATA_MATRIX'
+  | 'PDF_417'
+  | 'AZTEC';
+
 export interface ExpirationRecord {
   id: string;
   barcode: string;
+  barcodeFormat: BarcodeSymbology | ''; // '' when typed in manually
   itemName: string;
   description: string;
   quantity: number;
   expirationDate: Date;
+  lotNumber: string; // lot / batch number, '' when unknown
   notes: string;
+  locationId: string; // '' when unassigned
+  aisle: string;
   dateCreated: Date;
   remainingDays: number; // computed field
-  status: 'safe' | 'near-expiration' | 'expired'; // computed field
+  status: string; // computed field: id of the matching status band
+  statusBand: StatusBand; // computed field
+}
+
+// A record moved to the trash; it can be restored until it is purged.
+export interface TrashedRecord extends ExpirationRecord {
+  deletedAt: Date;
+}
+
+// A record with all of its stock removed with a reason. It stays out of the
+// lists and the trash but keeps its history.
+export interface DisposedRecord extends ExpirationRecord {
+  disposedAt: Date;
+}
+
+// Why stock left the shelf
+export type DispositionReason = 'sold' | 'discarded' | 'returned' | 'donated' | 'markedDown';
+
+// Units taken off a record with a reason. The item details are copied so the
+// disposition still reads correctly once the record is gone.
+export interface Disposition {
+  id: string;
+  recordId: string;
+  barcode: string;
+  itemName: string;
+  lotNumber: string;
+  locationId: string;
+  expirationDate: Date;
+  reason: DispositionReason;
+  quantity: number;
+  /** Cost of one unit; null when not given. */
+  unitCost: number | null;
+  notes: string;
+  disposedAt: Date;
+  /** Quantity left on the record afterwards; 0 means it was marked disposed. */
+  remaining: number;
 }
 
 export interface ProductData {
   barcode: string; // primary key
   itemName: string;
   description: string;
+  /** Product group used in waste reports; '' or missing when uncategorized. */
+  category?: string;
   /** Canonical lookup key used for fast barcode matching. */
   matchKey?: string;
 }
 
+export interface StorageLocation {
+  id: string;
+  name: string;
+  sortOrder: number;
+}
+
 export interface NotificationSettings {
-  daysBeforeExpiration: number;
   notifyOnExpirationDay: boolean;
   quantityThreshold: number;
 }
 
+export interface ScannerSettings {
+  enabledSymbologies: BarcodeSymbology[];
+  deviceId: string; // '' picks the back camera automatically
+  beepOnScan: boolean;
+  vibrateOnScan: boolean;
+}
+
 export interface AppSettings {
   notifications: NotificationSettings;
   theme: 'light' | 'dark' | 'system';
+  statusRules: StatusRules;
+  scanner: ScannerSettings;
+  exportProfile: ExportProfile;
+  /** Printed in report headers; '' when not set. */
+  storeName: string;
+  importDuplicates: ImportDuplicateSettings;
+  /** Days a deleted record stays in the trash; 0 keeps it until emptied by hand. */
+  trashRetentionDays: number;
 }
 
 // Form interfaces for creating/editing records
@@ -39,13 +118,46 @@ export interface ExpirationRecordForm {
   description: string;
   quantity: number;
   expirationDate: string; // ISO date string for forms
+  lotNumber: string;
   notes: string;
+  locationId: string;
+  aisle: string;
 }
 
 export interface ProductDataForm {
   barcode: string;
   itemName: string;
   description: string;
+  category: string;
+}
+
+// One counted line from a batch scan session
+export interface BatchScanEntry {
+  barcode: string;
+  barcodeFormat: BarcodeSymbology | '';
+  itemName: string;
+  description: string;
+  quantity: number;
+  expirationDate: Date;
+  lotNumber: string;
+}
+
+export interface BatchCommitResult {
+  created: number;
+  merged: number;
+}
+
+type ImportedRecordFields = Omit<ExpirationRecord, 'id' | 'remainingDays' | 'status' | 'statusBand' | 'locationId'>;
+
+// One row accepted in the import preview. Locations travel by name so that
+// new ones are only created when the import is committed.
+export type ImportCommitEntry =
+  | { action: 'create'; id?: string; record: ImportedRecordFields; locationName: string }
+  | { action: 'update'; id: string; updates: Partial<ImportedRecordFields>; locationName: string };
+
+export interface ImportCommitResult {
+  created: number;
+  updated: number;
 }
 
 // Database operation results
@@ -69,15 +181,133 @@ export interface ExcelExportData {
   description: string;
   quantity: number;
   expirationDate: string;
+  lotNumber: string;
   remainingDays: number;
   status: string;
+  location: string;
+  aisle: string;
   notes: string;
   dateCreated: string;
 }
 
-// Status calculation helpers
-export type ExpirationStatus = 'safe' | 'near-expiration' | 'expired';
+// Import column mapping
+export type ImportKind = 'records' | 'products';
+
+export type ImportField =
+  | 'barcode'
+  | 'itemName'
+  | 'description'
+  | 'category'
+  | 'quantity'
+  | 'expirationDate'
+  | 'lotNumber'
+  | 'location'
+  | 'aisle'
+  | 'notes'
+  | 'dateCreated';
+
+export interface ImportMapping {
+  sheetName: string;
+  /** 1-based row holding the column headers; data starts below it. */
+  headerRow: number;
+  /** Column header → field it fills. Unlisted columns are not imported. */
+  columns: Record<string, ImportField>;
+  /** Day/month order of numeric dates; 'auto' (the default) reads it from the file. */
+  dateOrder?: 'auto' | 'DMY' | 'MDY';
+}
+
+// A saved mapping for one supplier's file layout
+export interface ImportPreset {
+  id: string;
+  name: string;
+  kind: ImportKind;
+  mapping: ImportMapping;
+}
+
+// What an import does with a row that matches something already there
+export type DuplicateStrategy = 'skip' | 'overwrite' | 'sum' | 'newest';
+
+export type DuplicateKeyField = 'barcode' | 'itemName' | 'expirationDate' | 'lotNumber' | 'location';
+
+export interface DuplicateOptions {
+  strategy: DuplicateStrategy;
+  /** Fields that must all agree for two rows to count as the same item. */
+  keyFields: DuplicateKeyField[];
+}
+
+export type ImportDuplicateSettings = Record<ImportKind, DuplicateOptions>;
+
+// Audit log
+export type AuditEntityType = 'record' | 'product';
+
+/** 'delete' moves a record to the trash; 'purge' removes it for good. */
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+/** Where a change came from; 'app' covers the add, edit and delete screens. */
+export type AuditSource = 'app' | 'batch-scan' | 'import' | 'rollback' | 'disposition';
+
+export interface AuditFieldChange {
+  field: string;
+  /** Stored values: ISO strings for dates, the ID for a location; '' when empty. */
+  before: string | number;
+  after: string | number;
+}
+
+export type ExportColumn = keyof ExcelExportData;
+
+export type ExportFormat = 'xlsx' | 'ods' | 'csv' | 'json';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export type ExportSortField = 'expirationDate' | 'itemName' | 'location' | 'quantity' | 'dateCreated' | 'barcode';
+
+// Last-used export settings, saved so a recurring report is one tap.
+export interface ExportProfile {
+  /** Every column, in output order. */
+  columnOrder: ExportColumn[];
+  selectedColumns: ExportColumn[];
+  /** Status band IDs to include; empty includes all. */
+  statusBands: string[];
+  /** Expiration date range as YYYY-MM-DD; '' leaves that end open. */
+  dateFrom: string;
+  dateTo: string;
+  /** A location ID, '__all__' or '__none__' for unassigned items. */
+  locationId: string;
+  search: string;
+  sortBy: ExportSortField;
+  sortDirection: 'asc' | 'desc';
+  format: ExportFormat;
+  csvDelimiter: CsvDelimiter;
+  /** Prefix CSV with a UTF-8 byte order mark so Excel reads accents correctly. */
+  csvBom: boolean;
+}
+
+// Status rule engine
+export type StatusUnit = 'days' | 'months';
+
+export type StatusColor = 'red' | 'orange' | 'yellow' | 'blue' | 'purple' | 'green' | 'gray';
+
+export type StatusIconName =
+  | 'alert-circle'
+  | 'alert-triangle'
+  | 'rotate-ccw'
+  | 'clock'
+  | 'info'
+  | 'check-circle';
+
+export interface StatusBand {
+  id: string;
+  label: string;
+  /** Upper bound (inclusive) of remaining days/months; null = catch-all last band. */
+  maxRemaining: number | null;
+  color: StatusColor;
+  icon: StatusIconName;
+  /** Include this band in the home alerts panel and notification summary. */
+  alert: boolean;
+}
 
-export interface StatusThresholds {
-  nearExpirationDays: number;
+export interface StatusRules {
+  unit: StatusUnit;
+  /** Ordered from most urgent to least urgent. */
+  bands: StatusBand[];
 }
\ No newline at end of file